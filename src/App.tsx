@@ -1,10 +1,21 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import TextToSpeech from "./components/TextToSpeech";
+import SpeechPlayer from "./components/SpeechPlayer";
 import BionicReader from "./components/BionicReader";
-import ReadingGuide from "./components/ReadingGuide";
+import ReadingGuide, { DEFAULT_GUIDE, DEFAULT_PACER, GuideSettings, PacerSettings, ReadingRuler } from "./components/ReadingGuide";
 import BackgroundNoise from "./components/BackgroundNoise";
-import AccessibilityPanel from "./components/AccessibilityPanel";
+import AccessibilityPanel, {
+  AccessibilityPreset,
+  AccessibilitySettings,
+  BUILT_IN_PRESETS,
+  DEFAULT_SETTINGS,
+  SETTING_CHOICES,
+} from "./components/AccessibilityPanel";
 import DocumentReader from "./components/DocumentReader";
+import BionicTransformer from "./components/BionicTransformer";
+import { BionicOptions, DEFAULT_BIONIC } from "./lib/bionic";
+import { DEFAULT_TYPOGRAPHY, TINTS, Typography } from "./lib/typography";
+import { matchesPreset, presetFromLink, uniquePresetName } from "./lib/presets";
 
 // =============================================
 // Enhanced App.tsx — ADHD/Attention Deficit Helper
@@ -228,7 +239,84 @@ export default function App() {
   const [fontSize, setFontSize] = useLocalStorage<"small" | "medium" | "large" | "xlarge">("set.fontSize", "medium");
   const [lineHeight, setLineHeight] = useLocalStorage<"normal" | "relaxed" | "loose">("set.lineHeight", "normal");
   const [showReadingGuide, setShowReadingGuide] = useLocalStorage<boolean>("set.readingGuide", false);
+  const [typography, setTypography] = useLocalStorage<Typography>("set.typography", DEFAULT_TYPOGRAPHY);
+  const [readingGuide, setReadingGuide] = useLocalStorage<GuideSettings>("set.readingGuideStyle", DEFAULT_GUIDE);
+  const [readingPacer, setReadingPacer] = useLocalStorage<PacerSettings>("set.readingPacer", DEFAULT_PACER);
   const [bionicReadingEnabled, setBionicReadingEnabled] = useLocalStorage<boolean>("set.bionicReading", false);
+  const [bionicOptions, setBionicOptions] = useLocalStorage<BionicOptions>("set.bionicOptions", DEFAULT_BIONIC);
+
+  // Presets: the user's own, and the one in use (formerly accessibilityPreset, which was never read back)
+  const [userPresets, setUserPresets] = useLocalStorage<AccessibilityPreset[]>("set.presets", []);
+  const [activePresetId, setActivePresetId] = useLocalStorage<string | null>(
+    "set.activePreset",
+    localStorage.getItem("accessibilityPreset")
+  );
+  const presetRestored = useRef(false);
+  const applyingPreset = useRef(false);
+  const accessibilitySettings: AccessibilitySettings = {
+    fontSize,
+    lineHeight,
+    typography,
+    showReadingGuide,
+    readingGuide,
+    readingPacer,
+    bionicReadingEnabled,
+    bionicOptions,
+  };
+  const settingSetters: { [K in keyof AccessibilitySettings]: (value: AccessibilitySettings[K]) => void } = {
+    fontSize: setFontSize,
+    lineHeight: setLineHeight,
+    typography: setTypography,
+    showReadingGuide: setShowReadingGuide,
+    readingGuide: setReadingGuide,
+    readingPacer: setReadingPacer,
+    bionicReadingEnabled: setBionicReadingEnabled,
+    bionicOptions: setBionicOptions,
+  };
+
+  function applyPreset(preset: AccessibilityPreset) {
+    for (const key of Object.keys(preset.settings) as (keyof AccessibilitySettings)[]) {
+      (settingSetters[key] as (value: unknown) => void)(preset.settings[key]);
+    }
+    setActivePresetId(preset.id);
+  }
+
+  // On startup: take a preset shared by link, or restore the one in use
+  const restorePresetRef = useRef(() => {});
+  restorePresetRef.current = () => {
+    const shared = presetFromLink(window.location.hash, DEFAULT_SETTINGS, SETTING_CHOICES);
+    if (shared) {
+      // Keep any preset of the same name: the shared one is numbered instead
+      setUserPresets((presets) => [
+        ...presets,
+        { ...shared, name: uniquePresetName(shared.name, [...BUILT_IN_PRESETS, ...presets]) },
+      ]);
+      window.history.replaceState(null, "", window.location.pathname + window.location.search);
+    }
+    const preset = shared ?? [...BUILT_IN_PRESETS, ...userPresets].find((p) => p.id === activePresetId);
+    if (!preset) return;
+    applyingPreset.current = true;
+    applyPreset(preset);
+  };
+  useEffect(() => {
+    if (presetRestored.current) return;
+    presetRestored.current = true;
+    restorePresetRef.current();
+  }, []);
+
+  // A preset stops being the one in use once its settings are changed
+  const settingsRef = useRef(accessibilitySettings);
+  settingsRef.current = accessibilitySettings;
+  useEffect(() => {
+    // Settings from the preset restored on startup show up on the next render
+    if (applyingPreset.current) {
+      applyingPreset.current = false;
+      return;
+    }
+    if (!activePresetId) return;
+    const active = [...BUILT_IN_PRESETS, ...userPresets].find((p) => p.id === activePresetId);
+    if (!active || !matchesPreset(settingsRef.current, active)) setActivePresetId(null);
+  }, [activePresetId, setActivePresetId, userPresets, fontSize, lineHeight, typography, showReadingGuide, readingGuide, readingPacer, bionicReadingEnabled, bionicOptions]);
 
   // Tasks
   const [tasks, setTasks] = useLocalStorage<Task[]>("data.tasks", [
@@ -313,7 +401,13 @@ export default function App() {
     document.body.dataset.fontSize = fontSize;
     document.body.dataset.lineHeight = lineHeight;
     document.body.dataset.reduceMotion = String(reduceMotion);
-  }, [theme, fontSize, lineHeight, reduceMotion]);
+    document.body.dataset.readingFont = typography.font;
+    document.body.dataset.letterSpacing = String(typography.letterSpacing);
+    document.body.dataset.wordSpacing = String(typography.wordSpacing);
+    document.body.dataset.paragraphSpacing = String(typography.paragraphSpacing);
+    document.body.dataset.lineLength = String(typography.lineLength);
+    document.body.dataset.tint = typography.tint;
+  }, [theme, fontSize, lineHeight, reduceMotion, typography]);
 
   return (
     <div className="appRoot">
@@ -322,8 +416,29 @@ export default function App() {
       <div className="bg" aria-hidden />
 
       {/* Accessibility Features */}
-      {showReadingGuide && <ReadingGuide />}
-      {bionicReadingEnabled && <style>{bionicStyles}</style>}
+      {showReadingGuide &&
+        (readingGuide.mode === "cursor" ? (
+          <ReadingGuide
+            color={readingGuide.color}
+            opacity={readingGuide.opacity}
+            height={readingGuide.height}
+            dimming={readingGuide.dimming}
+            autoHide={readingGuide.autoHideDelay > 0}
+            autoHideDelay={readingGuide.autoHideDelay}
+            pacerWpm={readingPacer.enabled ? readingPacer.wpm : 0}
+          />
+        ) : (
+          <ReadingRuler
+            enabled
+            fixed={readingGuide.mode === "window"}
+            color={readingGuide.color}
+            opacity={readingGuide.opacity}
+            height={readingGuide.height}
+            dimming={readingGuide.dimming}
+          />
+        ))}
+      <SpeechPlayer />
+      {bionicReadingEnabled && <BionicTransformer options={bionicOptions} />}
 
       <header className="topbar">
         <div className="brand">
@@ -364,10 +479,22 @@ export default function App() {
           setFontSize={setFontSize}
           lineHeight={lineHeight}
           setLineHeight={setLineHeight}
+          typography={typography}
+          setTypography={setTypography}
           showReadingGuide={showReadingGuide}
           setShowReadingGuide={setShowReadingGuide}
+          readingGuide={readingGuide}
+          setReadingGuide={setReadingGuide}
+          readingPacer={readingPacer}
+          setReadingPacer={setReadingPacer}
           bionicReadingEnabled={bionicReadingEnabled}
           setBionicReadingEnabled={setBionicReadingEnabled}
+          bionicOptions={bionicOptions}
+          setBionicOptions={setBionicOptions}
+          userPresets={userPresets}
+          setUserPresets={setUserPresets}
+          activePresetId={activePresetId}
+          onApplyPreset={applyPreset}
           onClose={() => setShowAccessibility(false)}
         />
       )}
@@ -435,7 +562,7 @@ export default function App() {
                 <button className="chk" onClick={() => toggleTask(t.id)}>
                   {t.done ? "✓" : "○"}
                 </button>
-                <div className={bionicReadingEnabled ? "bionic-text" : ""}>
+                <div data-bionic>
                   <span className="taskTitle">{t.title}</span>
                   <span className="taskMeta">{t.priority} • {t.minutes} min</span>
                 </div>
@@ -484,7 +611,7 @@ export default function App() {
           <p className="muted" style={{ marginBottom: '16px' }}>
             Upload PDFs, text files, or paste content for reading with Text-to-Speech and Bionic Reading
           </p>
-          <DocumentReader />
+          <DocumentReader bionic={bionicReadingEnabled} bionicOptions={bionicOptions} />
         </section>
 
         {/* Breathing Coach */}
@@ -652,33 +779,69 @@ kbd { background: var(--surface-2); padding: 2px 6px; border-radius: 4px; font-f
 
 // ---------- Accessibility Styles ----------
 const accessibilityStyles = `
-/* Font size adjustments - apply to body for inheritance */
-body[data-fontSize="small"] { font-size: 14px !important; }
-body[data-fontSize="medium"] { font-size: 16px !important; }
-body[data-fontSize="large"] { font-size: 18px !important; }
-body[data-fontSize="xlarge"] { font-size: 20px !important; }
-
-/* Line height adjustments */
-body[data-lineHeight="normal"] * { line-height: 1.5 !important; }
-body[data-lineHeight="relaxed"] * { line-height: 1.8 !important; }
-body[data-lineHeight="loose"] * { line-height: 2.2 !important; }
+/* Font size adjustments - apply to body for inheritance.  "medium" is the
+   stylesheet's own size, so it sets nothing and components keep theirs. */
+body[data-font-size="small"] { font-size: 14px !important; }
+body[data-font-size="large"] { font-size: 18px !important; }
+body[data-font-size="xlarge"] { font-size: 20px !important; }
+
+/* Line height adjustments; "normal" leaves each component's own.  The
+   one-line RSVP word keeps its height, centred between the stage marks. */
+body[data-line-height="relaxed"] *:not(.rsvp-word, .rsvp-word *) { line-height: 1.8 !important; }
+body[data-line-height="loose"] *:not(.rsvp-word, .rsvp-word *) { line-height: 2.2 !important; }
+
+/* Reading font (OpenDyslexic is bundled); code keeps its monospace font */
+body[data-reading-font="dyslexic"] *:not(code, kbd, pre, pre *) { font-family: 'OpenDyslexic', sans-serif !important; }
+body[data-reading-font="verdana"] *:not(code, kbd, pre, pre *) { font-family: Verdana, Tahoma, sans-serif !important; }
+
+/* Letter, word and paragraph spacing, by level */
+body[data-letter-spacing="1"] * { letter-spacing: 0.03em !important; }
+body[data-letter-spacing="2"] * { letter-spacing: 0.06em !important; }
+body[data-letter-spacing="3"] * { letter-spacing: 0.1em !important; }
+body[data-letter-spacing="4"] * { letter-spacing: 0.14em !important; }
+body[data-word-spacing="1"] * { word-spacing: 0.1em !important; }
+body[data-word-spacing="2"] * { word-spacing: 0.2em !important; }
+body[data-word-spacing="3"] * { word-spacing: 0.35em !important; }
+body[data-word-spacing="4"] * { word-spacing: 0.5em !important; }
+body[data-paragraph-spacing="1"] :is(p, blockquote) { margin-bottom: 1em !important; }
+body[data-paragraph-spacing="2"] :is(p, blockquote) { margin-bottom: 1.5em !important; }
+body[data-paragraph-spacing="3"] :is(p, blockquote) { margin-bottom: 2em !important; }
+body[data-paragraph-spacing="4"] :is(p, blockquote) { margin-bottom: 2.5em !important; }
+
+/* Maximum line length, in characters */
+body[data-line-length="80"] :is(p, li, blockquote, h1, h2, h3, h4, h5, h6) { max-width: 80ch; }
+body[data-line-length="70"] :is(p, li, blockquote, h1, h2, h3, h4, h5, h6) { max-width: 70ch; }
+body[data-line-length="60"] :is(p, li, blockquote, h1, h2, h3, h4, h5, h6) { max-width: 60ch; }
+body[data-line-length="50"] :is(p, li, blockquote, h1, h2, h3, h4, h5, h6) { max-width: 50ch; }
+
+/* Coloured overlay: multiplied over the page, so light areas take the tint
+   and dark text stays dark */
+body:not([data-tint="none"])::after {
+  content: "";
+  position: fixed;
+  inset: 0;
+  pointer-events: none;
+  mix-blend-mode: multiply;
+  z-index: 9996;
+}
+${TINTS.map((tint) => `body[data-tint="${tint.id}"]::after { background: ${tint.color}; }`).join("\n")}
 
 /* Reduce motion - disable animations when enabled */
 @media (prefers-reduced-motion: reduce), (prefers-reduced-motion: no-preference) {
-  body[data-reduceMotion="true"] * {
+  body[data-reduce-motion="true"] * {
     animation: none !important;
     transition: none !important;
   }
   
-  body[data-reduceMotion="true"] .breathCircle {
+  body[data-reduce-motion="true"] .breathCircle {
     animation: none !important;
   }
   
-  body[data-reduceMotion="true"] .confetti {
+  body[data-reduce-motion="true"] .confetti {
     display: none !important;
   }
   
-  body[data-reduceMotion="true"] .progressBar {
+  body[data-reduce-motion="true"] .progressBar {
     transition: none !important;
   }
 }
@@ -700,25 +863,3 @@ body[data-theme="hc"] .barFill {
   color: #000000 !important;
 }
 `;
-
-// ---------- Bionic Reading Styles ----------
-const bionicStyles = `
-.bionic-text {
-  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif;
-}
-
-.bionic-word {
-  display: inline-block;
-  margin-right: 0.2em;
-}
-
-.bionic-bold {
-  font-weight: 700;
-  color: var(--text-1);
-}
-
-.bionic-rest {
-  font-weight: 400;
-  opacity: 0.8;
-}
-`;
\ No newline at end of file
@@ -1,4 +1,38 @@
-import React from 'react';
+import React, { useRef, useState } from 'react';
+import BionicReader from './BionicReader';
+import {
+  DEFAULT_GUIDE,
+  DEFAULT_PACER,
+  GUIDE_AUTO_HIDE_DELAYS,
+  GUIDE_COLORS,
+  GUIDE_DIMMING_RANGE,
+  GUIDE_HEIGHT_RANGE,
+  GUIDE_OPACITY_RANGE,
+  GuideMode,
+  GuideSettings,
+  PACER_WPM_RANGE,
+  PacerSettings,
+  ReadingGuidePreview,
+} from './ReadingGuide';
+import { BionicOptions, DEFAULT_BIONIC, FIXATION_LEVELS, SACCADE_LEVELS } from '../lib/bionic';
+import {
+  createPresetId,
+  matchesPreset,
+  parsePreset,
+  Preset,
+  PresetChoices,
+  presetLink,
+  presetToJson,
+  uniquePresetName,
+} from '../lib/presets';
+import {
+  DEFAULT_TYPOGRAPHY,
+  LINE_LENGTHS,
+  READING_FONTS,
+  SPACING_LEVELS,
+  TINTS,
+  Typography,
+} from '../lib/typography';
 
 /**
  * AccessibilityPanel Component
@@ -10,38 +44,99 @@ import React from 'react';
  * Features:
  * - Font size adjustment
  * - Line height control
+ * - Dyslexia typography: a bundled dyslexia-friendly font, letter, word and
+ *   paragraph spacing, a maximum line length and coloured overlay tints
  * - Color contrast options
  * - Focus mode toggles
- * - Reading assistance tools
- * - Quick presets for common needs
+ * - Reading guide mode and look (color, height, opacity, dimming), with a
+ *   live preview
+ * - Reading assistance tools, with Bionic Reading fixation and saccade
+ * - Quick presets for common needs, and the user's own: save the current
+ *   settings, rename or update them, and share them as a JSON file or link
  */
 
+/** Everything a preset can set. */
+export interface AccessibilitySettings {
+  fontSize: 'small' | 'medium' | 'large' | 'xlarge';
+  lineHeight: 'normal' | 'relaxed' | 'loose';
+  typography: Typography;
+  showReadingGuide: boolean;
+  readingGuide: GuideSettings;
+  readingPacer: PacerSettings;
+  bionicReadingEnabled: boolean;
+  bionicOptions: BionicOptions;
+}
+
+export type AccessibilityPreset = Preset<AccessibilitySettings>;
+
+export const DEFAULT_SETTINGS: AccessibilitySettings = {
+  fontSize: 'medium',
+  lineHeight: 'normal',
+  typography: DEFAULT_TYPOGRAPHY,
+  showReadingGuide: false,
+  readingGuide: DEFAULT_GUIDE,
+  readingPacer: DEFAULT_PACER,
+  bionicReadingEnabled: false,
+  bionicOptions: DEFAULT_BIONIC,
+};
+
+const guideModes: { id: GuideMode; name: string; description: string }[] = [
+  { id: 'cursor', name: 'Cursor', description: 'Follows your cursor or pen; on a touch screen, tap a line to place it' },
+  { id: 'ruler', name: 'Ruler', description: 'Stays where you drag its handle' },
+  { id: 'window', name: 'Window', description: 'Stays a third of the way down; scroll the text through it' },
+];
+
+const spacingLevels = SPACING_LEVELS.map((_, level) => level);
+
+/** What the panel's own controls can set, for checking shared presets. */
+export const SETTING_CHOICES: PresetChoices<AccessibilitySettings> = {
+  fontSize: ['small', 'medium', 'large', 'xlarge'],
+  lineHeight: ['normal', 'relaxed', 'loose'],
+  typography: {
+    font: READING_FONTS.map(font => font.id),
+    letterSpacing: spacingLevels,
+    wordSpacing: spacingLevels,
+    paragraphSpacing: spacingLevels,
+    lineLength: LINE_LENGTHS,
+    tint: TINTS.map(tint => tint.id),
+  },
+  readingGuide: {
+    mode: guideModes.map(mode => mode.id),
+    color: /^#[0-9a-f]{6}$/i,
+    height: GUIDE_HEIGHT_RANGE,
+    opacity: GUIDE_OPACITY_RANGE,
+    dimming: GUIDE_DIMMING_RANGE,
+    autoHideDelay: GUIDE_AUTO_HIDE_DELAYS,
+  },
+  readingPacer: { wpm: PACER_WPM_RANGE },
+  bionicOptions: { fixation: FIXATION_LEVELS, saccade: SACCADE_LEVELS },
+};
+
 interface AccessibilityPanelProps {
   fontSize: 'small' | 'medium' | 'large' | 'xlarge';
   setFontSize: (size: 'small' | 'medium' | 'large' | 'xlarge') => void;
   lineHeight: 'normal' | 'relaxed' | 'loose';
   setLineHeight: (height: 'normal' | 'relaxed' | 'loose') => void;
+  typography: Typography;
+  setTypography: (typography: Typography) => void;
   showReadingGuide: boolean;
   setShowReadingGuide: (show: boolean) => void;
+  readingGuide: GuideSettings;
+  setReadingGuide: (guide: GuideSettings) => void;
+  readingPacer: PacerSettings;
+  setReadingPacer: (pacer: PacerSettings) => void;
   bionicReadingEnabled: boolean;
   setBionicReadingEnabled: (enabled: boolean) => void;
+  bionicOptions: BionicOptions;
+  setBionicOptions: (options: BionicOptions) => void;
+  userPresets: AccessibilityPreset[];
+  setUserPresets: (presets: AccessibilityPreset[]) => void;
+  activePresetId: string | null;
+  onApplyPreset: (preset: AccessibilityPreset) => void;
   onClose: () => void;
 }
 
-interface Preset {
-  id: string;
-  name: string;
-  icon: string;
-  description: string;
-  settings: {
-    fontSize: 'small' | 'medium' | 'large' | 'xlarge';
-    lineHeight: 'normal' | 'relaxed' | 'loose';
-    showReadingGuide: boolean;
-    bionicReadingEnabled: boolean;
-  };
-}
-
-const presets: Preset[] = [
+export const BUILT_IN_PRESETS: AccessibilityPreset[] = [
   {
     id: 'default',
     name: 'Default',
@@ -50,6 +145,7 @@ const presets: Preset[] = [
     settings: {
       fontSize: 'medium',
       lineHeight: 'normal',
+      typography: DEFAULT_TYPOGRAPHY,
       showReadingGuide: false,
       bionicReadingEnabled: false,
     }
@@ -62,6 +158,7 @@ const presets: Preset[] = [
     settings: {
       fontSize: 'large',
       lineHeight: 'relaxed',
+      typography: { ...DEFAULT_TYPOGRAPHY, lineLength: 70 },
       showReadingGuide: true,
       bionicReadingEnabled: true,
     }
@@ -74,6 +171,14 @@ const presets: Preset[] = [
     settings: {
       fontSize: 'large',
       lineHeight: 'loose',
+      typography: {
+        font: 'dyslexic',
+        letterSpacing: 2,
+        wordSpacing: 2,
+        paragraphSpacing: 2,
+        lineLength: 60,
+        tint: 'cream',
+      },
       showReadingGuide: true,
       bionicReadingEnabled: false,
     }
@@ -86,6 +191,7 @@ const presets: Preset[] = [
     settings: {
       fontSize: 'xlarge',
       lineHeight: 'loose',
+      typography: { ...DEFAULT_TYPOGRAPHY, font: 'verdana', letterSpacing: 1, wordSpacing: 1 },
       showReadingGuide: false,
       bionicReadingEnabled: false,
     }
@@ -97,21 +203,112 @@ export default function AccessibilityPanel({
   setFontSize,
   lineHeight,
   setLineHeight,
+  typography,
+  setTypography,
   showReadingGuide,
   setShowReadingGuide,
+  readingGuide,
+  setReadingGuide,
+  readingPacer,
+  setReadingPacer,
   bionicReadingEnabled,
   setBionicReadingEnabled,
+  bionicOptions,
+  setBionicOptions,
+  userPresets,
+  setUserPresets,
+  activePresetId,
+  onApplyPreset,
   onClose,
 }: AccessibilityPanelProps) {
+  const [presetName, setPresetName] = useState('');
+  const [editing, setEditing] = useState<{ id: string; name: string; description: string } | null>(null);
+  const [presetStatus, setPresetStatus] = useState<{ error: boolean; message: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateTypography = (changes: Partial<Typography>) => setTypography({ ...typography, ...changes });
+  const lineLengthIndex = Math.max(LINE_LENGTHS.indexOf(typography.lineLength), 0);
+  const updateGuide = (changes: Partial<GuideSettings>) => setReadingGuide({ ...readingGuide, ...changes });
+  const guideMode = guideModes.find(mode => mode.id === readingGuide.mode) ?? guideModes[0];
 
-  const applyPreset = (preset: Preset) => {
-    setFontSize(preset.settings.fontSize);
-    setLineHeight(preset.settings.lineHeight);
-    setShowReadingGuide(preset.settings.showReadingGuide);
-    setBionicReadingEnabled(preset.settings.bionicReadingEnabled);
+  const settings: AccessibilitySettings = {
+    fontSize,
+    lineHeight,
+    typography,
+    showReadingGuide,
+    readingGuide,
+    readingPacer,
+    bionicReadingEnabled,
+    bionicOptions,
+  };
+
+  // The chosen preset; before one is chosen, any that the settings match
+  const isActive = (preset: AccessibilityPreset) =>
+    activePresetId ? preset.id === activePresetId : matchesPreset(settings, preset);
+
+  const updatePreset = (presetId: string, changes: Partial<AccessibilityPreset>) =>
+    setUserPresets(userPresets.map(preset => (preset.id === presetId ? { ...preset, ...changes } : preset)));
 
-    // Save to localStorage
-    localStorage.setItem('accessibilityPreset', preset.id);
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const preset: AccessibilityPreset = { id: createPresetId(), name, icon: '⭐', description: 'My settings', settings };
+    setUserPresets([...userPresets, preset]);
+    onApplyPreset(preset);
+    setPresetName('');
+    setPresetStatus({ error: false, message: `Saved “${name}”.` });
+  };
+
+  const updateFromCurrent = (preset: AccessibilityPreset) => {
+    updatePreset(preset.id, { settings });
+    onApplyPreset({ ...preset, settings });
+    setPresetStatus({ error: false, message: `“${preset.name}” now has the current settings.` });
+  };
+
+  const saveEdit = () => {
+    if (!editing || !editing.name.trim()) return;
+    updatePreset(editing.id, { name: editing.name.trim(), description: editing.description.trim() });
+    setEditing(null);
+  };
+
+  const deletePreset = (preset: AccessibilityPreset) => {
+    if (!window.confirm(`Delete the preset “${preset.name}”?`)) return;
+    setUserPresets(userPresets.filter(other => other.id !== preset.id));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = parsePreset(await file.text(), DEFAULT_SETTINGS, SETTING_CHOICES);
+      // Keep any preset of the same name: the import is numbered instead
+      const preset = { ...parsed, name: uniquePresetName(parsed.name, [...BUILT_IN_PRESETS, ...userPresets]) };
+      setUserPresets([...userPresets, preset]);
+      setPresetStatus({ error: false, message: `Added “${preset.name}”. Choose it above to use it.` });
+    } catch (error) {
+      const message = error instanceof SyntaxError ? 'This file is not valid JSON.' : (error as Error).message;
+      setPresetStatus({ error: true, message: `Could not import ${file.name}: ${message}` });
+    }
+  };
+
+  const exportPreset = (preset: AccessibilityPreset) => {
+    const url = URL.createObjectURL(new Blob([presetToJson(preset)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${preset.name.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '').toLowerCase() || 'preset'}.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const shareLink = async (preset: AccessibilityPreset) => {
+    const link = presetLink(preset);
+    try {
+      await navigator.clipboard.writeText(link);
+      setPresetStatus({ error: false, message: `Link to “${preset.name}” copied. Opening it loads the preset.` });
+    } catch {
+      window.prompt('Copy this link to share the preset:', link);
+    }
   };
 
   return (
@@ -201,7 +398,7 @@ export default function AccessibilityPanel({
           display: grid;
           grid-template-columns: repeat(2, 1fr);
           gap: 8px;
-          margin-bottom: 20px;
+          margin-bottom: 12px;
         }
         
         .preset-button {
@@ -236,6 +433,77 @@ export default function AccessibilityPanel({
           font-weight: 600;
         }
         
+        .my-presets {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+          padding: 12px;
+          background: var(--surface-2);
+          border-radius: 8px;
+        }
+
+        .my-presets .control-label {
+          margin-bottom: 0;
+        }
+
+        .preset-row {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 6px;
+        }
+
+        .preset-row-name {
+          flex: 1;
+          min-width: 0;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+          font-size: 13px;
+          color: var(--text-1);
+        }
+
+        .preset-row input[type='text'] {
+          flex: 1;
+          min-width: 120px;
+          padding: 6px 8px;
+          background: var(--surface-1);
+          border: 1px solid var(--surface-3);
+          border-radius: 6px;
+          color: var(--text-1);
+          font-size: 13px;
+        }
+
+        .preset-actions {
+          display: flex;
+          gap: 4px;
+        }
+
+        .preset-action {
+          padding: 4px 8px;
+          background: var(--surface-1);
+          border: 1px solid var(--surface-3);
+          border-radius: 6px;
+          color: var(--text-1);
+          cursor: pointer;
+          font-size: 13px;
+        }
+
+        .preset-action:disabled {
+          opacity: 0.5;
+          cursor: default;
+        }
+
+        .preset-status {
+          margin: 0;
+          font-size: 12px;
+          color: var(--text-2);
+        }
+
+        .preset-status.error {
+          color: var(--warn-500);
+        }
+
         .control-group {
           margin-bottom: 16px;
         }
@@ -330,6 +598,89 @@ export default function AccessibilityPanel({
           transform: translateX(20px);
         }
         
+        .sub-options {
+          padding: 12px;
+          background: var(--surface-2);
+          border-radius: 8px;
+          margin: -4px 0 8px;
+        }
+
+        .sub-options .control-group {
+          margin-bottom: 12px;
+        }
+
+        .sub-options .control-group:last-child {
+          margin-bottom: 0;
+        }
+
+        .sub-options .toggle-item {
+          padding: 0;
+          margin-bottom: 12px;
+          background: transparent;
+        }
+
+        .sub-options .button-option {
+          background: var(--surface-1);
+        }
+
+        .sub-options .button-option.selected {
+          background: var(--brand-400);
+        }
+
+        .color-swatches {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 6px;
+        }
+
+        .color-swatch {
+          width: 28px;
+          height: 28px;
+          padding: 0;
+          border: 2px solid var(--surface-3);
+          border-radius: 50%;
+          cursor: pointer;
+        }
+
+        .color-swatch.selected {
+          border-color: var(--text-1);
+          box-shadow: 0 0 0 2px var(--brand-400);
+        }
+
+        .color-swatch.no-tint {
+          background: var(--surface-1);
+          color: var(--text-2);
+          font-size: 14px;
+        }
+
+        .color-swatches input[type='color'] {
+          width: 32px;
+          height: 28px;
+          padding: 0;
+          border: none;
+          background: transparent;
+          cursor: pointer;
+        }
+
+        .sub-options select {
+          width: 100%;
+          padding: 6px 8px;
+          background: var(--surface-1);
+          border: 1px solid var(--surface-3);
+          border-radius: 6px;
+          color: var(--text-1);
+          font-size: 13px;
+        }
+
+        .bionic-preview {
+          padding: 8px;
+          background: var(--surface-1);
+          border-radius: 6px;
+          font-size: 13px;
+          color: var(--text-1);
+        }
+
         .help-text {
           padding: 12px;
           background: var(--surface-2);
@@ -374,25 +725,146 @@ export default function AccessibilityPanel({
             Quick Presets
           </div>
           <div className="preset-grid">
-            {presets.map((preset) => (
+            {[...BUILT_IN_PRESETS, ...userPresets].map((preset) => (
               <button
                 key={preset.id}
-                className={`preset-button ${
-                  fontSize === preset.settings.fontSize &&
-                  lineHeight === preset.settings.lineHeight &&
-                  showReadingGuide === preset.settings.showReadingGuide &&
-                  bionicReadingEnabled === preset.settings.bionicReadingEnabled
-                    ? 'active'
-                    : ''
-                }`}
-                onClick={() => applyPreset(preset)}
+                className={`preset-button ${isActive(preset) ? 'active' : ''}`}
+                onClick={() => onApplyPreset(preset)}
                 title={preset.description}
+                aria-pressed={isActive(preset)}
               >
                 <div className="preset-icon">{preset.icon}</div>
                 <div className="preset-name">{preset.name}</div>
               </button>
             ))}
           </div>
+
+          <div className="my-presets">
+            <div className="control-label">My presets</div>
+            {userPresets.map((preset) =>
+              editing?.id === preset.id ? (
+                <form
+                  key={preset.id}
+                  className="preset-row editing"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    saveEdit();
+                  }}
+                >
+                  <input
+                    type="text"
+                    value={editing.name}
+                    onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                    aria-label="Preset name"
+                  />
+                  <input
+                    type="text"
+                    value={editing.description}
+                    onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+                    placeholder="Description"
+                    aria-label="Preset description"
+                  />
+                  <div className="preset-actions">
+                    <button type="submit" className="preset-action" disabled={!editing.name.trim()}>
+                      Save
+                    </button>
+                    <button type="button" className="preset-action" onClick={() => setEditing(null)}>
+                      Cancel
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <div key={preset.id} className="preset-row">
+                  <span className="preset-row-name" title={preset.description}>
+                    {preset.icon} {preset.name}
+                  </span>
+                  <div className="preset-actions">
+                    <button
+                      className="preset-action"
+                      onClick={() => setEditing({ id: preset.id, name: preset.name, description: preset.description })}
+                      aria-label={`Rename ${preset.name}`}
+                      title="Rename"
+                    >
+                      ✏️
+                    </button>
+                    <button
+                      className="preset-action"
+                      onClick={() => updateFromCurrent(preset)}
+                      aria-label={`Update ${preset.name} with the current settings`}
+                      title="Update with the current settings"
+                    >
+                      🔄
+                    </button>
+                    <button
+                      className="preset-action"
+                      onClick={() => exportPreset(preset)}
+                      aria-label={`Export ${preset.name} as JSON`}
+                      title="Export as JSON"
+                    >
+                      📤
+                    </button>
+                    <button
+                      className="preset-action"
+                      onClick={() => shareLink(preset)}
+                      aria-label={`Copy a link to ${preset.name}`}
+                      title="Copy a link"
+                    >
+                      🔗
+                    </button>
+                    <button
+                      className="preset-action"
+                      onClick={() => deletePreset(preset)}
+                      aria-label={`Delete ${preset.name}`}
+                      title="Delete"
+                    >
+                      🗑️
+                    </button>
+                  </div>
+                </div>
+              )
+            )}
+
+            <form
+              className="preset-row"
+              onSubmit={(e) => {
+                e.preventDefault();
+                savePreset();
+              }}
+            >
+              <input
+                type="text"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                placeholder="Name for the current settings"
+                aria-label="Name for a new preset"
+              />
+              <div className="preset-actions">
+                <button type="submit" className="preset-action" disabled={!presetName.trim()}>
+                  💾 Save
+                </button>
+                <button
+                  type="button"
+                  className="preset-action"
+                  onClick={() => fileInputRef.current?.click()}
+                  title="Import a preset file"
+                >
+                  📥 Import
+                </button>
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                onChange={handleImport}
+                style={{ display: 'none' }}
+              />
+            </form>
+            {presetStatus && (
+              <p className={`preset-status ${presetStatus.error ? 'error' : ''}`} role="status">
+                {presetStatus.message}
+              </p>
+            )}
+          </div>
         </div>
 
         {/* Text Settings */}
@@ -431,6 +903,81 @@ export default function AccessibilityPanel({
               ))}
             </div>
           </div>
+
+          <div className="control-group">
+            <label className="control-label">Font</label>
+            <div className="button-group">
+              {READING_FONTS.map((font) => (
+                <button
+                  key={font.id}
+                  className={`button-option ${typography.font === font.id ? 'selected' : ''}`}
+                  onClick={() => updateTypography({ font: font.id })}
+                  style={font.family ? { fontFamily: font.family } : undefined}
+                >
+                  {font.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {([
+            ['letterSpacing', 'Letter spacing'],
+            ['wordSpacing', 'Word spacing'],
+            ['paragraphSpacing', 'Paragraph spacing'],
+          ] as const).map(([key, label]) => (
+            <div className="control-group" key={key}>
+              <label className="control-label" htmlFor={`typography-${key}`}>
+                {label}: {SPACING_LEVELS[typography[key]]}
+              </label>
+              <input
+                id={`typography-${key}`}
+                type="range"
+                min={0}
+                max={SPACING_LEVELS.length - 1}
+                value={typography[key]}
+                onChange={(e) => updateTypography({ [key]: Number(e.target.value) })}
+                aria-valuetext={SPACING_LEVELS[typography[key]]}
+                style={{ width: '100%' }}
+              />
+            </div>
+          ))}
+
+          <div className="control-group">
+            <label className="control-label" htmlFor="typography-line-length">
+              Line length: {typography.lineLength ? `at most ${typography.lineLength} characters` : 'No limit'}
+            </label>
+            <input
+              id="typography-line-length"
+              type="range"
+              min={0}
+              max={LINE_LENGTHS.length - 1}
+              value={lineLengthIndex}
+              onChange={(e) => updateTypography({ lineLength: LINE_LENGTHS[Number(e.target.value)] })}
+              aria-valuetext={typography.lineLength ? `${typography.lineLength} characters` : 'No limit'}
+              style={{ width: '100%' }}
+            />
+          </div>
+
+          <div className="control-group">
+            <label className="control-label">
+              Colored overlay: {TINTS.find((tint) => tint.id === typography.tint)?.name ?? 'None'}
+            </label>
+            <div className="color-swatches">
+              {TINTS.map((tint) => (
+                <button
+                  key={tint.id}
+                  className={`color-swatch ${tint.id === 'none' ? 'no-tint' : ''} ${typography.tint === tint.id ? 'selected' : ''}`}
+                  style={tint.id === 'none' ? undefined : { background: tint.color }}
+                  onClick={() => updateTypography({ tint: tint.id })}
+                  aria-label={`${tint.name} overlay`}
+                  aria-pressed={typography.tint === tint.id}
+                  title={tint.name}
+                >
+                  {tint.id === 'none' ? '⊘' : null}
+                </button>
+              ))}
+            </div>
+          </div>
         </div>
 
         {/* Reading Tools */}
@@ -443,7 +990,7 @@ export default function AccessibilityPanel({
           <div className="toggle-item">
             <div className="toggle-info">
               <div className="toggle-title">Reading Guide</div>
-              <div className="toggle-description">Highlight line follows your cursor</div>
+              <div className="toggle-description">Highlights the line you are reading and dims the rest</div>
             </div>
             <div
               className={`toggle-switch ${showReadingGuide ? 'active' : ''}`}
@@ -456,6 +1003,163 @@ export default function AccessibilityPanel({
             </div>
           </div>
 
+          {showReadingGuide && (
+            <div className="sub-options">
+              <div className="control-group">
+                <label className="control-label">Guide: {guideMode.description}</label>
+                <div className="button-group">
+                  {guideModes.map((mode) => (
+                    <button
+                      key={mode.id}
+                      className={`button-option ${readingGuide.mode === mode.id ? 'selected' : ''}`}
+                      onClick={() => updateGuide({ mode: mode.id })}
+                      title={mode.description}
+                    >
+                      {mode.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="control-group">
+                <label className="control-label">Color</label>
+                <div className="color-swatches">
+                  {GUIDE_COLORS.map((color) => (
+                    <button
+                      key={color}
+                      className={`color-swatch ${readingGuide.color.toLowerCase() === color.toLowerCase() ? 'selected' : ''}`}
+                      style={{ background: color }}
+                      onClick={() => updateGuide({ color })}
+                      aria-label={`Guide color ${color}`}
+                      aria-pressed={readingGuide.color.toLowerCase() === color.toLowerCase()}
+                    />
+                  ))}
+                  <input
+                    type="color"
+                    value={readingGuide.color}
+                    onChange={(e) => updateGuide({ color: e.target.value })}
+                    aria-label="Custom guide color"
+                    title="Custom color"
+                  />
+                </div>
+              </div>
+
+              <div className="control-group">
+                <label className="control-label" htmlFor="guide-height">
+                  Band height: {readingGuide.height}px
+                </label>
+                <input
+                  id="guide-height"
+                  type="range"
+                  min={GUIDE_HEIGHT_RANGE.min}
+                  max={GUIDE_HEIGHT_RANGE.max}
+                  step={GUIDE_HEIGHT_RANGE.step}
+                  value={readingGuide.height}
+                  onChange={(e) => updateGuide({ height: Number(e.target.value) })}
+                  style={{ width: '100%' }}
+                />
+              </div>
+
+              <div className="control-group">
+                <label className="control-label" htmlFor="guide-opacity">
+                  Opacity: {Math.round(readingGuide.opacity * 100)}%
+                </label>
+                <input
+                  id="guide-opacity"
+                  type="range"
+                  min={GUIDE_OPACITY_RANGE.min * 100}
+                  max={GUIDE_OPACITY_RANGE.max * 100}
+                  step={GUIDE_OPACITY_RANGE.step * 100}
+                  value={Math.round(readingGuide.opacity * 100)}
+                  onChange={(e) => updateGuide({ opacity: Number(e.target.value) / 100 })}
+                  style={{ width: '100%' }}
+                />
+              </div>
+
+              <div className="control-group">
+                <label className="control-label" htmlFor="guide-dimming">
+                  Dimming: {readingGuide.dimming ? `${Math.round(readingGuide.dimming * 100)}%` : 'Off'}
+                </label>
+                <input
+                  id="guide-dimming"
+                  type="range"
+                  min={GUIDE_DIMMING_RANGE.min * 100}
+                  max={GUIDE_DIMMING_RANGE.max * 100}
+                  step={GUIDE_DIMMING_RANGE.step * 100}
+                  value={Math.round(readingGuide.dimming * 100)}
+                  onChange={(e) => updateGuide({ dimming: Number(e.target.value) / 100 })}
+                  style={{ width: '100%' }}
+                />
+              </div>
+
+              {readingGuide.mode === 'cursor' && (
+                <div className="control-group">
+                  <label className="control-label" htmlFor="guide-auto-hide">
+                    Hide when the cursor stops
+                  </label>
+                  <select
+                    id="guide-auto-hide"
+                    value={readingGuide.autoHideDelay}
+                    onChange={(e) => updateGuide({ autoHideDelay: Number(e.target.value) })}
+                  >
+                    {GUIDE_AUTO_HIDE_DELAYS.map((delay) => (
+                      <option key={delay} value={delay}>
+                        {delay ? `After ${delay / 1000} second${delay === 1000 ? '' : 's'}` : 'Never'}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {readingGuide.mode === 'cursor' && (
+                <>
+                  <div className="toggle-item">
+                    <div className="toggle-info">
+                      <div className="toggle-title">Pacer</div>
+                      <div className="toggle-description">Moves down a line at your reading speed; rest the pointer on the line to wait</div>
+                    </div>
+                    <div
+                      className={`toggle-switch ${readingPacer.enabled ? 'active' : ''}`}
+                      onClick={() => setReadingPacer({ ...readingPacer, enabled: !readingPacer.enabled })}
+                      role="switch"
+                      aria-checked={readingPacer.enabled}
+                      aria-label="Pacer"
+                      tabIndex={0}
+                    >
+                      <div className="toggle-slider" />
+                    </div>
+                  </div>
+                  {readingPacer.enabled && (
+                    <div className="control-group">
+                      <label className="control-label" htmlFor="pacer-wpm">
+                        Pace: {readingPacer.wpm} words per minute
+                      </label>
+                      <input
+                        id="pacer-wpm"
+                        type="range"
+                        min={PACER_WPM_RANGE.min}
+                        max={PACER_WPM_RANGE.max}
+                        step={PACER_WPM_RANGE.step}
+                        value={readingPacer.wpm}
+                        onChange={(e) => setReadingPacer({ ...readingPacer, wpm: Number(e.target.value) })}
+                        style={{ width: '100%' }}
+                      />
+                    </div>
+                  )}
+                </>
+              )}
+
+              <div className="control-group">
+                <ReadingGuidePreview
+                  color={readingGuide.color}
+                  opacity={readingGuide.opacity}
+                  height={readingGuide.height}
+                  dimming={readingGuide.dimming}
+                />
+              </div>
+            </div>
+          )}
+
           <div className="toggle-item">
             <div className="toggle-info">
               <div className="toggle-title">Bionic Reading</div>
@@ -471,6 +1175,48 @@ export default function AccessibilityPanel({
               <div className="toggle-slider" />
             </div>
           </div>
+
+          {bionicReadingEnabled && (
+            <div className="sub-options">
+              <div className="control-group">
+                <label className="control-label">Fixation (how much of each word is bold)</label>
+                <div className="button-group">
+                  {FIXATION_LEVELS.map((level) => (
+                    <button
+                      key={level}
+                      className={`button-option ${bionicOptions.fixation === level ? 'selected' : ''}`}
+                      onClick={() => setBionicOptions({ ...bionicOptions, fixation: level })}
+                    >
+                      {level}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="control-group">
+                <label className="control-label">Saccade (which words are bold)</label>
+                <div className="button-group">
+                  {SACCADE_LEVELS.map((level) => (
+                    <button
+                      key={level}
+                      className={`button-option ${bionicOptions.saccade === level ? 'selected' : ''}`}
+                      onClick={() => setBionicOptions({ ...bionicOptions, saccade: level })}
+                      title={level === 1 ? 'Every word' : `Every ${level === 2 ? '2nd' : level === 3 ? '3rd' : `${level}th`} word`}
+                    >
+                      {level === 1 ? 'All' : `1 in ${level}`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="bionic-preview">
+                <BionicReader
+                  text="Élèves read “well-known” texts faster. Привет, мир! 日本語 stays as written."
+                  options={bionicOptions}
+                />
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Help Text */}
@@ -487,7 +1233,7 @@ export default function AccessibilityPanel({
             <strong>Keyboard Shortcuts:</strong><br />
             • Alt+S: Text to Speech<br />
             • Alt+P: Pause/Resume Speech<br />
-            • Arrow Keys: Move reading guide<br />
+            • ↑/↓: Move reading guide or ruler one line<br />
             • Space: Start/Stop timer
           </p>
         </div>
@@ -1,4 +1,5 @@
 import React, { useMemo } from 'react';
+import { BionicOptions, BionicSegment, bionicSegments } from '../lib/bionic';
 
 /**
  * BionicReader Component
@@ -8,101 +9,90 @@ import React, { useMemo } from 'react';
  * allowing the brain to process text faster while maintaining comprehension.
  *
  * Features:
- * - Automatically bolds first 30-50% of each word
- * - Preserves punctuation and spacing
- * - Adjustable boldness ratio
- * - Works with any text content
+ * - Automatically bolds the first part of each word
+ * - Works in any language: accented letters, non-Latin scripts, words in
+ *   quotes, hyphenated words and contractions (see lib/bionic)
+ * - Preserves punctuation and spacing; numbers and Chinese or Japanese
+ *   text are left as written
+ * - Adjustable fixation (how much is bolded) and saccade (every Nth word)
  */
 
 interface BionicReaderProps {
   text: string;
-  boldRatio?: number; // 0.3 to 0.6 recommended
+  options?: Partial<BionicOptions>;
   className?: string;
 }
 
-export default function BionicReader({ text, boldRatio = 0.4, className = '' }: BionicReaderProps) {
-  const bionicText = useMemo(() => {
-    // Split text into words while preserving spaces and punctuation
-    const words = text.match(/\S+|\s+/g) || [];
-
-    return words.map((word, index) => {
-      // Skip if it's just whitespace
-      if (/^\s+$/.test(word)) {
-        return <span key={index}>{word}</span>;
-      }
-
-      // Extract word and any trailing punctuation
-      const match = word.match(/^(\w+)(.*)$/);
-      if (!match) {
-        return <span key={index}>{word}</span>;
-      }
-
-      const [, cleanWord, punctuation] = match;
-
-      // Calculate how many characters to bold
-      let boldLength = Math.ceil(cleanWord.length * boldRatio);
-
-      // Adjust based on word length
-      if (cleanWord.length <= 3) {
-        boldLength = 1; // For short words, just bold first letter
-      } else if (cleanWord.length <= 5) {
-        boldLength = Math.min(2, boldLength); // For medium words, bold 1-2 letters
-      }
+/**
+ * Splits text into bionic word spans (bold start, lighter rest).  Used by
+ * BionicReader and by views that need to mix bionic text with other inline
+ * markup, such as read-along highlighting.  Needs `bionicStyles` on the page.
+ */
+export function renderBionicText(text: string, options: Partial<BionicOptions> = {}): React.ReactNode[] {
+  return renderBionicSegments(bionicSegments(text, options));
+}
 
-      const boldPart = cleanWord.slice(0, boldLength);
-      const restPart = cleanWord.slice(boldLength);
+/** Renders segments from bionicSegments(), e.g. one slice of a longer text. */
+export function renderBionicSegments(segments: BionicSegment[]): React.ReactNode[] {
+  return segments.map((segment, index) =>
+    segment.bold ? (
+      <span key={index} className="bionic-word">
+        <span className="bionic-bold">{segment.text.slice(0, segment.bold)}</span>
+        <span className="bionic-rest">{segment.text.slice(segment.bold)}</span>
+      </span>
+    ) : (
+      <span key={index}>{segment.text}</span>
+    )
+  );
+}
 
-      return (
-        <span key={index} className="bionic-word">
-          <span className="bionic-bold">{boldPart}</span>
-          <span className="bionic-rest">{restPart}</span>
-          {punctuation}
-        </span>
-      );
-    });
-  }, [text, boldRatio]);
+export const bionicStyles = `
+  .bionic-reader {
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif;
+    line-height: 1.8;
+    font-size: inherit;
+  }
+  
+  .bionic-word {
+    display: inline;
+  }
+  
+  .bionic-bold {
+    font-weight: 700;
+    color: var(--text-1, #000);
+  }
+  
+  .bionic-rest {
+    font-weight: 400;
+    opacity: 0.85;
+  }
+  
+  /* Accessibility: Reduce contrast in high contrast mode */
+  @media (prefers-contrast: high) {
+    .bionic-rest {
+      opacity: 1;
+    }
+  }
+  
+  /* Animation for smooth reading */
+  .bionic-word {
+    transition: background-color 0.2s ease;
+  }
+  
+  .bionic-word:hover {
+    background-color: var(--surface-2, rgba(0,0,0,0.05));
+    border-radius: 2px;
+    padding: 0 2px;
+  }
+`;
+
+export default function BionicReader({ text, options = {}, className = '' }: BionicReaderProps) {
+  const { fixation, saccade } = options;
+  const bionicText = useMemo(() => renderBionicText(text, { fixation, saccade }), [text, fixation, saccade]);
 
   return (
     <div className={`bionic-reader ${className}`}>
-      <style>{`
-        .bionic-reader {
-          font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif;
-          line-height: 1.8;
-          font-size: inherit;
-        }
-        
-        .bionic-word {
-          display: inline;
-        }
-        
-        .bionic-bold {
-          font-weight: 700;
-          color: var(--text-1, #000);
-        }
-        
-        .bionic-rest {
-          font-weight: 400;
-          opacity: 0.85;
-        }
-        
-        /* Accessibility: Reduce contrast in high contrast mode */
-        @media (prefers-contrast: high) {
-          .bionic-rest {
-            opacity: 1;
-          }
-        }
-        
-        /* Animation for smooth reading */
-        .bionic-word {
-          transition: background-color 0.2s ease;
-        }
-        
-        .bionic-word:hover {
-          background-color: var(--surface-2, rgba(0,0,0,0.05));
-          border-radius: 2px;
-          padding: 0 2px;
-        }
-      `}</style>
+      <style>{bionicStyles}</style>
       <div>{bionicText}</div>
     </div>
   );
@@ -204,28 +194,13 @@ export function BionicReaderToggle({ enabled, onToggle }: { enabled: boolean; on
  * Utility function to process any text with bionic reading formatting.
  * Can be used to apply bionic reading to dynamic content.
  */
-export function processBionicText(text: string, boldRatio = 0.4): string {
-  const words = text.split(/\s+/);
-
-  return words.map(word => {
-    // Remove punctuation for processing
-    const cleanWord = word.replace(/[^\w]/g, '');
-    const punctuation = word.replace(/[\w]/g, '');
-
-    if (cleanWord.length === 0) return word;
-
-    let boldLength = Math.ceil(cleanWord.length * boldRatio);
-
-    if (cleanWord.length <= 3) {
-      boldLength = 1;
-    } else if (cleanWord.length <= 5) {
-      boldLength = Math.min(2, boldLength);
-    }
-
-    const boldPart = cleanWord.slice(0, boldLength);
-    const restPart = cleanWord.slice(boldLength);
-
-    // Return HTML string with bold tags
-    return `<strong>${boldPart}</strong>${restPart}${punctuation}`;
-  }).join(' ');
-}
\ No newline at end of file
+export function processBionicText(text: string, options: Partial<BionicOptions> = {}): string {
+  const escape = (part: string) =>
+    part.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+  return bionicSegments(text, options)
+    .map(({ text: part, bold }) =>
+      bold ? `<strong>${escape(part.slice(0, bold))}</strong>${escape(part.slice(bold))}` : escape(part)
+    )
+    .join('');
+}
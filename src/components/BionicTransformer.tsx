@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import { BionicDom } from '../lib/bionicDom';
+import { BionicOptions } from '../lib/bionic';
+
+/**
+ * BionicTransformer Component
+ *
+ * Turns on Bionic Reading across the app while it is mounted.  Any part of
+ * the page marked with data-bionic (task titles, lesson text, quiz
+ * questions) is emphasised in place, and put back exactly as it was when
+ * Bionic Reading is turned off.
+ *
+ * Features:
+ * - Follows content as it changes, without getting in React's way
+ * - Leaves inputs, buttons and code alone
+ * - Screen readers hear whole words, not the emphasised pieces
+ * - Uses the fixation and saccade from the accessibility settings
+ */
+
+export default function BionicTransformer({ options }: { options: BionicOptions }) {
+  const [transformer] = useState(() => new BionicDom(options));
+  const { fixation, saccade } = options;
+
+  useEffect(() => {
+    transformer.start(document.body);
+    return () => transformer.stop();
+  }, [transformer]);
+
+  useEffect(() => {
+    transformer.setOptions({ fixation, saccade });
+  }, [transformer, fixation, saccade]);
+
+  return (
+    <style>{`
+      .bionic-copy .bionic-bold {
+        font-weight: 700;
+        color: var(--text-1);
+      }
+
+      .bionic-sr {
+        position: absolute;
+        width: 1px;
+        height: 1px;
+        overflow: hidden;
+        clip: rect(0 0 0 0);
+        clip-path: inset(50%);
+        white-space: nowrap;
+        user-select: none;
+      }
+    `}</style>
+  );
+}
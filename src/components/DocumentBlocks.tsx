@@ -0,0 +1,511 @@
+import React from 'react';
+import { bionicStyles, renderBionicSegments } from './BionicReader';
+import { BionicOptions, bionicSegments, sliceSegments } from '../lib/bionic';
+import { BlockPoint, comparePoints, DocumentBlock } from '../lib/blocks';
+import { Annotation, rangeInPiece } from '../lib/annotations';
+import { BreakSuggestion, Difficulty, ReadabilityFlag } from '../lib/readability';
+import { TextRange } from '../lib/speech';
+
+/**
+ * DocumentBlocks Component
+ *
+ * Renders a structured document (headings, paragraphs, lists, quotes, code
+ * and tables) for the reader.
+ *
+ * Features:
+ * - Bionic Reading applied block by block (code is left as written)
+ * - Read-along highlighting of the sentence and word being spoken
+ * - "Read from here" button on each block
+ * - Optional labels above blocks, e.g. PDF page numbers
+ * - Every block carries a data-block index so the outline can jump to it
+ * - Optional range to show just part of the document (one reading chunk)
+ * - Colour highlights drawn from text offsets, with a margin marker for notes
+ * - Marks a search match
+ * - Readability view: paragraphs tinted by difficulty, long sentences and
+ *   jargon underlined, and suggested places for a break
+ */
+
+/** The sentence (and word) being read aloud, as offsets into one piece of a block. */
+export interface ReadAlongHighlight {
+  block: number;
+  piece: number; // see blockPieces()
+  sentence: TextRange;
+  word?: TextRange | null;
+}
+
+interface DocumentBlocksProps {
+  blocks: DocumentBlock[];
+  bionic?: boolean;
+  bionicOptions?: Partial<BionicOptions>;
+  highlight?: ReadAlongHighlight | null;
+  onReadFrom?: (index: number) => void;
+  labels?: Record<number, string>;
+  range?: { start: BlockPoint; end: BlockPoint } | null; // show only this part, end offset exclusive
+  annotations?: Annotation[];
+  activeAnnotation?: string | null;
+  searchMatch?: { block: number; piece: number; range: TextRange } | null;
+  onAnnotationClick?: (id: string) => void;
+  difficulty?: Record<number, Difficulty>; // tint for each block
+  readabilityFlags?: ReadabilityFlag[];
+  breaks?: BreakSuggestion[];
+}
+
+const FLAG_TITLES: Record<ReadabilityFlag['kind'], string> = {
+  'long-sentence': 'Very long sentence: consider splitting it',
+  jargon: 'Long or technical word'
+};
+
+export default function DocumentBlocks({
+  blocks,
+  bionic = false,
+  bionicOptions,
+  highlight = null,
+  onReadFrom,
+  labels = {},
+  range = null,
+  annotations = [],
+  activeAnnotation = null,
+  searchMatch = null,
+  onAnnotationClick,
+  difficulty = {},
+  readabilityFlags = [],
+  breaks = []
+}: DocumentBlocksProps) {
+
+  // Notes are flagged in the margin of the block where their highlight ends
+  const notesByBlock: Record<number, Annotation[]> = {};
+  for (const annotation of annotations) {
+    if (annotation.note?.trim()) (notesByBlock[annotation.end.block] ??= []).push(annotation);
+  }
+
+  const breakAfter = new Map(breaks.map(suggestion => [suggestion.after, suggestion]));
+
+  // Whether a block, or one piece of it, falls inside the range being shown
+  const isVisible = (block: number, piece?: number) => {
+    if (!range) return true;
+    if (piece === undefined) return block >= range.start.block && block <= range.end.block;
+    const point = { block, piece, offset: 0 };
+    return (
+      comparePoints(point, { ...range.start, offset: 0 }) >= 0 && comparePoints(point, { ...range.end, offset: 0 }) <= 0
+    );
+  };
+
+  // The part of a piece of text inside the range being shown
+  const visiblePart = (text: string, blockIndex: number, piece: number): TextRange => ({
+    start: range && range.start.block === blockIndex && range.start.piece === piece ? range.start.offset : 0,
+    end: range && range.end.block === blockIndex && range.end.piece === piece ? range.end.offset : text.length
+  });
+
+  // Marks an element as holding one piece of text, so selections can be
+  // mapped back to offsets (see selectionToPoints)
+  const pieceProps = (text: string, blockIndex: number, piece: number) => ({
+    'data-piece': piece,
+    'data-offset': visiblePart(text, blockIndex, piece).start
+  });
+
+  // Renders one piece of text with its highlights and the sentence and word
+  // being spoken.  Code passes plain = true to keep its exact text.
+  const renderText = (text: string, blockIndex: number, piece: number, plain = false) => {
+    // Bionic emphasis is worked out for the whole piece, then cut up with it
+    const segments = bionic && !plain ? bionicSegments(text, bionicOptions) : null;
+    const show = (start: number, end: number) =>
+      segments ? renderBionicSegments(sliceSegments(segments, start, end)) : text.slice(start, end);
+    const { start: from, end: to } = visiblePart(text, blockIndex, piece);
+    const speaking = highlight?.block === blockIndex && highlight.piece === piece ? highlight : null;
+    const marked = annotations.flatMap(annotation => {
+      const part = rangeInPiece(annotation.start, annotation.end, blockIndex, piece, text.length);
+      return part ? [{ ...part, annotation }] : [];
+    });
+    const found = searchMatch?.block === blockIndex && searchMatch.piece === piece ? searchMatch.range : null;
+    const flags = readabilityFlags.filter(flag => flag.block === blockIndex && flag.piece === piece);
+    if (!speaking && !marked.length && !found && !flags.length) return show(from, to);
+
+    const sentence = speaking?.sentence;
+    const word = speaking?.word && sentence && speaking.word.start >= sentence.start && speaking.word.end <= sentence.end
+      ? speaking.word
+      : null;
+
+    // Cut the text wherever a mark starts or ends, then wrap each run in the
+    // marks that cover it
+    const edges = [
+      from,
+      to,
+      ...[sentence, word, found, ...marked, ...flags.map(flag => flag.range)].flatMap(mark => (mark ? [mark.start, mark.end] : []))
+    ];
+    const cuts = [...new Set(edges.filter(edge => edge >= from && edge <= to))].sort((a, b) => a - b);
+    const covers = (mark: TextRange | null | undefined, at: number) => !!mark && mark.start <= at && at < mark.end;
+
+    return cuts.slice(0, -1).map((start, index) => {
+      let node: React.ReactNode = show(start, cuts[index + 1]);
+      if (covers(word, start)) node = <mark className="speech-word">{node}</mark>;
+      if (covers(sentence, start)) node = <mark className="speech-sentence">{node}</mark>;
+      for (const flag of flags) {
+        if (covers(flag.range, start)) {
+          node = <span className={`readability-${flag.kind}`} title={FLAG_TITLES[flag.kind]}>{node}</span>;
+        }
+      }
+      if (covers(found, start)) node = <mark className="search-match">{node}</mark>;
+      const annotation = marked.filter(mark => covers(mark, start)).pop()?.annotation;
+      if (annotation) {
+        node = (
+          <mark
+            className={`doc-highlight highlight-${annotation.color} ${annotation.id === activeAnnotation ? 'active' : ''}`}
+            data-annotation={annotation.id}
+            title={annotation.note || undefined}
+            onClick={onAnnotationClick && (() => onAnnotationClick(annotation.id))}
+          >
+            {node}
+          </mark>
+        );
+      }
+      return <React.Fragment key={start}>{node}</React.Fragment>;
+    });
+  };
+
+  const renderBlock = (block: DocumentBlock, blockIndex: number) => {
+    switch (block.kind) {
+      case 'heading': {
+        const Tag = `h${Math.min(block.level + 1, 6)}` as 'h2';
+        return (
+          <Tag className="doc-heading" {...pieceProps(block.text, blockIndex, 0)}>
+            {renderText(block.text, blockIndex, 0)}
+          </Tag>
+        );
+      }
+      case 'list':
+        return (
+          <div className="doc-list" role="list">
+            {block.items.map((item, index) => isVisible(blockIndex, index) && (
+              <div
+                key={index}
+                className="doc-list-item"
+                role="listitem"
+                style={{ paddingLeft: `${item.depth * 24}px` }}
+              >
+                <span className="doc-list-marker">{item.marker}</span>
+                <div {...pieceProps(item.text, blockIndex, index)}>{renderText(item.text, blockIndex, index)}</div>
+              </div>
+            ))}
+          </div>
+        );
+      case 'quote':
+        return (
+          <blockquote className="doc-quote" {...pieceProps(block.text, blockIndex, 0)}>
+            {renderText(block.text, blockIndex, 0)}
+          </blockquote>
+        );
+      case 'code':
+        return (
+          <pre className="doc-code" data-language={block.language}>
+            <code {...pieceProps(block.text, blockIndex, 0)}>{renderText(block.text, blockIndex, 0, true)}</code>
+          </pre>
+        );
+      case 'table': {
+        let piece = 0;
+        return (
+          <div className="doc-table-wrap">
+            <table className="doc-table">
+              <tbody>
+                {block.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((cell, cellIndex) => {
+                      const cellPiece = piece++;
+                      return (
+                        <td key={cellIndex} {...pieceProps(cell, blockIndex, cellPiece)}>
+                          {renderText(cell, blockIndex, cellPiece)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      }
+      default:
+        return (
+          <div className="doc-paragraph" {...pieceProps(block.text, blockIndex, 0)}>
+            {renderText(block.text, blockIndex, 0)}
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="doc-blocks">
+      {bionic && <style>{bionicStyles}</style>}
+      <style>{`
+        .doc-blocks {
+          white-space: normal;
+        }
+
+        .speech-sentence {
+          background: var(--surface-3);
+          color: inherit;
+          border-radius: 3px;
+          padding: 1px 0;
+        }
+
+        .speech-word {
+          background: var(--brand-400);
+          color: white;
+          border-radius: 3px;
+        }
+
+        .speech-word .bionic-bold {
+          color: inherit;
+        }
+
+        .doc-block {
+          position: relative;
+          margin-bottom: 16px;
+          padding: 2px 32px 2px 8px;
+          border-left: 3px solid transparent;
+          border-radius: 4px;
+          transition: background-color 0.2s, border-color 0.2s;
+        }
+
+        .doc-block.difficulty-easy {
+          background: rgba(74, 222, 128, 0.12);
+        }
+
+        .doc-block.difficulty-moderate {
+          background: rgba(250, 204, 21, 0.12);
+        }
+
+        .doc-block.difficulty-hard {
+          background: rgba(251, 146, 60, 0.16);
+        }
+
+        .doc-block.difficulty-very-hard {
+          background: rgba(248, 113, 113, 0.2);
+        }
+
+        .doc-block.speaking {
+          background: var(--surface-1);
+          border-left-color: var(--brand-400);
+        }
+
+        .doc-block-label {
+          font-size: 12px;
+          color: var(--text-2);
+          margin: 24px 0 8px;
+          padding-top: 16px;
+          border-top: 1px dashed var(--surface-3);
+        }
+
+        .doc-block-label:first-child {
+          margin-top: 0;
+          padding-top: 0;
+          border-top: none;
+        }
+
+        .doc-read-from {
+          position: absolute;
+          top: 2px;
+          right: 4px;
+          padding: 2px 6px;
+          background: none;
+          border: none;
+          border-radius: 4px;
+          cursor: pointer;
+          font-size: 13px;
+          opacity: 0;
+          transition: opacity 0.2s;
+        }
+
+        .doc-block:hover .doc-read-from,
+        .doc-read-from:focus {
+          opacity: 0.8;
+        }
+
+        .doc-read-from:hover {
+          background: var(--surface-3);
+        }
+
+        .search-match {
+          background: var(--warn-500);
+          color: inherit;
+          border-radius: 2px;
+          box-shadow: 0 0 0 2px var(--warn-500);
+        }
+
+        .doc-highlight {
+          color: inherit;
+          border-radius: 2px;
+          cursor: pointer;
+        }
+
+        .highlight-yellow {
+          background: rgba(250, 204, 21, 0.4);
+        }
+
+        .highlight-green {
+          background: rgba(74, 222, 128, 0.35);
+        }
+
+        .highlight-blue {
+          background: rgba(96, 165, 250, 0.35);
+        }
+
+        .highlight-pink {
+          background: rgba(244, 114, 182, 0.35);
+        }
+
+        .doc-highlight.active {
+          outline: 2px solid var(--brand-400);
+        }
+
+        .doc-notes {
+          position: absolute;
+          top: 28px;
+          right: 4px;
+          display: flex;
+          flex-direction: column;
+        }
+
+        .doc-note-marker {
+          padding: 2px 6px;
+          background: none;
+          border: none;
+          border-radius: 4px;
+          cursor: pointer;
+          font-size: 13px;
+        }
+
+        .doc-note-marker:hover {
+          background: var(--surface-3);
+        }
+
+        .readability-long-sentence {
+          text-decoration: underline wavy var(--warn-500);
+          text-decoration-thickness: 1px;
+          text-underline-offset: 4px;
+        }
+
+        .readability-jargon {
+          border-bottom: 2px dotted var(--bad-500);
+        }
+
+        .doc-break {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          margin: -4px 0 16px;
+          font-size: 12px;
+          color: var(--text-2);
+        }
+
+        .doc-break::before,
+        .doc-break::after {
+          content: '';
+          flex: 1;
+          border-top: 1px dashed var(--surface-3);
+        }
+
+        .doc-heading {
+          margin: 8px 0 0;
+          line-height: 1.3;
+          color: var(--text-1);
+        }
+
+        .doc-paragraph {
+          white-space: pre-wrap;
+        }
+
+        .doc-list-item {
+          display: flex;
+          gap: 8px;
+        }
+
+        .doc-list-marker {
+          flex-shrink: 0;
+          min-width: 1.2em;
+          color: var(--text-2);
+        }
+
+        .doc-quote {
+          margin: 0;
+          padding-left: 16px;
+          border-left: 3px solid var(--surface-3);
+          color: var(--text-2);
+          font-style: italic;
+          white-space: pre-wrap;
+        }
+
+        .doc-code {
+          margin: 0;
+          padding: 12px;
+          background: var(--surface-1);
+          border: 1px solid var(--surface-3);
+          border-radius: 6px;
+          overflow-x: auto;
+          font-size: 14px;
+          line-height: 1.5;
+        }
+
+        .doc-table-wrap {
+          overflow-x: auto;
+        }
+
+        .doc-table {
+          border-collapse: collapse;
+          font-size: 14px;
+        }
+
+        .doc-table td {
+          padding: 6px 10px;
+          border: 1px solid var(--surface-3);
+          vertical-align: top;
+        }
+
+        .doc-table tr:first-child td {
+          font-weight: 600;
+        }
+      `}</style>
+
+      {blocks.map((block, index) => isVisible(index) && (
+        <React.Fragment key={index}>
+          {labels[index] && isVisible(index, 0) && <div className="doc-block-label">{labels[index]}</div>}
+          <div
+            className={`doc-block ${highlight?.block === index ? 'speaking' : ''} ${difficulty[index] ? `difficulty-${difficulty[index]}` : ''}`}
+            data-block={index}
+          >
+            {renderBlock(block, index)}
+            {onReadFrom && (
+              <button
+                className="doc-read-from"
+                onClick={() => onReadFrom(index)}
+                title="Read aloud from here"
+                aria-label="Read aloud from here"
+              >
+                🔊
+              </button>
+            )}
+            {notesByBlock[index] && (
+              <div className="doc-notes">
+                {notesByBlock[index].map(annotation => (
+                  <button
+                    key={annotation.id}
+                    className="doc-note-marker"
+                    onClick={() => onAnnotationClick?.(annotation.id)}
+                    title={annotation.note}
+                    aria-label={`Note: ${annotation.note}`}
+                  >
+                    📝
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          {breakAfter.has(index) && isVisible(index + 1) && (
+            <div className="doc-break" role="note">
+              ☕ Good place for a break, about {breakAfter.get(index)!.minutes} min since the last one
+            </div>
+          )}
+        </React.Fragment>
+      ))}
+    </div>
+  );
+}
@@ -1,70 +1,297 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import BionicReader from './BionicReader';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import DocumentBlocks, { ReadAlongHighlight } from './DocumentBlocks';
+import RecallPractice from './RecallPractice';
+import RsvpReader from './RsvpReader';
+import GlossaryLookup, { LookupRequest } from './GlossaryLookup';
+import GlossaryPanel from './GlossaryPanel';
+import { useSpeech } from './SpeechContext';
+import VoiceSettings from './VoiceSettings';
+import PronunciationEditor from './PronunciationEditor';
+import { extractPdfText, PdfError } from '../lib/pdf';
+import { extractDocxText } from '../lib/docx';
+import { extractEpub } from '../lib/epub';
+import { blockPieces, BlockPoint, blocksToText, comparePoints, countWords, DocumentBlock } from '../lib/blocks';
+import {
+  Annotation,
+  annotationsToMarkdown,
+  createAnnotationId,
+  HIGHLIGHT_COLORS,
+  HighlightColor,
+  selectionToPoints,
+  snapToWords,
+  sortAnnotations,
+  textBetween
+} from '../lib/annotations';
+import { BionicOptions } from '../lib/bionic';
+import { buildChunks, CHUNK_SIZES, ChunkProgress, chunkProgressKey, findChunk } from '../lib/chunks';
+import {
+  addSpeedSample,
+  CALIBRATION_SAMPLES,
+  documentWordsLeft,
+  loadSpeedProfile,
+  minutesToRead,
+  personalWpm,
+  ReadingTimer,
+  saveSpeedProfile,
+  speedTrend
+} from '../lib/readingSpeed';
+import { analyseReadability, easeLabel, gradeLabel, suggestBreaks } from '../lib/readability';
+import { generateRecallItems, RecallItem, RecallProgress } from '../lib/recall';
+import { SearchHit, SearchIndex } from '../lib/search';
+import { buildSpeechQueue, findSegment, queueBreaks, SpeechSegment, TextRange } from '../lib/speech';
+import { markdownToBlocks } from '../lib/markdown';
+import { parseHtmlDocument } from '../lib/html';
+import {
+  createDocumentId,
+  documentSize,
+  DocumentSection,
+  ExtractedDocument,
+  formatBytes,
+  getStorageUsage,
+  isQuotaError,
+  loadDocuments,
+  loadFile,
+  readingBlocks,
+  removeDocument,
+  removeFile,
+  requestPersistentStorage,
+  saveDocument,
+  saveFile,
+  StorageUsage
+} from '../lib/library';
 
 /**
  * DocumentReader Component (Enhanced)
  *
  * Enhanced reading component with:
  * - Document deletion support
- * - Voice selection for text-to-speech
+ * - Voice profiles for text-to-speech, shared with the rest of the app
+ * - Per-document pronunciations (e.g. a course's own terms), used before
+ *   the user's
  * - Multiple file upload support
  * - Reading progress tracking
+ * - In-browser PDF text extraction that keeps page and paragraph breaks
+ * - Word (.docx) import with headings, lists and tables kept as text
+ * - EPUB import with chapter navigation and per-chapter progress
+ * - Markdown, HTML and rich clipboard content keep headings, lists, quotes and code
+ * - Collapsible outline sidebar that jumps to each heading
+ * - Read aloud sentence by sentence with the current sentence and word
+ *   highlighted, skip by sentence, "read from here", pauses at paragraphs
+ *   and headings, and a per-document resume point
+ * - Library saved in the browser (IndexedDB) with the original files,
+ *   a storage usage indicator and clean-up controls
+ * - Chunked reading: one short chunk (a paragraph or about N words) at a
+ *   time, with a counter and per-chunk completion driving the progress bar
+ * - Colour highlights and notes on selected text, listed in a side panel
+ *   and exportable as Markdown
+ * - Full-text search across the library with ranked snippets; opening a
+ *   result jumps to the match and highlights it
+ * - Practice questions (fill-in-the-blank and multiple choice) generated
+ *   from the open document or chapter, scored like the quiz mode
+ * - Reading time estimates at the reader's own pace, measured from time
+ *   spent per chunk or per stretch of text scrolled past, with the trend
+ * - Readability analysis: reading scores per paragraph, a difficulty
+ *   heatmap, long sentences and jargon underlined and suggested breaks
+ * - Word-by-word (RSVP) reading from the current position, returning to
+ *   the full text where it stopped
+ * - Tap or hover a word (or select a phrase) for its definition from
+ *   imported dictionary packs or the user's saved course glossary
  */
 
-interface ExtractedDocument {
-  title: string;
-  content: string;
-  type: 'pdf' | 'text' | 'clipboard';
-  timestamp: number;
+// Remembers which document was open so it can be reopened after a reload
+const ACTIVE_DOCUMENT_KEY = 'reader.activeDocument';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The reader's readings in the shared speech service
+const SPEECH_OWNER = 'document';
+
+// Chunked reading preferences, shared by every document
+const CHUNK_MODE_KEY = 'reader.chunkMode';
+const CHUNK_SIZE_KEY = 'reader.chunkSize';
+const READABILITY_KEY = 'reader.readability';
+
+interface ReadabilityOptions {
+  tint: boolean; // colour paragraphs by difficulty
+  marks: boolean; // underline long sentences and jargon
+  breaks: boolean;
+  sessionMinutes: number; // reading time between suggested breaks
+}
+
+const DEFAULT_READABILITY: ReadabilityOptions = { tint: false, marks: false, breaks: false, sessionMinutes: 15 };
+const SESSION_LENGTHS = [10, 15, 20, 25];
+const DEFAULT_CHUNK_SIZE = 120;
+
+// Scrolling past this many words counts as one reading speed sample
+const SCROLL_SAMPLE_WORDS = 150;
+
+// Reading speed chart size
+const TREND_WIDTH = 280;
+const TREND_HEIGHT = 64;
+
+interface DocumentReaderProps {
+  bionic?: boolean; // the app-wide Bionic Reading setting; the reader's own toggle follows it
+  bionicOptions?: BionicOptions; // fixation and saccade, from the accessibility settings
 }
 
-export default function DocumentReader() {
+export default function DocumentReader({ bionic = false, bionicOptions }: DocumentReaderProps) {
   const [documents, setDocuments] = useState<ExtractedDocument[]>([]);
   const [activeDocument, setActiveDocument] = useState<ExtractedDocument | null>(null);
   const [isExtracting, setIsExtracting] = useState(false);
   const [dragActive, setDragActive] = useState(false);
-  const [bionicEnabled, setBionicEnabled] = useState(false);
+  const [bionicEnabled, setBionicEnabled] = useState(bionic);
   const [readingProgress, setReadingProgress] = useState(0);
-  const [isSpeaking, setIsSpeaking] = useState(false);
-  const [isPaused, setIsPaused] = useState(false);
+  const speech = useSpeech();
+  const isSpeaking = speech.state.owner === SPEECH_OWNER && speech.state.status !== 'idle';
+  const [speakingSegment, setSpeakingSegment] = useState<number | null>(null);
+  const [spokenWord, setSpokenWord] = useState<TextRange | null>(null);
+  const [showOutline, setShowOutline] = useState(true);
+
+  // Chunked reading
+  const [chunkMode, setChunkMode] = useState(() => localStorage.getItem(CHUNK_MODE_KEY) === 'true');
+  const [chunkSize, setChunkSize] = useState(() => {
+    const saved = Number(localStorage.getItem(CHUNK_SIZE_KEY) ?? DEFAULT_CHUNK_SIZE);
+    return CHUNK_SIZES.includes(saved) ? saved : DEFAULT_CHUNK_SIZE;
+  });
+
+  // Highlights and notes
+  const [showNotes, setShowNotes] = useState(false);
+  const [activeAnnotation, setActiveAnnotation] = useState<string | null>(null);
+  const [selectionDraft, setSelectionDraft] = useState<{
+    start: BlockPoint;
+    end: BlockPoint;
+    top: number;
+    left: number;
+  } | null>(null);
+  const [pendingJump, setPendingJump] = useState<number | null>(null);
+
+  // Library search
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchMatch, setSearchMatch] = useState<{ block: number; piece: number; range: TextRange } | null>(null);
+  const [indexVersion, setIndexVersion] = useState(0);
+
+  // Recall practice
+  const [showPractice, setShowPractice] = useState(false);
+
+  // Glossary
+  const [showGlossary, setShowGlossary] = useState(false);
+  const [glossaryRequest, setGlossaryRequest] = useState<LookupRequest | null>(null);
+
+  // Word-by-word (RSVP) reading, from where the full text was left
+  const [rsvpStart, setRsvpStart] = useState<BlockPoint | null>(null);
+  const rsvpPositionRef = useRef<BlockPoint | null>(null);
+
+  // Readability
+  const [showReadability, setShowReadability] = useState(false);
+  const [readabilityOptions, setReadabilityOptions] = useState<ReadabilityOptions>(() => {
+    try {
+      return { ...DEFAULT_READABILITY, ...JSON.parse(localStorage.getItem(READABILITY_KEY) ?? '{}') };
+    } catch {
+      return DEFAULT_READABILITY;
+    }
+  });
+
+  // Reading speed
+  const [speedProfile, setSpeedProfile] = useState(loadSpeedProfile);
+  const [showSpeedTrend, setShowSpeedTrend] = useState(false);
+  const [viewProgress, setViewProgress] = useState(0); // 0-100, scroll position in the open text
+  const speedTimerRef = useRef(new ReadingTimer());
+  const scrollAnchorRef = useRef<number | null>(null); // scroll position (0-1) when the timer started
+
+  // Library storage
+  const [libraryReady, setLibraryReady] = useState(false);
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+  const [storageFull, setStorageFull] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
 
   // Voice settings
-  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
-  const [selectedVoice, setSelectedVoice] = useState<string>('');
-  const [speechRate, setSpeechRate] = useState(1.0);
-  const [speechPitch, setSpeechPitch] = useState(1.0);
   const [showVoiceSettings, setShowVoiceSettings] = useState(false);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textAreaRef = useRef<HTMLTextAreaElement>(null);
-  const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  // In chunked reading the progress bar shows chunks read, not speech position
+  const chunkModeRef = useRef(chunkMode);
+  chunkModeRef.current = chunkMode;
+  // Documents as last written to the library, for spotting what changed
+  const savedDocumentsRef = useRef<Map<string, ExtractedDocument>>(new Map());
+  const searchIndexRef = useRef(new SearchIndex());
 
-  // Load available voices
+  const refreshStorageUsage = useCallback(() => {
+    getStorageUsage().then(setStorageUsage).catch(() => setStorageUsage(null));
+  }, []);
+
+  // Turning Bionic Reading on or off for the whole app does so here too
   useEffect(() => {
-    const loadVoices = () => {
-      const availableVoices = window.speechSynthesis.getVoices();
-      setVoices(availableVoices);
-
-      // Set default voice
-      if (availableVoices.length > 0 && !selectedVoice) {
-        // Try to find a voice in user's language
-        const userLang = navigator.language;
-        const matchingVoice = availableVoices.find(v => v.lang.startsWith(userLang.substring(0, 2)));
-        setSelectedVoice(matchingVoice?.name || availableVoices[0].name);
-      }
+    setBionicEnabled(bionic);
+  }, [bionic]);
+
+  // Load the saved library, reopening the document that was open last time
+  useEffect(() => {
+    let cancelled = false;
+    loadDocuments()
+      .then(saved => {
+        if (cancelled) return;
+        savedDocumentsRef.current = new Map(saved.map(doc => [doc.id, doc]));
+        // Keep anything added while the library was loading
+        setDocuments(prev => [...prev, ...saved.filter(doc => !prev.some(p => p.id === doc.id))]);
+        const lastId = localStorage.getItem(ACTIVE_DOCUMENT_KEY);
+        const last = saved.find(doc => doc.id === lastId);
+        if (last) setActiveDocument(prev => prev ?? last);
+      })
+      .catch(error => {
+        console.error('Error loading document library:', error);
+        setLibraryError('Documents cannot be saved in this browser, so they will be lost when you leave the page.');
+      })
+      .finally(() => {
+        if (cancelled) return;
+        setLibraryReady(true);
+        refreshStorageUsage();
+      });
+    return () => {
+      cancelled = true;
     };
+  }, [refreshStorageUsage]);
 
-    loadVoices();
+  // Write changed documents to the library (debounced, as scrolling updates progress)
+  useEffect(() => {
+    if (!libraryReady || libraryError) return;
+    const timer = setTimeout(async () => {
+      const saved = savedDocumentsRef.current;
+      const current = new Map(documents.map(doc => [doc.id, doc]));
+      savedDocumentsRef.current = current;
+      try {
+        for (const id of saved.keys()) {
+          if (!current.has(id)) await removeDocument(id);
+        }
+        for (const doc of documents) {
+          if (saved.get(doc.id) !== doc) await saveDocument(doc);
+        }
+      } catch (error) {
+        console.error('Error saving document library:', error);
+        savedDocumentsRef.current = saved; // retry on the next change
+        if (isQuotaError(error)) setStorageFull(true);
+      }
+      refreshStorageUsage();
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [documents, libraryReady, libraryError, refreshStorageUsage]);
 
-    // Chrome loads voices asynchronously
-    if (window.speechSynthesis.onvoiceschanged !== undefined) {
-      window.speechSynthesis.onvoiceschanged = loadVoices;
+  useEffect(() => {
+    if (!libraryReady) return;
+    if (activeDocument) {
+      localStorage.setItem(ACTIVE_DOCUMENT_KEY, activeDocument.id);
+    } else {
+      localStorage.removeItem(ACTIVE_DOCUMENT_KEY);
     }
+  }, [activeDocument?.id, libraryReady]);
 
-    return () => {
-      window.speechSynthesis.cancel();
-    };
-  }, [selectedVoice]);
+  // Stop reading aloud when the reader closes
+  const stopSpeechRef = useRef(speech.stop);
+  stopSpeechRef.current = speech.stop;
+  useEffect(() => {
+    return () => stopSpeechRef.current(SPEECH_OWNER);
+  }, []);
 
   // Handle drag events
   const handleDrag = (e: React.DragEvent) => {
@@ -88,53 +315,56 @@ export default function DocumentReader() {
     }
   };
 
-  // Extract text from PDF
-  const extractPDFText = async (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
+  // Add a new document to the library and open it
+  const addDocument = (doc: Omit<ExtractedDocument, 'id' | 'timestamp'>) => {
+    const now = Date.now();
+    const newDoc: ExtractedDocument = { ...doc, id: createDocumentId(), timestamp: now, lastOpened: now };
+    setDocuments(prev => [newDoc, ...prev]);
+    setActiveDocument(newDoc);
+    return newDoc;
+  };
 
-      reader.onload = async (e) => {
-        try {
-          const typedArray = new Uint8Array(e.target?.result as ArrayBuffer);
-          const decoder = new TextDecoder('utf-8');
-          let text = decoder.decode(typedArray);
-
-          // Extract text between stream markers (simplified)
-          const textMatches = text.match(/stream\s*([\s\S]*?)\s*endstream/g) || [];
-          let extractedText = '';
-
-          textMatches.forEach(match => {
-            const cleaned = match
-              .replace(/stream|endstream/g, '')
-              .replace(/[\x00-\x1F\x7F-\x9F]/g, ' ')
-              .replace(/\s+/g, ' ')
-              .trim();
-
-            if (cleaned.length > 20) {
-              extractedText += cleaned + '\n\n';
-            }
-          });
-
-          // If no text found in streams, try to find text patterns
-          if (!extractedText) {
-            const textPatterns = text.match(/\((.*?)\)/g) || [];
-            textPatterns.forEach(pattern => {
-              const cleaned = pattern.slice(1, -1).trim();
-              if (cleaned.length > 10 && /[a-zA-Z]/.test(cleaned)) {
-                extractedText += cleaned + ' ';
-              }
-            });
-          }
+  // Keep the uploaded file itself, making room by dropping the originals of
+  // the least recently opened documents if storage is full
+  const storeOriginalFile = async (id: string, file: File): Promise<boolean> => {
+    if (libraryError) return false;
+    const evictable = documents
+      .filter(doc => doc.file && doc.id !== id)
+      .sort((a, b) => (a.lastOpened ?? a.timestamp) - (b.lastOpened ?? b.timestamp));
 
-          resolve(extractedText || 'Unable to extract text from this PDF. Please try a different file or use a PDF with selectable text.');
-        } catch (error) {
-          reject(error);
+    for (;;) {
+      try {
+        await saveFile(id, file);
+        requestPersistentStorage().catch(() => false);
+        return true;
+      } catch (error) {
+        const oldest = evictable.shift();
+        if (!isQuotaError(error) || !oldest) {
+          console.error('Error saving original file:', error);
+          return false;
         }
-      };
+        await removeFile(oldest.id);
+        updateDocument(oldest.id, doc => ({ ...doc, file: undefined }));
+      }
+    }
+  };
 
-      reader.onerror = reject;
-      reader.readAsArrayBuffer(file);
-    });
+  // Extract text from PDF, keeping each page separately
+  const extractPDFText = async (file: File): Promise<{ content: string; pages?: string[] }> => {
+    try {
+      const { pages } = await extractPdfText(new Uint8Array(await file.arrayBuffer()));
+      if (!pages.some(page => page.trim())) {
+        return {
+          content: 'No selectable text was found in this PDF. It may be a scanned document - please try a PDF with selectable text.'
+        };
+      }
+      return { content: pages.filter(page => page.trim()).join('\n\n'), pages };
+    } catch (error) {
+      if (error instanceof PdfError) {
+        return { content: error.message };
+      }
+      throw error;
+    }
   };
 
   // Handle file upload
@@ -142,29 +372,63 @@ export default function DocumentReader() {
     setIsExtracting(true);
 
     try {
+      let title = file.name;
       let content = '';
-      let type: 'pdf' | 'text' = 'text';
+      let pages: string[] | undefined;
+      let sections: DocumentSection[] | undefined;
+      let blocks: DocumentBlock[] | undefined;
+      let type: ExtractedDocument['type'] = 'text';
+      const name = file.name.toLowerCase();
 
-      if (file.type === 'application/pdf') {
+      if (file.type === 'application/pdf' || name.endsWith('.pdf')) {
         type = 'pdf';
-        content = await extractPDFText(file);
-      } else if (file.type.startsWith('text/') || file.name.endsWith('.txt')) {
+        ({ content, pages } = await extractPDFText(file));
+      } else if (file.type === 'text/markdown' || /\.(md|markdown)$/.test(name)) {
+        type = 'markdown';
+        blocks = markdownToBlocks(await file.text());
+        content = blocksToText(blocks) || 'No text was found in this Markdown file.';
+      } else if (file.type === 'text/html' || /\.html?$/.test(name)) {
+        type = 'html';
+        const page = parseHtmlDocument(await file.text());
+        title = page.title || file.name;
+        blocks = page.blocks;
+        content = blocksToText(blocks) || 'No readable text was found in this page.';
+      } else if (file.type.startsWith('text/') || name.endsWith('.txt')) {
         content = await file.text();
-      } else if (file.name.endsWith('.doc') || file.name.endsWith('.docx')) {
-        content = 'Word document support coming soon. Please convert to PDF or TXT format.';
+      } else if (name.endsWith('.docx')) {
+        type = 'docx';
+        const result = await extractDocxText(new Uint8Array(await file.arrayBuffer()));
+        blocks = result.blocks;
+        content = result.text || 'No text was found in this Word document.';
+      } else if (name.endsWith('.epub')) {
+        type = 'epub';
+        const book = await extractEpub(new Uint8Array(await file.arrayBuffer()));
+        title = book.title || file.name;
+        sections = book.chapters;
+        content = sections.map(section => section.content).join('\n\n') ||
+          'No readable chapters were found in this book.';
+      } else if (name.endsWith('.doc')) {
+        content = 'Older .doc files are not supported. Please save the document as .docx, PDF or TXT.';
       } else {
-        content = 'Unsupported file type. Please upload PDF or TXT files.';
+        content = 'Unsupported file type. Please upload PDF, DOCX, EPUB, Markdown, HTML or TXT files.';
       }
 
-      const newDoc: ExtractedDocument = {
-        title: file.name,
+      const newDoc = addDocument({
+        title,
         content,
         type,
-        timestamp: Date.now()
-      };
+        blocks: blocks?.length ? blocks : undefined,
+        pages,
+        sections: sections?.length ? sections : undefined,
+        currentSection: sections?.length ? 0 : undefined
+      });
 
-      setDocuments(prev => [newDoc, ...prev]);
-      setActiveDocument(newDoc);
+      if (await storeOriginalFile(newDoc.id, file)) {
+        updateDocument(newDoc.id, doc => ({
+          ...doc,
+          file: { name: file.name, type: file.type, size: file.size }
+        }));
+      }
     } catch (error) {
       console.error('Error processing file:', error);
       alert('Error processing file. Please try another file.');
@@ -173,19 +437,39 @@ export default function DocumentReader() {
     }
   };
 
+  // Add pasted content, keeping its structure when the clipboard has HTML
+  const addPastedDocument = (text: string, html?: string) => {
+    const blocks = html ? parseHtmlDocument(html).blocks : [];
+    addDocument({
+      title: `Pasted Text ${new Date().toLocaleTimeString()}`,
+      content: blocks.length ? blocksToText(blocks) : text,
+      type: 'clipboard',
+      blocks: blocks.length ? blocks : undefined
+    });
+  };
+
   // Handle paste from clipboard
   const handlePaste = async () => {
     try {
+      // Prefer rich HTML (e.g. copied from a web page or Word) where the browser allows it
+      if (navigator.clipboard.read) {
+        try {
+          const items = await navigator.clipboard.read();
+          const item = items.find(i => i.types.includes('text/html'));
+          if (item) {
+            const html = await (await item.getType('text/html')).text();
+            const text = item.types.includes('text/plain') ? await (await item.getType('text/plain')).text() : '';
+            addPastedDocument(text, html);
+            return;
+          }
+        } catch {
+          // Fall back to plain text below
+        }
+      }
+
       const text = await navigator.clipboard.readText();
       if (text) {
-        const newDoc: ExtractedDocument = {
-          title: `Pasted Text ${new Date().toLocaleTimeString()}`,
-          content: text,
-          type: 'clipboard',
-          timestamp: Date.now()
-        };
-        setDocuments(prev => [newDoc, ...prev]);
-        setActiveDocument(newDoc);
+        addPastedDocument(text);
       }
     } catch (error) {
       if (textAreaRef.current) {
@@ -198,103 +482,704 @@ export default function DocumentReader() {
   // Handle manual text input
   const handleTextInput = () => {
     if (textAreaRef.current && textAreaRef.current.value) {
-      const newDoc: ExtractedDocument = {
+      addDocument({
         title: `Manual Input ${new Date().toLocaleTimeString()}`,
         content: textAreaRef.current.value,
-        type: 'clipboard',
-        timestamp: Date.now()
-      };
-      setDocuments(prev => [newDoc, ...prev]);
-      setActiveDocument(newDoc);
+        type: 'clipboard'
+      });
       textAreaRef.current.value = '';
     }
   };
 
-  // Delete document
-  const deleteDocument = (timestamp: number) => {
-    setDocuments(prev => prev.filter(doc => doc.timestamp !== timestamp));
-    if (activeDocument?.timestamp === timestamp) {
+  // Update a stored document (and the active copy, if it is the one open)
+  const updateDocument = (id: string, update: (doc: ExtractedDocument) => ExtractedDocument) => {
+    setDocuments(prev => prev.map(doc => (doc.id === id ? update(doc) : doc)));
+    setActiveDocument(prev => (prev?.id === id ? update(prev) : prev));
+  };
+
+  // Open a document from the library
+  const openDocument = (doc: ExtractedDocument) => {
+    const opened = { ...doc, lastOpened: Date.now() };
+    setDocuments(prev => prev.map(d => (d.id === doc.id ? opened : d)));
+    setActiveDocument(opened);
+  };
+
+  // Blocks currently shown in the reader: the open chapter, or the whole
+  // document (plain text is split into paragraphs, PDFs are labelled by page)
+  // (memoised on the text alone, so saving reading progress does not rebuild it)
+  const currentSection = activeDocument?.sections?.[activeDocument.currentSection ?? 0];
+  const sectionBlocks = currentSection?.blocks;
+  const sectionContent = currentSection?.content;
+  const documentBlocks = activeDocument?.blocks;
+  const documentPages = activeDocument?.pages;
+  const documentContent = activeDocument?.content;
+  const reading = useMemo(() => {
+    if (sectionContent !== undefined) return readingBlocks({ content: sectionContent, blocks: sectionBlocks });
+    if (documentContent === undefined) return { blocks: [], labels: {} };
+    return readingBlocks({ content: documentContent, blocks: documentBlocks, pages: documentPages });
+  }, [sectionBlocks, sectionContent, documentBlocks, documentPages, documentContent]);
+
+  const speechQueue = useMemo(() => buildSpeechQueue(reading.blocks), [reading.blocks]);
+  const speechBreaks = useMemo(() => queueBreaks(speechQueue, reading.blocks), [speechQueue, reading.blocks]);
+
+  const outline = reading.blocks.flatMap((block, index) =>
+    block.kind === 'heading' ? [{ index, level: block.level, text: block.text }] : []
+  );
+  const outlineTopLevel = Math.min(...outline.map(heading => heading.level));
+
+  // Scroll the reader so a block sits at the top
+  const scrollToBlock = (index: number, behavior: ScrollBehavior = 'smooth') => {
+    const container = contentRef.current;
+    const el = container?.querySelector<HTMLElement>(`[data-block="${index}"]`);
+    if (container && el) {
+      container.scrollTo({ top: el.offsetTop - 8, behavior });
+    }
+  };
+
+  // Chunked reading: the chunks of the open chapter (or document) and how
+  // far through them the reader is, saved per chapter and chunk size
+  const chunks = useMemo(() => buildChunks(reading.blocks, chunkSize), [reading.blocks, chunkSize]);
+  const chunkProgress = activeDocument?.chunkProgress?.[chunkProgressKey(activeDocument.currentSection ?? 0, chunkSize)];
+  const chunkIndex = Math.max(0, Math.min(chunkProgress?.current ?? 0, chunks.length - 1));
+  const chunksRead = (chunkProgress?.completed ?? []).filter(index => index < chunks.length);
+  const chunkCompletion = chunks.length ? (chunksRead.length / chunks.length) * 100 : 0;
+  const currentChunk = chunkMode ? chunks[chunkIndex] : undefined;
+
+  useEffect(() => {
+    localStorage.setItem(CHUNK_MODE_KEY, String(chunkMode));
+    localStorage.setItem(CHUNK_SIZE_KEY, String(chunkSize));
+  }, [chunkMode, chunkSize]);
+
+  // Completed chunks drive the progress bar while reading in chunks
+  useEffect(() => {
+    if (chunkMode) setReadingProgress(chunkCompletion);
+  }, [chunkMode, chunkCompletion]);
+
+  const updateChunkProgress = (size: number, update: (progress: ChunkProgress) => ChunkProgress) => {
+    if (!activeDocument) return;
+    updateDocument(activeDocument.id, doc => {
+      const key = chunkProgressKey(doc.currentSection ?? 0, size);
+      const progress = doc.chunkProgress?.[key] ?? { current: 0, completed: [] };
+      return { ...doc, chunkProgress: { ...doc.chunkProgress, [key]: update(progress) } };
+    });
+  };
+
+  const markChunkRead = (completed: number[], index: number) =>
+    completed.includes(index) ? completed : [...completed, index].sort((a, b) => a - b);
+
+  const goToChunk = (index: number, markCurrentRead = false) => {
+    const next = Math.max(0, Math.min(index, chunks.length - 1));
+    updateChunkProgress(chunkSize, progress => ({
+      current: next,
+      completed: markCurrentRead ? markChunkRead(progress.completed, chunkIndex) : progress.completed
+    }));
+    contentRef.current?.scrollTo({ top: 0 });
+  };
+
+  // "Next" counts the chunk on screen as read, and times it if it was
+  // being read for the first time
+  const nextChunk = () => {
+    if (!chunksRead.includes(chunkIndex)) recordReadingSpeed(chunks[chunkIndex]?.words ?? 0);
+    goToChunk(chunkIndex + 1, true);
+  };
+
+  const toggleChunkMode = () => {
+    if (chunkMode && !isSpeaking) setReadingProgress(0);
+    setChunkMode(!chunkMode);
+  };
+
+  // A new chunk size keeps the reader at the same place in the text
+  const changeChunkSize = (size: number) => {
+    const start = chunks[chunkIndex]?.start;
+    setChunkSize(size);
+    if (!start) return;
+    const current = findChunk(buildChunks(reading.blocks, size), start);
+    updateChunkProgress(size, progress => ({ ...progress, current }));
+  };
+
+  // Show a block: scroll to it, or open the chunk it is in
+  const showBlock = (index: number) => {
+    if (chunkMode) {
+      goToChunk(findChunk(chunks, { block: index, piece: 0, offset: 0 }));
+    } else {
+      scrollToBlock(index);
+    }
+  };
+
+  // Jump to another chapter
+  const goToSection = (index: number) => {
+    if (!activeDocument?.sections || index < 0 || index >= activeDocument.sections.length) return;
+    stopSpeaking();
+    updateDocument(activeDocument.id, doc => ({ ...doc, currentSection: index }));
+  };
+
+  // Remember how far through the open chapter (or document) the reader has scrolled
+  const handleContentScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    if (chunkMode) return;
+    const el = e.currentTarget;
+    const scrollable = el.scrollHeight - el.clientHeight;
+    const progress = scrollable > 0 ? Math.round((el.scrollTop / scrollable) * 100) : 100;
+    setViewProgress(progress);
+    measureScrollSpeed(scrollable > 0 ? el.scrollTop / scrollable : 1);
+    if (!activeDocument) return;
+    if (!activeDocument.sections) {
+      if (activeDocument.progress !== progress) updateDocument(activeDocument.id, doc => ({ ...doc, progress }));
+      return;
+    }
+    const index = activeDocument.currentSection ?? 0;
+    if (activeDocument.sections[index]?.progress === progress) return;
+    updateDocument(activeDocument.id, doc => ({
+      ...doc,
+      sections: doc.sections?.map((section, i) => (i === index ? { ...section, progress } : section))
+    }));
+  };
+
+  // Restore the saved scroll position when a chapter (or document) is
+  // opened; progress changes on every scroll, so remember which one it was
+  const restoredSectionRef = useRef<string | null>(null);
+  const openedSection = activeDocument ? `${activeDocument.id}:${activeDocument.currentSection ?? 0}` : null;
+  const savedProgress = (activeDocument?.sections ? currentSection?.progress : activeDocument?.progress) ?? 0;
+  useEffect(() => {
+    const el = contentRef.current;
+    if (restoredSectionRef.current === openedSection) return;
+    restoredSectionRef.current = openedSection;
+    if (!el) return;
+    el.scrollTop = (savedProgress / 100) * (el.scrollHeight - el.clientHeight);
+    setViewProgress(savedProgress);
+  }, [openedSection, savedProgress]);
+
+  // Reading speed: time from when a chunk (or a stretch of scrolling)
+  // starts, and record the pace when it ends.  Time spent listening to
+  // read-aloud is not the reader's own pace, so it is not measured.
+  const restartSpeedTimer = () => {
+    const el = contentRef.current;
+    const timer = speedTimerRef.current;
+    if (!activeDocument || !el || isSpeaking) {
+      timer.stop();
+      scrollAnchorRef.current = null;
+      return;
+    }
+    const scrollable = el.scrollHeight - el.clientHeight;
+    scrollAnchorRef.current = scrollable > 0 ? el.scrollTop / scrollable : null;
+    timer.start();
+  };
+
+  const recordReadingSpeed = (words: number) => {
+    const seconds = speedTimerRef.current.seconds();
+    if (!seconds || isSpeaking) return;
+    setSpeedProfile(prev => addSpeedSample(prev, words, seconds));
+  };
+
+  // Words scrolled past since the timer started; scrolling back starts again
+  const measureScrollSpeed = (position: number) => {
+    const anchor = scrollAnchorRef.current;
+    if (anchor === null) {
+      restartSpeedTimer();
+      return;
+    }
+    const words = (position - anchor) * readingWords;
+    if (words > 0 && words < SCROLL_SAMPLE_WORDS) return;
+    if (words > 0) recordReadingSpeed(words);
+    restartSpeedTimer();
+  };
+
+  // A new chunk, chapter or document starts a new measurement
+  const restartSpeedTimerRef = useRef(restartSpeedTimer);
+  restartSpeedTimerRef.current = restartSpeedTimer;
+  useEffect(() => {
+    restartSpeedTimerRef.current();
+  }, [activeDocument?.id, activeDocument?.currentSection, chunkMode, chunkIndex, isSpeaking]);
+
+  useEffect(() => {
+    const timer = speedTimerRef.current;
+    const onVisibilityChange = () => timer.setVisible(!document.hidden);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, []);
+
+  useEffect(() => {
+    saveSpeedProfile(speedProfile);
+  }, [speedProfile]);
+
+  const resetSpeedProfile = () => {
+    if (confirm('Forget your measured reading speed and start again from 200 words per minute?')) {
+      setSpeedProfile({ samples: [] });
+    }
+  };
+
+  // Time left in the open document, at the reader's pace: unread chunks (or
+  // the text below the scroll position) here, plus unread chapters
+  const readingPace = personalWpm(speedProfile);
+  const speedHistory = speedTrend(speedProfile);
+  const readingWords = useMemo(() => countWords(blocksToText(reading.blocks)), [reading.blocks]);
+  const wordsLeftHere = chunkMode
+    ? chunks.reduce((total, chunk, index) => (chunksRead.includes(index) ? total : total + chunk.words), 0)
+    : readingWords * (1 - viewProgress / 100);
+  const wordsLeft = activeDocument
+    ? wordsLeftHere + documentWordsLeft(activeDocument, activeDocument.currentSection ?? 0)
+    : 0;
+
+  // Reading speed chart scales
+  const trendRates = [...speedHistory.map(point => point.wpm), readingPace];
+  const trendMin = Math.min(...trendRates) * 0.9;
+  const trendMax = Math.max(...trendRates) * 1.1;
+  const trendX = (index: number) => (index / Math.max(1, speedHistory.length - 1)) * TREND_WIDTH;
+  const trendY = (wpm: number) => TREND_HEIGHT - 4 - ((wpm - trendMin) / (trendMax - trendMin)) * (TREND_HEIGHT - 8);
+
+  // Readability of the open chapter (or document), worked out only while
+  // the panel or one of its views is on
+  const readabilityInUse =
+    showReadability || readabilityOptions.tint || readabilityOptions.marks || readabilityOptions.breaks;
+  const readability = useMemo(
+    () => (readabilityInUse ? analyseReadability(reading.blocks) : null),
+    [readabilityInUse, reading.blocks]
+  );
+  const breakSuggestions = useMemo(
+    () =>
+      readability && readabilityOptions.breaks
+        ? suggestBreaks(reading.blocks, readability, readingPace, readabilityOptions.sessionMinutes)
+        : [],
+    [readability, readabilityOptions.breaks, readabilityOptions.sessionMinutes, reading.blocks, readingPace]
+  );
+  const difficultyTints =
+    readability && readabilityOptions.tint
+      ? Object.fromEntries(readability.blocks.flatMap(result => (result.difficulty ? [[result.block, result.difficulty]] : [])))
+      : undefined;
+  const hardestBlocks = readability
+    ? readability.blocks
+        .filter(result => result.difficulty === 'hard' || result.difficulty === 'very-hard')
+        .sort((a, b) => b.scores.grade - a.scores.grade)
+        .slice(0, 3)
+    : [];
+  const readabilityWords = readability?.overall.words ?? 0;
+
+  useEffect(() => {
+    localStorage.setItem(READABILITY_KEY, JSON.stringify(readabilityOptions));
+  }, [readabilityOptions]);
+
+  const updateReadabilityOptions = (update: Partial<ReadabilityOptions>) =>
+    setReadabilityOptions(prev => ({ ...prev, ...update }));
+
+  // Opening words of a block, for the hardest-parts list
+  const blockPreview = (index: number) => {
+    const words = blockPieces(reading.blocks[index]).join(' ').split(/\s+/).filter(Boolean);
+    return words.slice(0, 10).join(' ') + (words.length > 10 ? '…' : '');
+  };
+
+  // Switch to word-by-word reading from the current chunk, or from the
+  // first block at the top of the view
+  const startRsvp = () => {
+    stopSpeaking();
+    if (currentChunk) {
+      setRsvpStart(currentChunk.start);
+      return;
+    }
+    const container = contentRef.current;
+    const top = Array.from(container?.querySelectorAll<HTMLElement>('[data-block]') ?? []).find(
+      el => el.offsetTop + el.offsetHeight > (container?.scrollTop ?? 0)
+    );
+    setRsvpStart({ block: Number(top?.dataset.block ?? 0), piece: 0, offset: 0 });
+  };
+
+  // Back to the full text at the block where word-by-word reading stopped
+  const exitRsvp = (position: BlockPoint | null) => {
+    setRsvpStart(null);
+    if (position) setPendingJump(position.block);
+  };
+
+  // Delete documents (the library is updated by the save effect)
+  const deleteDocuments = (ids: string[]) => {
+    setDocuments(prev => prev.filter(doc => !ids.includes(doc.id)));
+    if (activeDocument && ids.includes(activeDocument.id)) {
       setActiveDocument(null);
       stopSpeaking();
     }
   };
 
-  // Start Text-to-Speech with voice selection
-  const speakDocument = () => {
-    if (!activeDocument) return;
+  const deleteDocument = (id: string) => deleteDocuments([id]);
 
-    // Cancel any ongoing speech
-    window.speechSynthesis.cancel();
+  // Download the original uploaded file
+  const downloadOriginal = async (doc: ExtractedDocument) => {
+    try {
+      const blob = await loadFile(doc.id);
+      if (!blob) {
+        alert('The original file is no longer stored for this document.');
+        updateDocument(doc.id, d => ({ ...d, file: undefined }));
+        return;
+      }
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = doc.file?.name ?? doc.title;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (error) {
+      console.error('Error loading original file:', error);
+      alert('Could not load the original file.');
+    }
+  };
 
-    const utterance = new SpeechSynthesisUtterance(activeDocument.content);
-    utteranceRef.current = utterance;
+  // Free space by dropping stored original files; extracted text is kept
+  const removeOriginalFiles = async () => {
+    const withFiles = documents.filter(doc => doc.file);
+    if (!withFiles.length || !confirm(`Remove the original files of ${withFiles.length} document(s)? Their text stays in your library.`)) {
+      return;
+    }
+    try {
+      for (const doc of withFiles) {
+        await removeFile(doc.id);
+        updateDocument(doc.id, d => ({ ...d, file: undefined }));
+      }
+      setStorageFull(false);
+    } catch (error) {
+      console.error('Error removing original files:', error);
+    }
+    refreshStorageUsage();
+  };
 
-    // Set voice
-    const voice = voices.find(v => v.name === selectedVoice);
-    if (voice) {
-      utterance.voice = voice;
+  // Remove documents that have not been opened for a month
+  const removeStaleDocuments = () => {
+    const cutoff = Date.now() - 30 * DAY_MS;
+    const stale = documents.filter(doc => (doc.lastOpened ?? doc.timestamp) < cutoff);
+    if (!stale.length) {
+      alert('Every document has been opened in the last 30 days.');
+      return;
+    }
+    if (confirm(`Delete ${stale.length} document(s) not opened in the last 30 days?`)) {
+      deleteDocuments(stale.map(doc => doc.id));
+      setStorageFull(false);
     }
+  };
 
-    // Set speech parameters
-    utterance.rate = speechRate;
-    utterance.pitch = speechPitch;
-    utterance.volume = 1.0;
+  // Remember where to resume reading aloud (cleared once the end is reached)
+  const saveResumePoint = (id: string, segment: SpeechSegment | null) => {
+    updateDocument(id, doc => ({
+      ...doc,
+      speechResume: segment
+        ? {
+            section: doc.sections ? doc.currentSection ?? 0 : undefined,
+            block: segment.block,
+            piece: segment.piece,
+            offset: segment.start
+          }
+        : undefined
+    }));
+  };
 
-    // Event handlers
-    utterance.onstart = () => {
-      setIsSpeaking(true);
-      setIsPaused(false);
-    };
+  // Start Text-to-Speech from a given sentence.  The speech service reads
+  // one sentence at a time and reports each sentence and word as it goes.
+  const speakFrom = (index: number) => {
+    if (!activeDocument || !speechQueue.length) return;
+    const { id } = activeDocument;
+    const queue = speechQueue;
 
-    utterance.onboundary = (event) => {
-      if (activeDocument) {
-        const progress = (event.charIndex / activeDocument.content.length) * 100;
-        setReadingProgress(progress);
+    speech.speak({
+      owner: SPEECH_OWNER,
+      label: activeDocument.title,
+      items: queue.map(segment => segment.text),
+      start: index,
+      lexicon: activeDocument.pronunciations,
+      breaks: speechBreaks,
+      onItem: (current) => {
+        setSpeakingSegment(current);
+        setSpokenWord(null);
+        if (!chunkModeRef.current) setReadingProgress((current / queue.length) * 100);
+        saveResumePoint(id, queue[current]);
+      },
+      onWord: (current, word) => {
+        setSpokenWord(word);
+        if (chunkModeRef.current) return;
+        setReadingProgress(((current + word.start / queue[current].text.length) / queue.length) * 100);
+      },
+      onDone: (finished) => {
+        if (!chunkModeRef.current) setReadingProgress(finished ? 100 : 0);
+        if (finished) saveResumePoint(id, null);
+        setSpeakingSegment(null);
+        setSpokenWord(null);
       }
-    };
+    });
+  };
+
+  const speakFromBlock = (block: number) => {
+    const index = speechQueue.findIndex(segment => segment.block >= block);
+    if (index >= 0) speakFrom(index);
+  };
+
+  // Where "Resume" picks up, if this document (and chapter) was read before;
+  // when reading in chunks, somewhere in the chunk on screen
+  const resume = activeDocument?.speechResume;
+  const savedResumeIndex = resume && (resume.section ?? 0) === (activeDocument?.currentSection ?? 0)
+    ? findSegment(speechQueue, resume)
+    : 0;
+  const segmentPoint = (segment: SpeechSegment) => ({ block: segment.block, piece: segment.piece, offset: segment.start });
+  const inCurrentChunk = (segment?: SpeechSegment) =>
+    !!segment && !!currentChunk &&
+    comparePoints(segmentPoint(segment), currentChunk.start) >= 0 &&
+    comparePoints(segmentPoint(segment), currentChunk.end) < 0;
+  const resumeIndex = currentChunk && !inCurrentChunk(speechQueue[savedResumeIndex])
+    ? Math.max(0, speechQueue.findIndex(segment => inCurrentChunk(segment)))
+    : savedResumeIndex;
+
+  const speakDocument = () => speakFrom(resumeIndex);
+
+  // What to highlight in the text while reading aloud
+  const currentSegment = isSpeaking && speakingSegment !== null ? speechQueue[speakingSegment] : undefined;
+  const readAlong: ReadAlongHighlight | null = currentSegment
+    ? {
+        block: currentSegment.block,
+        piece: currentSegment.piece,
+        sentence: currentSegment,
+        word: spokenWord && {
+          start: currentSegment.start + spokenWord.start,
+          end: currentSegment.start + spokenWord.end
+        }
+      }
+    : null;
+
+  // Turn the page when reading aloud moves past the chunk on screen.  This
+  // runs only when a new sentence starts, so it reads the rest from a ref.
+  const followSpeechRef = useRef(() => {});
+  followSpeechRef.current = () => {
+    if (!currentChunk || !currentSegment || inCurrentChunk(currentSegment)) return;
+    const index = findChunk(chunks, segmentPoint(currentSegment));
+    updateChunkProgress(chunkSize, progress => ({
+      current: index,
+      completed: index > chunkIndex ? markChunkRead(progress.completed, chunkIndex) : progress.completed
+    }));
+  };
+  useEffect(() => {
+    followSpeechRef.current();
+  }, [speakingSegment]);
+
+  // Keep the sentence being read in view
+  useEffect(() => {
+    if (speakingSegment === null) return;
+    const el = contentRef.current?.querySelector<HTMLElement>('.speech-sentence');
+    el?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [speakingSegment]);
 
-    utterance.onend = () => {
-      setReadingProgress(100);
-      setIsSpeaking(false);
-      setIsPaused(false);
+  // Offer highlight options when text in the reader is selected (debounced,
+  // as the selection changes continuously while dragging)
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout>;
+    const handleSelectionChange = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        const container = contentRef.current;
+        const selection = window.getSelection();
+        if (!container || !selection || selection.isCollapsed || !selection.rangeCount) {
+          setSelectionDraft(null);
+          return;
+        }
+        const range = selection.getRangeAt(0);
+        const points = container.contains(range.commonAncestorContainer) ? selectionToPoints(container, range) : null;
+        if (!points) {
+          setSelectionDraft(null);
+          return;
+        }
+        const rect = range.getBoundingClientRect();
+        const box = container.getBoundingClientRect();
+        setSelectionDraft({
+          ...points,
+          top: rect.top - box.top + container.scrollTop,
+          left: Math.min(Math.max(rect.left - box.left + rect.width / 2, 90), box.width - 90)
+        });
+      }, 250);
+    };
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => {
+      clearTimeout(timer);
+      document.removeEventListener('selectionchange', handleSelectionChange);
     };
+  }, []);
 
-    utterance.onerror = () => {
-      setIsSpeaking(false);
-      setIsPaused(false);
+  const annotations = activeDocument?.annotations ?? [];
+  const sectionAnnotations = annotations.filter(a => (a.section ?? 0) === (activeDocument?.currentSection ?? 0));
+
+  // Highlight the selected text, widened to whole words
+  const addAnnotation = (color: HighlightColor, withNote = false) => {
+    if (!activeDocument || !selectionDraft) return;
+    const pieceText = ({ block, piece }: BlockPoint) => blockPieces(reading.blocks[block])[piece] ?? '';
+    const { start: startPoint, end: endPoint } = selectionDraft;
+    const start = { ...startPoint, offset: snapToWords(pieceText(startPoint), { start: startPoint.offset, end: startPoint.offset }).start };
+    const end = { ...endPoint, offset: snapToWords(pieceText(endPoint), { start: endPoint.offset, end: endPoint.offset }).end };
+    const quote = textBetween(reading.blocks, start, end).trim();
+    window.getSelection()?.removeAllRanges();
+    setSelectionDraft(null);
+    if (!quote) return;
+
+    const annotation: Annotation = {
+      id: createAnnotationId(),
+      section: activeDocument.sections ? activeDocument.currentSection ?? 0 : undefined,
+      start,
+      end,
+      quote,
+      color,
+      note: withNote ? '' : undefined,
+      created: Date.now()
     };
+    updateDocument(activeDocument.id, doc => ({ ...doc, annotations: [...(doc.annotations ?? []), annotation] }));
+    if (withNote) {
+      setShowNotes(true);
+      setActiveAnnotation(annotation.id);
+    }
+  };
 
-    window.speechSynthesis.speak(utterance);
+  // Look up the selected phrase in the glossary
+  const defineSelection = () => {
+    if (!selectionDraft) return;
+    const selection = window.getSelection();
+    const rect = selection?.rangeCount ? selection.getRangeAt(0).getBoundingClientRect() : null;
+    const term = textBetween(reading.blocks, selectionDraft.start, selectionDraft.end).trim();
+    selection?.removeAllRanges();
+    setSelectionDraft(null);
+    if (term && rect) setGlossaryRequest({ term, rect });
   };
 
-  // Pause/Resume speaking
-  const pauseResume = () => {
-    if (!isSpeaking) return;
+  const updateAnnotation = (id: string, changes: Partial<Annotation>) => {
+    if (!activeDocument) return;
+    updateDocument(activeDocument.id, doc => ({
+      ...doc,
+      annotations: doc.annotations?.map(a => (a.id === id ? { ...a, ...changes } : a))
+    }));
+  };
+
+  const deleteAnnotation = (id: string) => {
+    if (!activeDocument) return;
+    updateDocument(activeDocument.id, doc => ({ ...doc, annotations: doc.annotations?.filter(a => a.id !== id) }));
+  };
 
-    if (isPaused) {
-      window.speechSynthesis.resume();
-      setIsPaused(false);
+  // Show a highlight in the text, switching chapter first if needed
+  const goToAnnotation = (annotation: Annotation) => {
+    setActiveAnnotation(annotation.id);
+    if (activeDocument?.sections && (annotation.section ?? 0) !== (activeDocument.currentSection ?? 0)) {
+      goToSection(annotation.section ?? 0);
+      setPendingJump(annotation.start.block);
     } else {
-      window.speechSynthesis.pause();
-      setIsPaused(true);
+      showBlock(annotation.start.block);
+    }
+  };
+
+  // Finish a jump once the new chapter has been rendered
+  const showBlockRef = useRef(showBlock);
+  showBlockRef.current = showBlock;
+  useEffect(() => {
+    if (pendingJump === null) return;
+    showBlockRef.current(pendingJump);
+    setPendingJump(null);
+  }, [pendingJump, reading]);
+
+  // Keep the search index in step with the library: index documents as they
+  // are added and drop them when deleted (other changes, such as reading
+  // progress, leave the text alone and are not re-indexed)
+  useEffect(() => {
+    const index = searchIndexRef.current;
+    const ids = new Set(documents.map(doc => doc.id));
+    let changed = false;
+    for (const id of index.documentIds()) {
+      if (!ids.has(id)) {
+        index.remove(id);
+        changed = true;
+      }
     }
+    for (const doc of documents) {
+      if (!index.has(doc.id)) {
+        index.add(doc);
+        changed = true;
+      }
+    }
+    if (changed) setIndexVersion(version => version + 1);
+  }, [documents]);
+
+  const searchHits = useMemo(
+    () => (searchQuery.trim() ? searchIndexRef.current.search(searchQuery) : []),
+    [searchQuery, indexVersion]
+  );
+
+  // Open a search result at the match
+  const openSearchHit = (hit: SearchHit) => {
+    const doc = documents.find(d => d.id === hit.documentId);
+    if (!doc) return;
+    if (activeDocument?.id !== doc.id) {
+      openDocument(hit.section !== undefined ? { ...doc, currentSection: hit.section } : doc);
+    } else if (hit.section !== undefined && hit.section !== (activeDocument.currentSection ?? 0)) {
+      goToSection(hit.section);
+    }
+    setSearchMatch({ block: hit.block, piece: hit.piece, range: hit.match });
+    setPendingJump(hit.block);
+  };
+
+  // Centre the search match once it is on screen
+  useEffect(() => {
+    if (!searchMatch) return;
+    contentRef.current?.querySelector('.search-match')?.scrollIntoView({ block: 'center' });
+  }, [searchMatch, chunkIndex, reading]);
+
+  const changeSearchQuery = (query: string) => {
+    setSearchQuery(query);
+    if (!query.trim()) setSearchMatch(null);
+  };
+
+  // Practice questions for the open document or chapter
+  const recallItems = useMemo(
+    () => (showPractice ? generateRecallItems(reading.blocks) : []),
+    [showPractice, reading.blocks]
+  );
+  const recallProgress = activeDocument?.recallProgress?.[activeDocument.currentSection ?? 0];
+
+  const updateRecallProgress = (progress: RecallProgress) => {
+    if (!activeDocument) return;
+    const section = activeDocument.currentSection ?? 0;
+    updateDocument(activeDocument.id, doc => ({
+      ...doc,
+      recallProgress: { ...doc.recallProgress, [section]: progress }
+    }));
+  };
+
+  // Show the sentence a question was made from
+  const showRecallSource = ({ source }: RecallItem) => {
+    setSearchMatch({ block: source.block, piece: source.piece, range: { start: source.start, end: source.end } });
+    setPendingJump(source.block);
   };
 
-  // Stop speaking
-  const stopSpeaking = () => {
-    window.speechSynthesis.cancel();
-    setReadingProgress(0);
-    setIsSpeaking(false);
-    setIsPaused(false);
+  // Clicking a highlight opens it in the notes panel
+  const selectAnnotation = (id: string) => {
+    setShowNotes(true);
+    setActiveAnnotation(id);
   };
 
-  // Calculate reading time
-  const calculateReadingTime = (text: string) => {
-    const wordsPerMinute = 200;
-    const wordCount = text.split(/\s+/).length;
-    return Math.ceil(wordCount / wordsPerMinute);
+  useEffect(() => {
+    if (!activeAnnotation) return;
+    document.getElementById(`annotation-${activeAnnotation}`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeAnnotation, showNotes]);
+
+  const exportAnnotations = () => {
+    if (!activeDocument) return;
+    const markdown = annotationsToMarkdown(
+      activeDocument.title,
+      annotations,
+      activeDocument.sections?.map(section => section.title)
+    );
+    const url = URL.createObjectURL(new Blob([markdown], { type: 'text/markdown' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${activeDocument.title.replace(/\.[^.]+$/, '')} - notes.md`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
   };
 
+  // Stop speaking (progress is reset by the reading's onDone)
+  const stopSpeaking = () => speech.stop(SPEECH_OWNER);
+
+  // Calculate reading time at the reader's pace
+  const calculateReadingTime = (text: string) => minutesToRead(countWords(text), readingPace);
+
+  // Library entries show time left once the document has been started
+  const libraryReadingTime = (doc: ExtractedDocument) =>
+    (doc.sections ? doc.sections.some(section => section.progress) : doc.progress)
+      ? `${minutesToRead(documentWordsLeft(doc), readingPace)} min left`
+      : `${calculateReadingTime(doc.content)} min read`;
+
   return (
     <>
       <style>{`
@@ -452,51 +1337,176 @@ export default function DocumentReader() {
           color: white;
         }
         
-        .reader-zone {
-          margin-top: 20px;
-          padding: 20px;
-          background: var(--surface-1);
-          border: 1px solid var(--surface-2);
-          border-radius: 12px;
+        .document-download:hover {
+          background: var(--surface-3);
         }
         
-        .reader-controls {
-          display: flex;
-          gap: 12px;
-          margin-bottom: 20px;
-          flex-wrap: wrap;
-          align-items: center;
+        .library-search {
+          margin-bottom: 12px;
         }
         
-        .reader-btn {
-          padding: 8px 16px;
-          background: var(--surface-2);
+        .library-search-input {
+          width: 100%;
+          padding: 10px 12px;
+          background: var(--surface-1);
           border: 1px solid var(--surface-3);
           border-radius: 8px;
-          cursor: pointer;
-          display: flex;
-          align-items: center;
-          gap: 6px;
-          transition: all 0.2s;
           color: var(--text-1);
+          font-size: 14px;
         }
         
-        .reader-btn:hover {
-          background: var(--surface-3);
+        .search-results {
+          display: grid;
+          gap: 6px;
+          margin-bottom: 16px;
         }
         
-        .reader-btn.active {
-          background: var(--brand-400);
-          color: white;
-          border-color: var(--brand-400);
+        .search-summary {
+          font-size: 12px;
+          color: var(--text-2);
         }
         
-        .reading-progress {
-          flex: 1;
-          height: 4px;
+        .search-hit {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          padding: 10px 12px;
+          background: var(--surface-1);
+          border: 1px solid var(--surface-2);
+          border-radius: 8px;
+          text-align: left;
+          color: var(--text-1);
+          cursor: pointer;
+        }
+        
+        .search-hit:hover {
           background: var(--surface-2);
-          border-radius: 2px;
-          overflow: hidden;
+        }
+        
+        .search-hit-title {
+          font-size: 12px;
+          font-weight: 600;
+          color: var(--text-2);
+        }
+        
+        .search-hit-snippet {
+          font-size: 14px;
+          line-height: 1.5;
+        }
+        
+        .search-hit-snippet mark {
+          background: var(--warn-500);
+          color: inherit;
+          border-radius: 2px;
+        }
+        
+        .library-storage {
+          margin-bottom: 12px;
+          padding: 12px;
+          background: var(--surface-1);
+          border: 1px solid var(--surface-2);
+          border-radius: 8px;
+          font-size: 13px;
+          color: var(--text-2);
+        }
+        
+        .library-storage-summary {
+          display: flex;
+          justify-content: space-between;
+          gap: 12px;
+          flex-wrap: wrap;
+        }
+        
+        .library-storage-bar {
+          height: 6px;
+          margin: 8px 0;
+          background: var(--surface-2);
+          border-radius: 3px;
+          overflow: hidden;
+        }
+        
+        .library-storage-fill {
+          height: 100%;
+          background: var(--brand-400);
+        }
+        
+        .library-storage-fill.full {
+          background: var(--bad-500);
+        }
+        
+        .library-storage-actions {
+          display: flex;
+          gap: 8px;
+          flex-wrap: wrap;
+          margin-top: 8px;
+        }
+        
+        .library-storage-actions .upload-btn {
+          padding: 6px 12px;
+          font-size: 13px;
+        }
+        
+        .library-storage-actions .upload-btn:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+          transform: none;
+        }
+        
+        .library-notice {
+          margin: 12px 0;
+          padding: 8px 12px;
+          background: var(--surface-2);
+          border-left: 3px solid var(--warn-500);
+          border-radius: 6px;
+          font-size: 13px;
+          color: var(--text-1);
+        }
+        
+        .reader-zone {
+          margin-top: 20px;
+          padding: 20px;
+          background: var(--surface-1);
+          border: 1px solid var(--surface-2);
+          border-radius: 12px;
+        }
+        
+        .reader-controls {
+          display: flex;
+          gap: 12px;
+          margin-bottom: 20px;
+          flex-wrap: wrap;
+          align-items: center;
+        }
+        
+        .reader-btn {
+          padding: 8px 16px;
+          background: var(--surface-2);
+          border: 1px solid var(--surface-3);
+          border-radius: 8px;
+          cursor: pointer;
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          transition: all 0.2s;
+          color: var(--text-1);
+        }
+        
+        .reader-btn:hover {
+          background: var(--surface-3);
+        }
+        
+        .reader-btn.active {
+          background: var(--brand-400);
+          color: white;
+          border-color: var(--brand-400);
+        }
+        
+        .reading-progress {
+          flex: 1;
+          height: 4px;
+          background: var(--surface-2);
+          border-radius: 2px;
+          overflow: hidden;
         }
         
         .reading-progress-bar {
@@ -512,6 +1522,12 @@ export default function DocumentReader() {
           padding: 16px;
           margin-bottom: 16px;
         }
+
+        .voice-settings .pronunciation-editor {
+          margin-top: 16px;
+          padding-top: 12px;
+          border-top: 1px solid var(--surface-3);
+        }
         
         .voice-control {
           margin-bottom: 12px;
@@ -534,7 +1550,220 @@ export default function DocumentReader() {
           font-size: 14px;
         }
         
+        .readability-summary {
+          margin: 0 0 8px;
+          font-size: 14px;
+          color: var(--text-1);
+        }
+
+        .readability-scores {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 6px 16px;
+          margin-bottom: 8px;
+          font-size: 13px;
+          color: var(--text-2);
+        }
+
+        .readability-scores strong {
+          color: var(--text-1);
+        }
+
+        .difficulty-strip {
+          display: flex;
+          gap: 1px;
+          height: 16px;
+          margin-bottom: 12px;
+          border-radius: 4px;
+          overflow: hidden;
+        }
+
+        .difficulty-cell {
+          flex-basis: 0;
+          min-width: 2px;
+          padding: 0;
+          border: none;
+          cursor: pointer;
+        }
+
+        .difficulty-easy {
+          background: var(--ok-500);
+        }
+
+        .difficulty-moderate {
+          background: #facc15;
+        }
+
+        .difficulty-hard {
+          background: #fb923c;
+        }
+
+        .difficulty-very-hard {
+          background: var(--bad-500);
+        }
+
+        .difficulty-unknown {
+          background: var(--surface-3);
+        }
+
+        .hardest-part {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          width: 100%;
+          padding: 6px 8px;
+          background: none;
+          border: none;
+          border-radius: 6px;
+          color: var(--text-1);
+          font-size: 13px;
+          text-align: left;
+          cursor: pointer;
+        }
+
+        .hardest-part:hover {
+          background: var(--surface-3);
+        }
+
+        .difficulty-dot {
+          flex-shrink: 0;
+          width: 10px;
+          height: 10px;
+          border-radius: 50%;
+        }
+
+        .hardest-grade {
+          margin-left: auto;
+          flex-shrink: 0;
+          color: var(--text-2);
+        }
+
+        .readability-option {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          margin-top: 6px;
+          font-size: 13px;
+          color: var(--text-1);
+        }
+
+        .readability-session {
+          width: auto;
+          padding: 2px 4px;
+        }
+
+        .chapter-nav {
+          display: flex;
+          gap: 8px;
+          align-items: center;
+          margin-bottom: 12px;
+        }
+        
+        .chapter-select {
+          flex: 1;
+          width: auto;
+          min-width: 0;
+        }
+        
+        .chunk-nav {
+          display: flex;
+          gap: 8px;
+          align-items: center;
+          margin-bottom: 12px;
+        }
+        
+        .chunk-counter {
+          flex: 1;
+          font-size: 14px;
+          font-weight: 500;
+          color: var(--text-1);
+        }
+        
+        .chunk-done {
+          color: var(--ok-500);
+        }
+        
+        .chunk-read-count {
+          margin-left: 12px;
+          font-size: 12px;
+          font-weight: 400;
+          color: var(--text-2);
+        }
+        
+        .chunk-size {
+          width: auto;
+        }
+        
+        .chunk-next {
+          background: var(--brand-400);
+          color: white;
+        }
+        
+        .reader-btn:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+        
+        .reader-body {
+          display: flex;
+          gap: 16px;
+          align-items: flex-start;
+        }
+        
+        .outline-sidebar {
+          flex: 0 0 220px;
+          max-height: 600px;
+          overflow-y: auto;
+          padding: 12px 8px;
+          background: var(--surface-2);
+          border-radius: 8px;
+        }
+        
+        .outline-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          padding: 0 8px 8px;
+          font-size: 12px;
+          font-weight: 600;
+          text-transform: uppercase;
+          letter-spacing: 0.05em;
+          color: var(--text-2);
+        }
+        
+        .outline-collapse {
+          background: none;
+          border: none;
+          cursor: pointer;
+          color: var(--text-2);
+          font-size: 16px;
+        }
+        
+        .outline-item {
+          display: block;
+          width: 100%;
+          padding: 4px 8px;
+          background: none;
+          border: none;
+          border-radius: 4px;
+          text-align: left;
+          font-size: 13px;
+          color: var(--text-1);
+          cursor: pointer;
+        }
+        
+        .outline-item.top {
+          font-weight: 600;
+        }
+        
+        .outline-item:hover {
+          background: var(--surface-3);
+        }
+        
         .reader-content {
+          flex: 1;
+          min-width: 0;
+          position: relative;
           max-height: 600px;
           overflow-y: auto;
           padding: 20px;
@@ -542,6 +1771,127 @@ export default function DocumentReader() {
           border-radius: 8px;
           line-height: 1.8;
           font-size: 16px;
+          white-space: pre-wrap;
+        }
+        
+        .selection-toolbar {
+          position: absolute;
+          z-index: 10;
+          display: flex;
+          gap: 6px;
+          align-items: center;
+          padding: 6px 8px;
+          background: var(--surface-1);
+          border: 1px solid var(--surface-3);
+          border-radius: 8px;
+          box-shadow: 0 4px 12px rgba(0, 0, 0, 0.2);
+          transform: translate(-50%, calc(-100% - 8px));
+          white-space: nowrap;
+        }
+        
+        .highlight-swatch {
+          width: 22px;
+          height: 22px;
+          border: 2px solid var(--surface-3);
+          border-radius: 50%;
+          cursor: pointer;
+        }
+        
+        .highlight-swatch.small {
+          width: 16px;
+          height: 16px;
+        }
+        
+        .highlight-swatch.selected {
+          border-color: var(--text-1);
+        }
+        
+        .selection-note {
+          padding: 2px 8px;
+          background: var(--surface-2);
+          border: none;
+          border-radius: 6px;
+          color: var(--text-1);
+          font-size: 13px;
+          cursor: pointer;
+        }
+        
+        .notes-panel {
+          flex: 0 0 260px;
+          max-height: 600px;
+          overflow-y: auto;
+          padding: 12px 8px;
+          background: var(--surface-2);
+          border-radius: 8px;
+        }
+        
+        .notes-empty {
+          padding: 0 8px;
+          font-size: 13px;
+          color: var(--text-2);
+        }
+        
+        .note-item {
+          margin-bottom: 10px;
+          padding: 8px;
+          background: var(--surface-1);
+          border: 1px solid transparent;
+          border-radius: 6px;
+        }
+        
+        .note-item.active {
+          border-color: var(--brand-400);
+        }
+        
+        .note-quote {
+          width: 100%;
+          padding: 4px 6px;
+          border: none;
+          border-radius: 4px;
+          text-align: left;
+          font-size: 13px;
+          color: var(--text-1);
+          cursor: pointer;
+          display: -webkit-box;
+          -webkit-line-clamp: 4;
+          -webkit-box-orient: vertical;
+          overflow: hidden;
+        }
+        
+        .note-section {
+          display: block;
+          font-size: 11px;
+          color: var(--text-2);
+        }
+        
+        .note-input {
+          width: 100%;
+          margin-top: 6px;
+          padding: 6px;
+          background: var(--surface-2);
+          border: 1px solid var(--surface-3);
+          border-radius: 4px;
+          color: var(--text-1);
+          font-family: inherit;
+          font-size: 13px;
+          resize: vertical;
+        }
+        
+        .note-actions {
+          display: flex;
+          gap: 6px;
+          align-items: center;
+          margin-top: 4px;
+        }
+        
+        .note-delete {
+          margin-left: auto;
+          font-size: 14px;
+        }
+        
+        .notes-export {
+          width: 100%;
+          justify-content: center;
         }
         
         .reader-content.bionic {
@@ -565,6 +1915,65 @@ export default function DocumentReader() {
           align-items: center;
           gap: 6px;
         }
+
+        .stat-button {
+          padding: 0;
+          background: none;
+          border: none;
+          color: inherit;
+          font: inherit;
+          cursor: pointer;
+        }
+
+        .stat-button:hover,
+        .stat-button.active {
+          color: var(--brand-400);
+        }
+
+        .speed-trend {
+          margin-top: 8px;
+          padding: 12px;
+          background: var(--surface-2);
+          border-radius: 8px;
+          font-size: 13px;
+          color: var(--text-2);
+        }
+
+        .speed-summary {
+          margin: 0 0 8px;
+        }
+
+        .speed-chart {
+          display: block;
+          width: 100%;
+          max-width: 420px;
+          height: 64px;
+          overflow: visible;
+        }
+
+        .speed-chart-line {
+          fill: none;
+          stroke: var(--brand-400);
+          stroke-width: 2;
+        }
+
+        .speed-chart-point {
+          fill: var(--brand-500);
+        }
+
+        .speed-chart-pace {
+          stroke: var(--text-2);
+          stroke-dasharray: 4 4;
+          opacity: 0.6;
+        }
+
+        .speed-chart-labels {
+          display: flex;
+          justify-content: space-between;
+          max-width: 420px;
+          margin: 4px 0 8px;
+          font-size: 11px;
+        }
         
         @media (max-width: 640px) {
           .upload-buttons {
@@ -580,6 +1989,21 @@ export default function DocumentReader() {
             width: 100%;
             order: -1;
           }
+          
+          .chunk-nav {
+            flex-wrap: wrap;
+          }
+          
+          .reader-body {
+            flex-direction: column;
+            align-items: stretch;
+          }
+          
+          .outline-sidebar,
+          .notes-panel {
+            flex-basis: auto;
+            max-height: 200px;
+          }
         }
       `}</style>
 
@@ -596,7 +2020,7 @@ export default function DocumentReader() {
           <div className="upload-icon">📄</div>
           <div className="upload-title">Drop your files here</div>
           <div className="upload-subtitle">
-            Supports PDF, TXT files or paste text directly
+            Supports PDF, Word (.docx), EPUB, Markdown, HTML, TXT files or paste text directly
           </div>
 
           <div className="upload-buttons">
@@ -611,7 +2035,7 @@ export default function DocumentReader() {
           <input
             ref={fileInputRef}
             type="file"
-            accept=".pdf,.txt,.doc,.docx"
+            accept=".pdf,.txt,.doc,.docx,.epub,.md,.markdown,.html,.htm"
             onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
             style={{ display: 'none' }}
           />
@@ -627,6 +2051,12 @@ export default function DocumentReader() {
             className="text-input"
             placeholder="Paste or type your text here..."
             onPaste={(e) => {
+              const html = e.clipboardData.getData('text/html');
+              if (html) {
+                e.preventDefault();
+                addPastedDocument(e.clipboardData.getData('text/plain'), html);
+                return;
+              }
               setTimeout(() => {
                 if (textAreaRef.current?.value) {
                   handleTextInput();
@@ -643,33 +2073,154 @@ export default function DocumentReader() {
           </button>
         </div>
 
+        {libraryError && (
+          <div className="library-notice" role="status">⚠️ {libraryError}</div>
+        )}
+
         {/* Documents List */}
         {documents.length > 0 && (
           <div className="documents-list">
             <h3 style={{ marginBottom: '12px' }}>Your Documents</h3>
+
+            {/* Library Storage */}
+            {!libraryError && (
+              <div className="library-storage">
+                <div className="library-storage-summary">
+                  <span>
+                    💾 {documents.length} document{documents.length === 1 ? '' : 's'} •{' '}
+                    {formatBytes(documents.reduce((total, doc) => total + documentSize(doc), 0))}
+                  </span>
+                  {storageUsage && storageUsage.quota > 0 && (
+                    <span>
+                      {formatBytes(storageUsage.usage)} of {formatBytes(storageUsage.quota)} used
+                      {storageUsage.persisted ? ' • 🔒 protected from clean-up' : ''}
+                    </span>
+                  )}
+                </div>
+                {storageUsage && storageUsage.quota > 0 && (
+                  <div className="library-storage-bar">
+                    <div
+                      className={`library-storage-fill ${storageFull ? 'full' : ''}`}
+                      style={{ width: `${Math.min(100, (storageUsage.usage / storageUsage.quota) * 100)}%` }}
+                    />
+                  </div>
+                )}
+                {storageFull && (
+                  <div className="library-notice">
+                    ⚠️ Storage is full. Remove original files or old documents to keep saving your library.
+                  </div>
+                )}
+                <div className="library-storage-actions">
+                  <button
+                    className="upload-btn secondary"
+                    onClick={removeOriginalFiles}
+                    disabled={!documents.some(doc => doc.file)}
+                    title="Keep the extracted text but delete the uploaded files"
+                  >
+                    Remove original files
+                  </button>
+                  <button
+                    className="upload-btn secondary"
+                    onClick={removeStaleDocuments}
+                  >
+                    Remove documents not opened in 30 days
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Library Search */}
+            <div className="library-search">
+              <input
+                type="search"
+                className="library-search-input"
+                value={searchQuery}
+                onChange={(e) => changeSearchQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && searchHits[0]) openSearchHit(searchHits[0]);
+                  if (e.key === 'Escape') changeSearchQuery('');
+                }}
+                placeholder="🔍 Search all documents…"
+                aria-label="Search all documents"
+              />
+            </div>
+
+            {searchQuery.trim() && (
+              <div className="search-results" role="list" aria-label="Search results">
+                <div className="search-summary">
+                  {searchHits.length
+                    ? `${searchHits.length} match${searchHits.length === 1 ? '' : 'es'} in ${new Set(searchHits.map(hit => hit.documentId)).size} document(s)`
+                    : 'No matches'}
+                </div>
+                {searchHits.map((hit, index) => {
+                  const doc = documents.find(d => d.id === hit.documentId);
+                  let position = 0;
+                  return (
+                    <button
+                      key={index}
+                      className="search-hit"
+                      role="listitem"
+                      onClick={() => openSearchHit(hit)}
+                    >
+                      <span className="search-hit-title">
+                        {doc?.title}
+                        {hit.section !== undefined && doc?.sections && ` › ${doc.sections[hit.section]?.title}`}
+                      </span>
+                      <span className="search-hit-snippet">
+                        {hit.snippetMatches.map((match, i) => {
+                          const before = hit.snippet.slice(position, match.start);
+                          position = match.end;
+                          return (
+                            <React.Fragment key={i}>
+                              {before}
+                              <mark>{hit.snippet.slice(match.start, match.end)}</mark>
+                            </React.Fragment>
+                          );
+                        })}
+                        {hit.snippet.slice(position)}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
             {documents.map((doc) => (
               <div
-                key={doc.timestamp}
-                className={`document-item ${activeDocument?.timestamp === doc.timestamp ? 'active' : ''}`}
-                onClick={() => setActiveDocument(doc)}
+                key={doc.id}
+                className={`document-item ${activeDocument?.id === doc.id ? 'active' : ''}`}
+                onClick={() => openDocument(doc)}
               >
                 <div className="document-icon">
-                  {doc.type === 'pdf' ? '📕' : doc.type === 'clipboard' ? '📋' : '📝'}
+                  {doc.type === 'pdf' ? '📕' : doc.type === 'docx' ? '📘' : doc.type === 'epub' ? '📗' : doc.type === 'markdown' || doc.type === 'html' ? '📄' : doc.type === 'clipboard' ? '📋' : '📝'}
                 </div>
                 <div className="document-info">
                   <div className="document-title">{doc.title}</div>
                   <div className="document-meta">
                     {doc.content.split(/\s+/).length} words •
-                    {calculateReadingTime(doc.content)} min read •
-                    {new Date(doc.timestamp).toLocaleTimeString()}
+                    {libraryReadingTime(doc)} •
+                    {formatBytes(documentSize(doc))} •
+                    {new Date(doc.timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
                   </div>
                 </div>
+                {doc.file && (
+                  <button
+                    className="document-delete document-download"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      downloadOriginal(doc);
+                    }}
+                    title={`Download original file (${doc.file.name})`}
+                  >
+                    ⬇️
+                  </button>
+                )}
                 <button
                   className="document-delete"
                   onClick={(e) => {
                     e.stopPropagation();
                     if (confirm(`Delete "${doc.title}"?`)) {
-                      deleteDocument(doc.timestamp);
+                      deleteDocument(doc.id);
                     }
                   }}
                   title="Delete document"
@@ -686,28 +2237,30 @@ export default function DocumentReader() {
           <div className="reader-zone">
             <div className="reader-controls">
               {!isSpeaking ? (
-                <button
-                  className="reader-btn"
-                  onClick={speakDocument}
-                >
-                  <span>🔊</span> Read Aloud
-                </button>
-              ) : (
                 <>
                   <button
                     className="reader-btn"
-                    onClick={pauseResume}
-                  >
-                    <span>{isPaused ? '▶️' : '⏸️'}</span>
-                    {isPaused ? 'Resume' : 'Pause'}
-                  </button>
-                  <button
-                    className="reader-btn"
-                    onClick={stopSpeaking}
+                    onClick={speakDocument}
                   >
-                    <span>⏹️</span> Stop
+                    <span>🔊</span> {resumeIndex > 0 ? 'Resume Reading' : 'Read Aloud'}
                   </button>
+                  {resumeIndex > 0 && (
+                    <button
+                      className="reader-btn"
+                      onClick={() => speakFrom(0)}
+                    >
+                      <span>↺</span> Start Over
+                    </button>
+                  )}
                 </>
+              ) : (
+                // Pause, skip and speed are in the app's read-aloud player
+                <button
+                  className="reader-btn"
+                  onClick={stopSpeaking}
+                >
+                  <span>⏹️</span> Stop
+                </button>
               )}
 
               <button
@@ -724,6 +2277,65 @@ export default function DocumentReader() {
                 <span>👁️</span> Bionic Reading
               </button>
 
+              <button
+                className={`reader-btn ${rsvpStart ? 'active' : ''}`}
+                onClick={() => (rsvpStart ? exitRsvp(rsvpPositionRef.current) : startRsvp())}
+                aria-pressed={!!rsvpStart}
+                title="Show one word at a time"
+              >
+                <span>⚡</span> Word by Word
+              </button>
+
+              <button
+                className={`reader-btn ${chunkMode ? 'active' : ''}`}
+                onClick={toggleChunkMode}
+                aria-pressed={chunkMode}
+              >
+                <span>🧩</span> Chunks
+              </button>
+
+              {outline.length > 0 && (
+                <button
+                  className={`reader-btn ${showOutline ? 'active' : ''}`}
+                  onClick={() => setShowOutline(!showOutline)}
+                  aria-expanded={showOutline}
+                >
+                  <span>📑</span> Outline
+                </button>
+              )}
+
+              <button
+                className={`reader-btn ${showNotes ? 'active' : ''}`}
+                onClick={() => setShowNotes(!showNotes)}
+                aria-expanded={showNotes}
+              >
+                <span>📝</span> Notes{annotations.length > 0 && ` (${annotations.length})`}
+              </button>
+
+              <button
+                className={`reader-btn ${showPractice ? 'active' : ''}`}
+                onClick={() => setShowPractice(!showPractice)}
+                aria-expanded={showPractice}
+              >
+                <span>🧠</span> Practice
+              </button>
+
+              <button
+                className={`reader-btn ${showReadability ? 'active' : ''}`}
+                onClick={() => setShowReadability(!showReadability)}
+                aria-expanded={showReadability}
+              >
+                <span>📈</span> Readability
+              </button>
+
+              <button
+                className={`reader-btn ${showGlossary ? 'active' : ''}`}
+                onClick={() => setShowGlossary(!showGlossary)}
+                aria-expanded={showGlossary}
+              >
+                <span>📖</span> Glossary
+              </button>
+
               <div className="reading-progress">
                 <div
                   className="reading-progress-bar"
@@ -735,54 +2347,368 @@ export default function DocumentReader() {
             {/* Voice Settings Panel */}
             {showVoiceSettings && (
               <div className="voice-settings">
-                <div className="voice-control">
-                  <label className="voice-label">Voice</label>
-                  <select
-                    className="voice-select"
-                    value={selectedVoice}
-                    onChange={(e) => setSelectedVoice(e.target.value)}
-                  >
-                    {voices.map((voice) => (
-                      <option key={voice.name} value={voice.name}>
-                        {voice.name} ({voice.lang})
-                      </option>
-                    ))}
-                  </select>
+                <VoiceSettings />
+                <PronunciationEditor
+                  title="Pronunciations for this document"
+                  rules={activeDocument.pronunciations ?? []}
+                  onChange={rules => updateDocument(activeDocument.id, doc => ({ ...doc, pronunciations: rules }))}
+                />
+              </div>
+            )}
+
+            {/* Chapter Navigation */}
+            {activeDocument.sections && (
+              <div className="chapter-nav">
+                <button
+                  className="reader-btn"
+                  onClick={() => goToSection((activeDocument.currentSection ?? 0) - 1)}
+                  disabled={(activeDocument.currentSection ?? 0) === 0}
+                >
+                  <span>◀</span> Previous
+                </button>
+                <select
+                  className="voice-select chapter-select"
+                  value={activeDocument.currentSection ?? 0}
+                  onChange={(e) => goToSection(Number(e.target.value))}
+                  aria-label="Chapter"
+                >
+                  {activeDocument.sections.map((section, index) => (
+                    <option key={index} value={index}>
+                      {section.title}{section.progress ? ` (${section.progress}%)` : ''}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  className="reader-btn"
+                  onClick={() => goToSection((activeDocument.currentSection ?? 0) + 1)}
+                  disabled={(activeDocument.currentSection ?? 0) >= activeDocument.sections.length - 1}
+                >
+                  Next <span>▶</span>
+                </button>
+              </div>
+            )}
+
+            {/* Chunk Navigation */}
+            {chunkMode && chunks.length > 0 && (
+              <div className="chunk-nav">
+                <button
+                  className="reader-btn"
+                  onClick={() => goToChunk(chunkIndex - 1)}
+                  disabled={chunkIndex === 0}
+                >
+                  <span>◀</span> Back
+                </button>
+                <div className="chunk-counter" aria-live="polite">
+                  Chunk {chunkIndex + 1} of {chunks.length}
+                  {chunksRead.includes(chunkIndex) && <span className="chunk-done" title="Read"> ✓</span>}
+                  <span className="chunk-read-count">{chunksRead.length} read</span>
                 </div>
+                <select
+                  className="voice-select chunk-size"
+                  value={chunkSize}
+                  onChange={(e) => changeChunkSize(Number(e.target.value))}
+                  aria-label="Chunk size"
+                >
+                  {CHUNK_SIZES.map(size => (
+                    <option key={size} value={size}>
+                      {size ? `About ${size} words` : 'One paragraph'}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  className="reader-btn chunk-next"
+                  onClick={nextChunk}
+                  disabled={chunkIndex === chunks.length - 1 && chunksRead.includes(chunkIndex)}
+                >
+                  {chunkIndex < chunks.length - 1 ? <>Next <span>▶</span></> : <>Finish <span>✓</span></>}
+                </button>
+              </div>
+            )}
+
+            {showGlossary && <GlossaryPanel />}
+
+            {showPractice && (
+              <RecallPractice
+                key={`${activeDocument.id}:${activeDocument.currentSection ?? 0}`}
+                items={recallItems}
+                progress={recallProgress}
+                onProgressChange={updateRecallProgress}
+                onShowSource={showRecallSource}
+              />
+            )}
 
-                <div className="voice-control">
-                  <label className="voice-label">Speed: {speechRate.toFixed(1)}x</label>
+            {showReadability && readability && (
+              <div className="voice-settings readability-panel">
+                {readabilityWords === 0 ? (
+                  <p className="readability-summary">There are no paragraphs here to analyse.</p>
+                ) : (
+                  <>
+                    <p className="readability-summary">
+                      <strong>{easeLabel(readability.overall.scores.ease)}</strong> — suits{' '}
+                      {gradeLabel(
+                        (readability.overall.scores.grade +
+                          readability.overall.scores.fog +
+                          readability.overall.scores.colemanLiau +
+                          readability.overall.scores.smog) /
+                          4
+                      ).toLowerCase()}
+                    </p>
+                    <div className="readability-scores">
+                      <span title="Flesch Reading Ease: 0 (hard) to 100 (easy)">
+                        Reading ease <strong>{Math.round(readability.overall.scores.ease)}</strong>
+                      </span>
+                      <span title="Flesch-Kincaid grade level">
+                        Flesch-Kincaid <strong>{readability.overall.scores.grade.toFixed(1)}</strong>
+                      </span>
+                      <span title="Gunning Fog index">
+                        Fog <strong>{readability.overall.scores.fog.toFixed(1)}</strong>
+                      </span>
+                      <span title="Coleman-Liau index">
+                        Coleman-Liau <strong>{readability.overall.scores.colemanLiau.toFixed(1)}</strong>
+                      </span>
+                      <span title="SMOG grade">
+                        SMOG <strong>{readability.overall.scores.smog.toFixed(1)}</strong>
+                      </span>
+                    </div>
+                    <p className="readability-summary">
+                      {readability.blocks.reduce((total, result) => total + result.longSentences, 0)} very long sentences •{' '}
+                      {readability.blocks.filter(result => result.dense).length} paragraphs dense with jargon
+                    </p>
+
+                    <div className="difficulty-strip" role="group" aria-label="Difficulty through the text">
+                      {readability.blocks.map(result => (
+                        <button
+                          key={result.block}
+                          className={`difficulty-cell difficulty-${result.difficulty ?? 'unknown'}`}
+                          style={{ flexGrow: result.stats.words }}
+                          onClick={() => showBlock(result.block)}
+                          title={`${blockPreview(result.block)} (grade ${result.scores.grade.toFixed(1)})`}
+                          aria-label={`Go to paragraph, ${result.difficulty ?? 'short'}`}
+                        />
+                      ))}
+                    </div>
+
+                    {hardestBlocks.length > 0 && (
+                      <div className="voice-control">
+                        <label className="voice-label">Hardest parts: tackle these when your energy is high</label>
+                        {hardestBlocks.map(result => (
+                          <button key={result.block} className="hardest-part" onClick={() => showBlock(result.block)}>
+                            <span className={`difficulty-dot difficulty-${result.difficulty}`} />
+                            {blockPreview(result.block)}
+                            <span className="hardest-grade">grade {Math.round(result.scores.grade)}</span>
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </>
+                )}
+
+                <label className="readability-option">
                   <input
-                    type="range"
-                    min="0.5"
-                    max="2"
-                    step="0.1"
-                    value={speechRate}
-                    onChange={(e) => setSpeechRate(parseFloat(e.target.value))}
-                    style={{ width: '100%' }}
+                    type="checkbox"
+                    checked={readabilityOptions.tint}
+                    onChange={(e) => updateReadabilityOptions({ tint: e.target.checked })}
                   />
-                </div>
-
-                <div className="voice-control">
-                  <label className="voice-label">Pitch: {speechPitch.toFixed(1)}</label>
+                  Tint paragraphs by difficulty
+                </label>
+                <label className="readability-option">
                   <input
-                    type="range"
-                    min="0.5"
-                    max="2"
-                    step="0.1"
-                    value={speechPitch}
-                    onChange={(e) => setSpeechPitch(parseFloat(e.target.value))}
-                    style={{ width: '100%' }}
+                    type="checkbox"
+                    checked={readabilityOptions.marks}
+                    onChange={(e) => updateReadabilityOptions({ marks: e.target.checked })}
                   />
-                </div>
+                  Underline very long sentences and jargon
+                </label>
+                <label className="readability-option">
+                  <input
+                    type="checkbox"
+                    checked={readabilityOptions.breaks}
+                    onChange={(e) => updateReadabilityOptions({ breaks: e.target.checked })}
+                  />
+                  Suggest a break every
+                  <select
+                    className="voice-select readability-session"
+                    value={readabilityOptions.sessionMinutes}
+                    onChange={(e) => updateReadabilityOptions({ sessionMinutes: Number(e.target.value), breaks: true })}
+                    aria-label="Minutes of reading between breaks"
+                  >
+                    {SESSION_LENGTHS.map(minutes => (
+                      <option key={minutes} value={minutes}>{minutes} min</option>
+                    ))}
+                  </select>
+                  of reading
+                </label>
               </div>
             )}
 
-            <div className={`reader-content ${bionicEnabled ? 'bionic' : ''}`}>
-              {bionicEnabled ? (
-                <BionicReader text={activeDocument.content} />
-              ) : (
-                activeDocument.content
+            {rsvpStart && (
+              <RsvpReader
+                key={`${activeDocument.id}:${activeDocument.currentSection ?? 0}`}
+                blocks={reading.blocks}
+                start={rsvpStart}
+                onExit={exitRsvp}
+                onPositionChange={(position) => (rsvpPositionRef.current = position)}
+              />
+            )}
+
+            {/* Kept mounted (and scrolled) while reading word by word */}
+            <div className="reader-body" style={rsvpStart ? { display: 'none' } : undefined}>
+              {showOutline && outline.length > 0 && (
+                <nav className="outline-sidebar" aria-label="Document outline">
+                  <div className="outline-header">
+                    <span>Outline</span>
+                    <button
+                      className="outline-collapse"
+                      onClick={() => setShowOutline(false)}
+                      title="Hide outline"
+                      aria-label="Hide outline"
+                    >
+                      «
+                    </button>
+                  </div>
+                  {outline.map(heading => (
+                    <button
+                      key={heading.index}
+                      className={`outline-item ${heading.level === outlineTopLevel ? 'top' : ''}`}
+                      style={{ paddingLeft: `${8 + (heading.level - outlineTopLevel) * 12}px` }}
+                      onClick={() => showBlock(heading.index)}
+                    >
+                      {heading.text}
+                    </button>
+                  ))}
+                </nav>
+              )}
+
+              {/* Has its own Bionic Reading, which keeps highlights and selections working */}
+              <div
+                ref={contentRef}
+                className={`reader-content ${bionicEnabled ? 'bionic' : ''}`}
+                onScroll={handleContentScroll}
+                data-bionic="off"
+              >
+                <DocumentBlocks
+                  blocks={reading.blocks}
+                  labels={reading.labels}
+                  bionic={bionicEnabled}
+                  bionicOptions={bionicOptions}
+                  highlight={readAlong}
+                  onReadFrom={speakFromBlock}
+                  range={currentChunk}
+                  annotations={sectionAnnotations}
+                  activeAnnotation={activeAnnotation}
+                  onAnnotationClick={selectAnnotation}
+                  searchMatch={searchMatch}
+                  difficulty={difficultyTints}
+                  readabilityFlags={readabilityOptions.marks ? readability?.flags : undefined}
+                  breaks={breakSuggestions}
+                />
+
+                {selectionDraft && (
+                  <div
+                    className="selection-toolbar"
+                    style={{ top: selectionDraft.top, left: selectionDraft.left }}
+                    // Keep the selection while a button is pressed
+                    onMouseDown={(e) => e.preventDefault()}
+                    role="toolbar"
+                    aria-label="Highlight selection"
+                  >
+                    {HIGHLIGHT_COLORS.map(color => (
+                      <button
+                        key={color}
+                        className={`highlight-swatch highlight-${color}`}
+                        onClick={() => addAnnotation(color)}
+                        title={`Highlight in ${color}`}
+                        aria-label={`Highlight in ${color}`}
+                      />
+                    ))}
+                    <button className="selection-note" onClick={() => addAnnotation('yellow', true)}>
+                      📝 Note
+                    </button>
+                    <button className="selection-note" onClick={defineSelection}>
+                      📖 Define
+                    </button>
+                  </div>
+                )}
+
+                <GlossaryLookup
+                  containerRef={contentRef}
+                  request={glossaryRequest}
+                  onClose={() => setGlossaryRequest(null)}
+                />
+              </div>
+
+              {showNotes && (
+                <aside className="notes-panel" aria-label="Highlights and notes">
+                  <div className="outline-header">
+                    <span>Notes</span>
+                    <button
+                      className="outline-collapse"
+                      onClick={() => setShowNotes(false)}
+                      title="Hide notes"
+                      aria-label="Hide notes"
+                    >
+                      »
+                    </button>
+                  </div>
+                  {annotations.length === 0 ? (
+                    <p className="notes-empty">Select text in the document to highlight it or add a note.</p>
+                  ) : (
+                    sortAnnotations(annotations).map(annotation => (
+                      <div
+                        key={annotation.id}
+                        id={`annotation-${annotation.id}`}
+                        className={`note-item ${annotation.id === activeAnnotation ? 'active' : ''}`}
+                      >
+                        <button
+                          className={`note-quote highlight-${annotation.color}`}
+                          onClick={() => goToAnnotation(annotation)}
+                          title="Show in document"
+                        >
+                          {activeDocument.sections && (
+                            <span className="note-section">
+                              {activeDocument.sections[annotation.section ?? 0]?.title}
+                            </span>
+                          )}
+                          {annotation.quote}
+                        </button>
+                        <textarea
+                          className="note-input"
+                          value={annotation.note ?? ''}
+                          onChange={(e) => updateAnnotation(annotation.id, { note: e.target.value })}
+                          onFocus={() => setActiveAnnotation(annotation.id)}
+                          placeholder="Add a note…"
+                          aria-label="Note"
+                          rows={2}
+                          autoFocus={annotation.id === activeAnnotation && annotation.note === ''}
+                        />
+                        <div className="note-actions">
+                          {HIGHLIGHT_COLORS.map(color => (
+                            <button
+                              key={color}
+                              className={`highlight-swatch small highlight-${color} ${annotation.color === color ? 'selected' : ''}`}
+                              onClick={() => updateAnnotation(annotation.id, { color })}
+                              title={`Change to ${color}`}
+                              aria-label={`Change to ${color}`}
+                            />
+                          ))}
+                          <button
+                            className="document-delete note-delete"
+                            onClick={() => deleteAnnotation(annotation.id)}
+                            title="Delete highlight"
+                            aria-label="Delete highlight"
+                          >
+                            🗑️
+                          </button>
+                        </div>
+                      </div>
+                    ))
+                  )}
+                  {annotations.length > 0 && (
+                    <button className="reader-btn notes-export" onClick={exportAnnotations}>
+                      <span>⬇️</span> Export as Markdown
+                    </button>
+                  )}
+                </aside>
               )}
             </div>
 
@@ -791,19 +2717,74 @@ export default function DocumentReader() {
                 <span>📊</span>
                 {activeDocument.content.split(/\s+/).length} words
               </div>
-              <div className="stat">
+              <div className="stat" title={`${calculateReadingTime(activeDocument.content)} min for the whole document`}>
                 <span>⏱️</span>
-                {calculateReadingTime(activeDocument.content)} min read
+                {minutesToRead(wordsLeft, readingPace)} min left
               </div>
+              <button
+                className={`stat stat-button ${showSpeedTrend ? 'active' : ''}`}
+                onClick={() => setShowSpeedTrend(!showSpeedTrend)}
+                aria-expanded={showSpeedTrend}
+                title="Your reading speed"
+              >
+                <span>🏃</span>
+                {readingPace} wpm
+              </button>
               <div className="stat">
                 <span>📏</span>
                 {activeDocument.content.length} characters
               </div>
               <div className="stat">
                 <span>📄</span>
-                {Math.ceil(activeDocument.content.length / 3000)} pages
+                {activeDocument.pages?.length ?? Math.ceil(activeDocument.content.length / 3000)} pages
               </div>
             </div>
+
+            {showSpeedTrend && (
+              <div className="speed-trend">
+                <p className="speed-summary">
+                  {speedProfile.samples.length >= CALIBRATION_SAMPLES
+                    ? `You read about ${readingPace} words per minute, measured over your recent reading.`
+                    : `Still learning your pace (${speedProfile.samples.length} of ${CALIBRATION_SAMPLES} passages timed). Read in chunks, or just scroll as you read, and estimates will adjust.`}
+                </p>
+                {speedHistory.length > 1 && (
+                  <svg
+                    className="speed-chart"
+                    viewBox={`0 0 ${TREND_WIDTH} ${TREND_HEIGHT}`}
+                    role="img"
+                    aria-label={`Reading speed by day: ${speedHistory.map(point => `${point.wpm} wpm`).join(', ')}`}
+                  >
+                    <line className="speed-chart-pace" x1={0} x2={TREND_WIDTH} y1={trendY(readingPace)} y2={trendY(readingPace)} />
+                    <polyline
+                      className="speed-chart-line"
+                      points={speedHistory.map((point, index) => `${trendX(index)},${trendY(point.wpm)}`).join(' ')}
+                    />
+                    {speedHistory.map((point, index) => (
+                      <circle key={point.day} className="speed-chart-point" cx={trendX(index)} cy={trendY(point.wpm)} r={3}>
+                        <title>
+                          {new Date(point.day).toLocaleDateString([], { month: 'short', day: 'numeric' })}: {point.wpm} wpm over{' '}
+                          {point.minutes} min
+                        </title>
+                      </circle>
+                    ))}
+                  </svg>
+                )}
+                {speedHistory.length > 1 && (
+                  <div className="speed-chart-labels">
+                    <span>{new Date(speedHistory[0].day).toLocaleDateString([], { month: 'short', day: 'numeric' })}</span>
+                    <span>Dashed line: current pace</span>
+                    <span>
+                      {new Date(speedHistory[speedHistory.length - 1].day).toLocaleDateString([], { month: 'short', day: 'numeric' })}
+                    </span>
+                  </div>
+                )}
+                {speedProfile.samples.length > 0 && (
+                  <button className="reader-btn" onClick={resetSpeedProfile}>
+                    <span>↺</span> Reset speed
+                  </button>
+                )}
+              </div>
+            )}
           </div>
         )}
 
@@ -0,0 +1,150 @@
+import React, { createContext, ReactNode, useContext, useEffect, useMemo, useState } from 'react';
+import {
+  createTermId,
+  DEFAULT_COURSE,
+  Definition,
+  DictionaryPack,
+  GlossaryEntry,
+  indexPacks,
+  lookupTerm,
+  parseDictionary,
+  SavedTerm
+} from '../lib/glossary';
+import { createDocumentId, loadDictionaries, removeDictionary, saveDictionary } from '../lib/library';
+
+/**
+ * GlossaryContext
+ *
+ * Shares the offline dictionary packs and the user's saved glossary between
+ * the reading views, so a term saved in one is defined in the others.
+ * Packs are stored in the library database; saved terms and the current
+ * course are kept in localStorage.
+ */
+
+export interface GlossaryContextType {
+  packs: DictionaryPack[];
+  savedTerms: SavedTerm[];
+  course: string; // saved terms go into this course
+  courses: string[];
+  setCourse: (course: string) => void;
+  lookupsEnabled: boolean; // define words when they are tapped or hovered
+  setLookupsEnabled: (enabled: boolean) => void;
+  lookup: (term: string) => Definition[];
+  saveTerm: (entry: GlossaryEntry, context?: string) => void;
+  updateTerm: (id: string, changes: Partial<Omit<SavedTerm, 'id'>>) => void;
+  deleteTerm: (id: string) => void;
+  importPack: (file: File) => Promise<DictionaryPack>;
+  deletePack: (id: string) => Promise<void>;
+}
+
+const TERMS_KEY = 'glossary.terms';
+const COURSE_KEY = 'glossary.course';
+const LOOKUPS_KEY = 'glossary.lookups';
+
+const GlossaryContext = createContext<GlossaryContextType | undefined>(undefined);
+
+export function GlossaryProvider({ children }: { children: ReactNode }): JSX.Element {
+  const [packs, setPacks] = useState<DictionaryPack[]>([]);
+  const [savedTerms, setSavedTerms] = useState<SavedTerm[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(TERMS_KEY) ?? '[]');
+    } catch {
+      return [];
+    }
+  });
+  const [course, setCourse] = useState(() => localStorage.getItem(COURSE_KEY) || DEFAULT_COURSE);
+  const [lookupsEnabled, setLookupsEnabled] = useState(() => localStorage.getItem(LOOKUPS_KEY) !== 'false');
+
+  useEffect(() => {
+    loadDictionaries()
+      .then(setPacks)
+      .catch(error => console.warn('Failed to load dictionary packs', error));
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(TERMS_KEY, JSON.stringify(savedTerms));
+  }, [savedTerms]);
+
+  useEffect(() => {
+    localStorage.setItem(COURSE_KEY, course);
+  }, [course]);
+
+  useEffect(() => {
+    localStorage.setItem(LOOKUPS_KEY, String(lookupsEnabled));
+  }, [lookupsEnabled]);
+
+  const packIndex = useMemo(() => indexPacks(packs), [packs]);
+
+  const courses = useMemo(
+    () => [...new Set([DEFAULT_COURSE, course, ...savedTerms.map(term => term.course)])].sort(),
+    [course, savedTerms]
+  );
+
+  const lookup = (term: string) => lookupTerm(term, packIndex, savedTerms, course);
+
+  // Saving a term already in this course updates its definition instead
+  const saveTerm = (entry: GlossaryEntry, context?: string) => {
+    setSavedTerms(prev => {
+      const existing = prev.find(
+        term => term.course === course && term.term.toLowerCase() === entry.term.toLowerCase()
+      );
+      if (existing) {
+        return prev.map(term => (term === existing ? { ...term, definition: entry.definition } : term));
+      }
+      return [...prev, { ...entry, id: createTermId(), course, context, added: Date.now() }];
+    });
+  };
+
+  const updateTerm = (id: string, changes: Partial<Omit<SavedTerm, 'id'>>) =>
+    setSavedTerms(prev => prev.map(term => (term.id === id ? { ...term, ...changes } : term)));
+
+  const deleteTerm = (id: string) => setSavedTerms(prev => prev.filter(term => term.id !== id));
+
+  const importPack = async (file: File) => {
+    const entries = parseDictionary(await file.text(), file.name);
+    const pack: DictionaryPack = {
+      id: createDocumentId(),
+      name: file.name.replace(/\.[^.]+$/, ''),
+      imported: Date.now(),
+      entries
+    };
+    await saveDictionary(pack);
+    setPacks(prev => [...prev, pack]);
+    return pack;
+  };
+
+  const deletePack = async (id: string) => {
+    await removeDictionary(id);
+    setPacks(prev => prev.filter(pack => pack.id !== id));
+  };
+
+  const value: GlossaryContextType = {
+    packs,
+    savedTerms,
+    course,
+    courses,
+    setCourse,
+    lookupsEnabled,
+    setLookupsEnabled,
+    lookup,
+    saveTerm,
+    updateTerm,
+    deleteTerm,
+    importPack,
+    deletePack
+  };
+
+  return <GlossaryContext.Provider value={value}>{children}</GlossaryContext.Provider>;
+}
+
+/**
+ * Hook to access the glossary.  Throws an error if used outside of
+ * GlossaryProvider.
+ */
+export function useGlossary(): GlossaryContextType {
+  const context = useContext(GlossaryContext);
+  if (!context) {
+    throw new Error('useGlossary must be used within a GlossaryProvider');
+  }
+  return context;
+}
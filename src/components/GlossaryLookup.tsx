@@ -0,0 +1,315 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useGlossary } from './GlossaryContext';
+import { wordAtPoint } from '../lib/glossary';
+import { splitSentences } from '../lib/speech';
+
+/**
+ * GlossaryLookup Component
+ *
+ * Definitions for words in a block of text, without leaving the page.
+ * Attach it to the element holding the text.  Tap and hover lookups follow
+ * the glossary's on/off setting; passed-in requests always show.
+ *
+ * Features:
+ * - Tap or click a word to see its definitions
+ * - Hovering a word with a mouse shows its definition after a short pause
+ *   (only for words that have one)
+ * - Save a definition to the current course's glossary, or write your own
+ * - A phrase can be looked up by passing it in (e.g. from a selection)
+ */
+
+export interface LookupRequest {
+  term: string;
+  rect: DOMRect; // where the term is on screen
+  context?: string; // the sentence it appears in
+}
+
+interface GlossaryLookupProps {
+  containerRef: React.RefObject<HTMLElement>;
+  enabled?: boolean;
+  request?: LookupRequest | null; // look up a phrase, e.g. the selected text
+  onClose?: () => void;
+}
+
+const HOVER_DELAY = 500;
+const POPOVER_WIDTH = 320;
+
+/** The sentence around a word, from the element it is in. */
+function sentenceAround(range: Range): string | undefined {
+  const holder = range.startContainer.parentElement?.closest('[data-piece], p, li, blockquote, td, dd');
+  const text = holder?.textContent;
+  if (!holder || !text) return undefined;
+  const before = document.createRange();
+  before.setStart(holder, 0);
+  before.setEnd(range.startContainer, range.startOffset);
+  const offset = before.toString().length;
+  const sentence = splitSentences(text).find(s => s.start <= offset && offset < s.end);
+  return sentence ? text.slice(sentence.start, sentence.end) : undefined;
+}
+
+export default function GlossaryLookup({ containerRef, enabled = true, request = null, onClose }: GlossaryLookupProps) {
+  const { lookup, saveTerm, course, lookupsEnabled } = useGlossary();
+  const [current, setCurrent] = useState<(LookupRequest & { pinned: boolean }) | null>(null);
+  const [ownDefinition, setOwnDefinition] = useState<string | null>(null);
+  const popoverRef = useRef<HTMLDivElement>(null);
+  const lookupRef = useRef(lookup);
+  lookupRef.current = lookup;
+
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  const close = useCallback(() => {
+    setCurrent(null);
+    setOwnDefinition(null);
+    onCloseRef.current?.();
+  }, []);
+
+  useEffect(() => {
+    if (request) {
+      setCurrent({ ...request, pinned: true });
+      setOwnDefinition(null);
+    }
+  }, [request]);
+
+  // Tap or click a word; hover with a mouse
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !enabled || !lookupsEnabled) return;
+    let hoverTimer: number | undefined;
+
+    const handleClick = (e: MouseEvent) => {
+      if (!window.getSelection()?.isCollapsed) return;
+      if ((e.target as Element).closest('button, a, input, textarea, select, .doc-highlight')) return;
+      const found = wordAtPoint(e.clientX, e.clientY);
+      if (!found) {
+        setCurrent(null);
+        return;
+      }
+      setCurrent({
+        term: found.word,
+        rect: found.range.getBoundingClientRect(),
+        context: sentenceAround(found.range),
+        pinned: true
+      });
+      setOwnDefinition(null);
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (e.pointerType !== 'mouse') return;
+      clearTimeout(hoverTimer);
+      hoverTimer = window.setTimeout(() => {
+        const found = wordAtPoint(e.clientX, e.clientY);
+        setCurrent(prev => {
+          if (prev?.pinned) return prev;
+          if (!found || !lookupRef.current(found.word).length) return null;
+          return { term: found.word, rect: found.range.getBoundingClientRect(), context: sentenceAround(found.range), pinned: false };
+        });
+      }, HOVER_DELAY);
+    };
+
+    const handlePointerLeave = () => {
+      clearTimeout(hoverTimer);
+      setCurrent(prev => (prev?.pinned ? prev : null));
+    };
+
+    container.addEventListener('click', handleClick);
+    container.addEventListener('pointermove', handlePointerMove);
+    container.addEventListener('pointerleave', handlePointerLeave);
+    return () => {
+      clearTimeout(hoverTimer);
+      container.removeEventListener('click', handleClick);
+      container.removeEventListener('pointermove', handlePointerMove);
+      container.removeEventListener('pointerleave', handlePointerLeave);
+    };
+  }, [containerRef, enabled, lookupsEnabled]);
+
+  // Escape, scrolling or clicking elsewhere closes the popover
+  useEffect(() => {
+    if (!current) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') close();
+    };
+    const handlePointerDown = (e: PointerEvent) => {
+      const target = e.target as Node;
+      if (popoverRef.current?.contains(target) || containerRef.current?.contains(target)) return;
+      close();
+    };
+    const handleScroll = (e: Event) => {
+      if (!popoverRef.current?.contains(e.target as Node)) close();
+    };
+    window.addEventListener('keydown', handleKey);
+    window.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('scroll', handleScroll, true);
+    return () => {
+      window.removeEventListener('keydown', handleKey);
+      window.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('scroll', handleScroll, true);
+    };
+  }, [current, close, containerRef]);
+
+  if (!current) return null;
+
+  const definitions = lookup(current.term);
+  const savedHere = definitions.some(definition => definition.saved?.course === course);
+  const below = current.rect.bottom + 8;
+  const style: React.CSSProperties = {
+    left: Math.max(8, Math.min(current.rect.left, window.innerWidth - POPOVER_WIDTH - 8)),
+    ...(below + 200 > window.innerHeight && current.rect.top > 220
+      ? { bottom: window.innerHeight - current.rect.top + 8 }
+      : { top: below })
+  };
+
+  const saveOwn = () => {
+    if (!ownDefinition?.trim()) return;
+    saveTerm({ term: current.term, definition: ownDefinition.trim() }, current.context);
+    setOwnDefinition(null);
+  };
+
+  return createPortal(
+    <div
+      ref={popoverRef}
+      className="glossary-popover"
+      style={style}
+      role="dialog"
+      aria-label={`Definition of ${current.term}`}
+      onPointerEnter={() => setCurrent(prev => prev && { ...prev, pinned: true })}
+    >
+      <style>{`
+        .glossary-popover {
+          position: fixed;
+          z-index: 10000;
+          width: ${POPOVER_WIDTH}px;
+          max-height: 50vh;
+          overflow-y: auto;
+          padding: 12px 14px;
+          background: var(--surface-1, #fff);
+          border: 1px solid var(--surface-3, #ddd);
+          border-radius: 10px;
+          box-shadow: 0 8px 24px rgba(0, 0, 0, 0.2);
+          color: var(--text-1, #111);
+          font-size: 14px;
+          line-height: 1.5;
+        }
+
+        .glossary-popover-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          margin-bottom: 6px;
+        }
+
+        .glossary-term {
+          font-size: 16px;
+          font-weight: 600;
+        }
+
+        .glossary-close,
+        .glossary-link {
+          padding: 0 4px;
+          background: none;
+          border: none;
+          color: var(--text-2, #666);
+          cursor: pointer;
+          font-size: 13px;
+        }
+
+        .glossary-link {
+          padding: 0;
+          color: var(--brand-400, #2563eb);
+        }
+
+        .glossary-definition {
+          margin: 0 0 10px;
+        }
+
+        .glossary-source {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 8px;
+          font-size: 12px;
+          color: var(--text-2, #666);
+        }
+
+        .glossary-empty {
+          margin: 0 0 8px;
+          color: var(--text-2, #666);
+        }
+
+        .glossary-own textarea {
+          width: 100%;
+          min-height: 60px;
+          margin-bottom: 6px;
+          padding: 6px 8px;
+          background: var(--surface-2, #f5f5f5);
+          border: 1px solid var(--surface-3, #ddd);
+          border-radius: 6px;
+          color: inherit;
+          font: inherit;
+          resize: vertical;
+        }
+
+        .glossary-save {
+          padding: 4px 12px;
+          background: var(--brand-500, #2563eb);
+          border: none;
+          border-radius: 6px;
+          color: #fff;
+          cursor: pointer;
+          font-size: 13px;
+        }
+
+        .glossary-save:disabled {
+          opacity: 0.5;
+          cursor: default;
+        }
+      `}</style>
+
+      <div className="glossary-popover-header">
+        <span className="glossary-term">{current.term}</span>
+        <button className="glossary-close" onClick={close} aria-label="Close definition">
+          ✕
+        </button>
+      </div>
+
+      {definitions.map((definition, index) => (
+        <div key={index}>
+          <p className="glossary-definition">{definition.definition}</p>
+          <div className="glossary-source">
+            <span>
+              {definition.saved ? `📚 Your glossary: ${definition.source}` : `📖 ${definition.source}`}
+            </span>
+            {!definition.saved && !savedHere && (
+              <button className="glossary-link" onClick={() => saveTerm(definition, current.context)}>
+                ☆ Save to {course}
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {!definitions.length && <p className="glossary-empty">No definition found for this word.</p>}
+
+      {ownDefinition === null ? (
+        <button className="glossary-link" onClick={() => setOwnDefinition(definitions[0]?.saved?.definition ?? '')}>
+          {savedHere ? '✏️ Edit your definition' : '✏️ Write your own definition'}
+        </button>
+      ) : (
+        <div className="glossary-own">
+          <textarea
+            value={ownDefinition}
+            onChange={(e) => setOwnDefinition(e.target.value)}
+            placeholder={`What does “${current.term}” mean?`}
+            aria-label="Your definition"
+            autoFocus
+          />
+          <button className="glossary-save" onClick={saveOwn} disabled={!ownDefinition.trim()}>
+            Save to {course}
+          </button>
+        </div>
+      )}
+    </div>,
+    document.body
+  );
+}
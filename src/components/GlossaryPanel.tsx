@@ -0,0 +1,382 @@
+import React, { useRef, useState } from 'react';
+import { useGlossary } from './GlossaryContext';
+import { glossaryToCsv, glossaryToMarkdown, normaliseTerm } from '../lib/glossary';
+
+/**
+ * GlossaryPanel Component
+ *
+ * Manages where definitions come from and reviews the terms the user has
+ * saved while reading.
+ *
+ * Features:
+ * - Turn tap and hover lookups on or off
+ * - Choose the course new terms are saved to, or start a new one
+ * - Import offline dictionary packs (JSON or CSV) and remove them
+ * - Review, search, edit and delete the course's saved terms
+ * - "Hide definitions" to test yourself on the list
+ * - Export the glossary as CSV or as a Markdown study sheet
+ */
+
+const NEW_COURSE = '__new__';
+
+export default function GlossaryPanel() {
+  const {
+    packs,
+    savedTerms,
+    course,
+    courses,
+    setCourse,
+    lookupsEnabled,
+    setLookupsEnabled,
+    updateTerm,
+    deleteTerm,
+    importPack,
+    deletePack
+  } = useGlossary();
+  const [search, setSearch] = useState('');
+  const [hideDefinitions, setHideDefinitions] = useState(false);
+  const [revealed, setRevealed] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<{ id: string; definition: string } | null>(null);
+  const [importStatus, setImportStatus] = useState<{ error: boolean; message: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const query = normaliseTerm(search);
+  const courseTerms = savedTerms
+    .filter(term => term.course === course)
+    .filter(term => !query || normaliseTerm(`${term.term} ${term.definition}`).includes(query))
+    .sort((a, b) => a.term.localeCompare(b.term));
+
+  const changeCourse = (value: string) => {
+    if (value !== NEW_COURSE) {
+      setCourse(value);
+      return;
+    }
+    const name = window.prompt('Name of the new course')?.trim();
+    if (name) setCourse(name);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const pack = await importPack(file);
+      setImportStatus({ error: false, message: `Imported ${pack.entries.length} terms from “${pack.name}”.` });
+    } catch (error) {
+      const message = error instanceof SyntaxError ? 'This file is not valid JSON.' : (error as Error).message;
+      setImportStatus({ error: true, message: `Could not import ${file.name}: ${message}` });
+    }
+  };
+
+  const exportGlossary = (format: 'csv' | 'md') => {
+    const terms = savedTerms.filter(term => term.course === course);
+    const text = format === 'csv' ? glossaryToCsv(terms) : glossaryToMarkdown(terms);
+    const url = URL.createObjectURL(new Blob([text], { type: format === 'csv' ? 'text/csv' : 'text/markdown' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${course} glossary.${format}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const saveEdit = () => {
+    if (!editing) return;
+    if (editing.definition.trim()) updateTerm(editing.id, { definition: editing.definition.trim() });
+    setEditing(null);
+  };
+
+  const toggleRevealed = (id: string) =>
+    setRevealed(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  return (
+    <div className="glossary-panel">
+      <style>{`
+        .glossary-panel {
+          display: flex;
+          flex-direction: column;
+          gap: 12px;
+          padding: 16px;
+          margin-bottom: 16px;
+          background: var(--surface-2, #f8f8f8);
+          border: 1px solid var(--surface-3, #ddd);
+          border-radius: 12px;
+          color: var(--text-1, #111);
+          font-size: 14px;
+        }
+
+        .glossary-row {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 8px;
+        }
+
+        .glossary-label {
+          font-size: 12px;
+          color: var(--text-2, #666);
+        }
+
+        .glossary-panel select,
+        .glossary-panel input[type='search'],
+        .glossary-panel textarea {
+          padding: 6px 8px;
+          background: var(--surface-1, #fff);
+          border: 1px solid var(--surface-3, #ddd);
+          border-radius: 6px;
+          color: inherit;
+          font: inherit;
+        }
+
+        .glossary-panel input[type='search'] {
+          flex: 1;
+          min-width: 120px;
+        }
+
+        .glossary-btn {
+          padding: 4px 10px;
+          background: var(--surface-1, #fff);
+          border: 1px solid var(--surface-3, #ddd);
+          border-radius: 6px;
+          color: inherit;
+          cursor: pointer;
+          font-size: 13px;
+        }
+
+        .glossary-btn:hover {
+          border-color: var(--brand-400, #2563eb);
+        }
+
+        .glossary-btn:disabled {
+          opacity: 0.5;
+          cursor: default;
+        }
+
+        .glossary-status {
+          margin: 0;
+          font-size: 13px;
+          color: var(--ok-500, #16a34a);
+        }
+
+        .glossary-status.error {
+          color: var(--bad-500, #dc2626);
+        }
+
+        .glossary-packs,
+        .glossary-terms {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+          margin: 0;
+          padding: 0;
+          list-style: none;
+        }
+
+        .glossary-pack {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 8px;
+          font-size: 13px;
+        }
+
+        .glossary-item {
+          padding: 8px 10px;
+          background: var(--surface-1, #fff);
+          border-radius: 8px;
+        }
+
+        .glossary-item-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: baseline;
+          gap: 8px;
+        }
+
+        .glossary-item-actions {
+          display: flex;
+          gap: 4px;
+        }
+
+        .glossary-item-definition {
+          margin: 4px 0 0;
+          color: var(--text-1, #111);
+        }
+
+        .glossary-item-definition.hidden {
+          display: block;
+          padding: 0;
+          background: none;
+          border: none;
+          font: inherit;
+          color: var(--text-2, #666);
+          font-style: italic;
+          cursor: pointer;
+        }
+
+        .glossary-item-context {
+          margin: 4px 0 0;
+          font-size: 12px;
+          color: var(--text-2, #666);
+        }
+
+        .glossary-item textarea {
+          width: 100%;
+          min-height: 60px;
+          margin-top: 6px;
+        }
+
+        .glossary-empty-list {
+          margin: 0;
+          font-size: 13px;
+          color: var(--text-2, #666);
+        }
+      `}</style>
+
+      <label className="glossary-row">
+        <input type="checkbox" checked={lookupsEnabled} onChange={(e) => setLookupsEnabled(e.target.checked)} />
+        Show definitions when I tap a word or rest the pointer on it
+      </label>
+
+      <div className="glossary-row">
+        <label className="glossary-label" htmlFor="glossary-course">
+          Course
+        </label>
+        <select id="glossary-course" value={course} onChange={(e) => changeCourse(e.target.value)}>
+          {courses.map(name => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+          <option value={NEW_COURSE}>+ New course…</option>
+        </select>
+      </div>
+
+      <div>
+        <div className="glossary-row">
+          <span className="glossary-label">Dictionary packs (used offline)</span>
+          <button className="glossary-btn" onClick={() => fileInputRef.current?.click()}>
+            📥 Import JSON or CSV
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.csv,.tsv,.txt"
+            onChange={handleImport}
+            style={{ display: 'none' }}
+          />
+        </div>
+        {importStatus && <p className={`glossary-status ${importStatus.error ? 'error' : ''}`}>{importStatus.message}</p>}
+        {packs.length > 0 ? (
+          <ul className="glossary-packs">
+            {packs.map(pack => (
+              <li key={pack.id} className="glossary-pack">
+                <span>
+                  📖 {pack.name} ({pack.entries.length} terms)
+                </span>
+                <button
+                  className="glossary-btn"
+                  onClick={() => deletePack(pack.id)}
+                  aria-label={`Remove dictionary ${pack.name}`}
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="glossary-empty-list">
+            No packs yet. A CSV needs a term column and a definition column; JSON can map terms to definitions.
+          </p>
+        )}
+      </div>
+
+      <div className="glossary-row">
+        <span className="glossary-label">
+          {course}: {savedTerms.filter(term => term.course === course).length} saved terms
+        </span>
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search saved terms"
+          aria-label="Search saved terms"
+        />
+        <button
+          className="glossary-btn"
+          onClick={() => {
+            setHideDefinitions(!hideDefinitions);
+            setRevealed(new Set());
+          }}
+        >
+          {hideDefinitions ? '👁️ Show definitions' : '🙈 Hide definitions'}
+        </button>
+        <button className="glossary-btn" onClick={() => exportGlossary('csv')} disabled={!courseTerms.length}>
+          Export CSV
+        </button>
+        <button className="glossary-btn" onClick={() => exportGlossary('md')} disabled={!courseTerms.length}>
+          Export Markdown
+        </button>
+      </div>
+
+      {courseTerms.length > 0 ? (
+        <ul className="glossary-terms">
+          {courseTerms.map(term => (
+            <li key={term.id} className="glossary-item">
+              <div className="glossary-item-header">
+                <strong>{term.term}</strong>
+                <span className="glossary-item-actions">
+                  <button
+                    className="glossary-btn"
+                    onClick={() => setEditing({ id: term.id, definition: term.definition })}
+                    aria-label={`Edit ${term.term}`}
+                  >
+                    ✏️
+                  </button>
+                  <button className="glossary-btn" onClick={() => deleteTerm(term.id)} aria-label={`Delete ${term.term}`}>
+                    🗑️
+                  </button>
+                </span>
+              </div>
+              {editing?.id === term.id ? (
+                <>
+                  <textarea
+                    value={editing.definition}
+                    onChange={(e) => setEditing({ ...editing, definition: e.target.value })}
+                    aria-label={`Definition of ${term.term}`}
+                    autoFocus
+                  />
+                  <div className="glossary-row">
+                    <button className="glossary-btn" onClick={saveEdit}>
+                      Save
+                    </button>
+                    <button className="glossary-btn" onClick={() => setEditing(null)}>
+                      Cancel
+                    </button>
+                  </div>
+                </>
+              ) : hideDefinitions && !revealed.has(term.id) ? (
+                <button className="glossary-item-definition hidden" onClick={() => toggleRevealed(term.id)}>
+                  Tap to reveal the definition
+                </button>
+              ) : (
+                <p className="glossary-item-definition">{term.definition}</p>
+              )}
+              {term.context && !hideDefinitions && <p className="glossary-item-context">“{term.context}”</p>}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="glossary-empty-list">
+          {query
+            ? 'No saved terms match your search.'
+            : 'Tap a word while reading and choose “Save” to add it here.'}
+        </p>
+      )}
+    </div>
+  );
+}
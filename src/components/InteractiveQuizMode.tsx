@@ -203,7 +203,9 @@ export function InteractiveQuizMode(): JSX.Element {
           </span>
         </div>
         {/* Question Stem */}
-        <p className="mb-4 font-medium text-gray-800">{current.question}</p>
+        <p className="mb-4 font-medium text-gray-800" data-bionic>
+          {current.question}
+        </p>
         {/* Options */}
         <div className="space-y-2 mb-4">
           {current.options.map((opt, idx) => {
@@ -0,0 +1,254 @@
+import React, { useRef, useState } from 'react';
+import { useSpeech } from './SpeechContext';
+import { createRuleId, lexiconToJson, parseLexicon, PronunciationRule, ruleError } from '../lib/pronunciation';
+
+/**
+ * PronunciationEditor Component
+ *
+ * Edits a list of pronunciation rules: the user's own, in the voice
+ * settings, or a document's, in the document reader.
+ *
+ * Features:
+ * - Say a word or phrase differently ("ATP" -> "A T P"), matching whole
+ *   words, or use a regular expression with $1 for captured groups
+ * - Optional case-sensitive matching, with invalid patterns explained
+ * - Hear a rule with the current voice
+ * - Import rules from JSON or CSV and export them as JSON
+ */
+
+interface PronunciationEditorProps {
+  rules: PronunciationRule[];
+  onChange: (rules: PronunciationRule[]) => void;
+  title?: string;
+}
+
+export default function PronunciationEditor({ rules, onChange, title = 'Pronunciations' }: PronunciationEditorProps) {
+  const { speak } = useSpeech();
+  const [draft, setDraft] = useState({ match: '', say: '' });
+  const [importStatus, setImportStatus] = useState<{ error: boolean; message: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateRule = (ruleId: string, changes: Partial<PronunciationRule>) =>
+    onChange(rules.map(rule => (rule.id === ruleId ? { ...rule, ...changes } : rule)));
+
+  const addRule = () => {
+    if (!draft.match.trim()) return;
+    onChange([...rules, { id: createRuleId(), match: draft.match.trim(), say: draft.say.trim() }]);
+    setDraft({ match: '', say: '' });
+  };
+
+  const testRule = (rule: PronunciationRule) =>
+    speak({ owner: 'lexicon', label: `${rule.match} → ${rule.say}`, items: [rule.say || rule.match] });
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseLexicon(await file.text());
+      // An imported rule replaces one for the same text
+      const replaced = new Set(imported.map(rule => rule.match));
+      onChange([...rules.filter(rule => !replaced.has(rule.match)), ...imported]);
+      setImportStatus({ error: false, message: `Imported ${imported.length} rules from ${file.name}.` });
+    } catch (error) {
+      const message = error instanceof SyntaxError ? 'This file is not valid JSON.' : (error as Error).message;
+      setImportStatus({ error: true, message: `Could not import ${file.name}: ${message}` });
+    }
+  };
+
+  const exportRules = () => {
+    const url = URL.createObjectURL(new Blob([lexiconToJson(rules)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'pronunciations.json';
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  return (
+    <div className="pronunciation-editor">
+      <style>{`
+        .pronunciation-editor {
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+          font-size: 13px;
+        }
+
+        .pronunciation-header {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+        }
+
+        .pronunciation-title {
+          flex: 1;
+          font-size: 12px;
+          color: var(--text-2);
+        }
+
+        .pronunciation-rules {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+          margin: 0;
+          padding: 0;
+          list-style: none;
+        }
+
+        .pronunciation-rule {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 6px;
+        }
+
+        .pronunciation-editor input[type='text'] {
+          flex: 1;
+          min-width: 80px;
+          padding: 4px 6px;
+          background: var(--surface-2);
+          border: 1px solid var(--surface-3);
+          border-radius: 6px;
+          color: var(--text-1);
+          font: inherit;
+        }
+
+        .pronunciation-editor .pronunciation-option {
+          display: flex;
+          align-items: center;
+          gap: 4px;
+          margin: 0;
+          font-size: 12px;
+          color: var(--text-2);
+        }
+
+        .pronunciation-btn {
+          padding: 4px 8px;
+          background: var(--surface-2);
+          border: 1px solid var(--surface-3);
+          border-radius: 6px;
+          color: var(--text-1);
+          cursor: pointer;
+          font-size: 13px;
+        }
+
+        .pronunciation-btn:disabled {
+          opacity: 0.5;
+          cursor: default;
+        }
+
+        .pronunciation-error,
+        .pronunciation-status {
+          flex-basis: 100%;
+          margin: 0;
+          font-size: 12px;
+          color: var(--text-2);
+        }
+
+        .pronunciation-error,
+        .pronunciation-status.error {
+          color: var(--warn-500);
+        }
+      `}</style>
+
+      <div className="pronunciation-header">
+        <span className="pronunciation-title">{title}</span>
+        <button className="pronunciation-btn" onClick={() => fileInputRef.current?.click()} title="Import JSON or CSV">
+          📥 Import
+        </button>
+        <button className="pronunciation-btn" onClick={exportRules} disabled={!rules.length} title="Export as JSON">
+          📤 Export
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.csv,.txt"
+          onChange={handleImport}
+          style={{ display: 'none' }}
+        />
+      </div>
+      {importStatus && (
+        <p className={`pronunciation-status ${importStatus.error ? 'error' : ''}`}>{importStatus.message}</p>
+      )}
+
+      <ul className="pronunciation-rules">
+        {rules.map(rule => {
+          const error = ruleError(rule);
+          return (
+            <li key={rule.id} className="pronunciation-rule">
+              <input
+                type="text"
+                value={rule.match}
+                onChange={(e) => updateRule(rule.id, { match: e.target.value })}
+                aria-label="Text to match"
+                aria-invalid={!!error}
+              />
+              →
+              <input
+                type="text"
+                value={rule.say}
+                onChange={(e) => updateRule(rule.id, { say: e.target.value })}
+                aria-label={`Say ${rule.match} as`}
+              />
+              <label className="pronunciation-option">
+                <input
+                  type="checkbox"
+                  checked={!!rule.regex}
+                  onChange={(e) => updateRule(rule.id, { regex: e.target.checked })}
+                />
+                Regex
+              </label>
+              <label className="pronunciation-option">
+                <input
+                  type="checkbox"
+                  checked={!!rule.caseSensitive}
+                  onChange={(e) => updateRule(rule.id, { caseSensitive: e.target.checked })}
+                />
+                Match case
+              </label>
+              <button className="pronunciation-btn" onClick={() => testRule(rule)} aria-label={`Hear ${rule.match}`}>
+                🔊
+              </button>
+              <button
+                className="pronunciation-btn"
+                onClick={() => onChange(rules.filter(other => other.id !== rule.id))}
+                aria-label={`Delete rule for ${rule.match}`}
+              >
+                🗑️
+              </button>
+              {error && <p className="pronunciation-error">{error}</p>}
+            </li>
+          );
+        })}
+      </ul>
+
+      <form
+        className="pronunciation-rule"
+        onSubmit={(e) => {
+          e.preventDefault();
+          addRule();
+        }}
+      >
+        <input
+          type="text"
+          value={draft.match}
+          onChange={(e) => setDraft({ ...draft, match: e.target.value })}
+          placeholder="Word, e.g. ATP"
+          aria-label="New word to match"
+        />
+        →
+        <input
+          type="text"
+          value={draft.say}
+          onChange={(e) => setDraft({ ...draft, say: e.target.value })}
+          placeholder="Say it as, e.g. A T P"
+          aria-label="Say the new word as"
+        />
+        <button type="submit" className="pronunciation-btn" disabled={!draft.match.trim()}>
+          + Add
+        </button>
+      </form>
+    </div>
+  );
+}
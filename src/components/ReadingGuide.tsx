@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { adjacentLine, lineAtPoint, lineDuration, scrollLineIntoView, TextLine } from '../lib/readingLines';
 
 /**
  * ReadingGuide Component
@@ -8,91 +9,458 @@ import React, { useState, useEffect } from 'react';
  * helpful for users with dyslexia, ADHD, or other reading challenges.
  *
  * Features:
- * - Horizontal guide line that follows cursor
- * - Optional focus mode that dims surrounding text
- * - Customizable colors and opacity
- * - Keyboard navigation support
+ * - Snaps to the line of text under the cursor, using the browser's own
+ *   line boxes, so it never sits between two lines
+ * - Arrow keys step exactly one line up or down, scrolling as needed
+ * - Follows a hovering pen like a mouse; on touch screens, tap a line to
+ *   place the guide and drag its handle to move it, so scrolling is left
+ *   alone
+ * - Optional pacer that moves down a line at a time at a chosen reading
+ *   speed, and waits while the pointer rests on the current line
+ * - Optional dimming of the text above and below
+ * - Customizable color, band height and opacity
  * - Auto-hide when not reading
  */
 
-interface ReadingGuideProps {
+interface GuideLook {
   color?: string;
-  opacity?: number;
-  height?: number;
-  focusMode?: boolean;
+  opacity?: number; // of the guide line; the band is tinted half as strongly
+  height?: number; // least band height, and the height away from text
+  dimming?: number; // 0-1: how much to darken around the band; 0 for none
+}
+
+interface ReadingGuideProps extends GuideLook {
   autoHide?: boolean;
   autoHideDelay?: number;
+  pacerWpm?: number; // words per minute for the pacer; 0 for no pacer
+}
+
+/**
+ * How the guide is placed: following the cursor (ReadingGuide), a ruler
+ * dragged into place, or a fixed window the text is scrolled through
+ * (both ReadingRuler).
+ */
+export type GuideMode = 'cursor' | 'ruler' | 'window';
+
+export interface GuideSettings {
+  mode: GuideMode;
+  color: string;
+  height: number;
+  opacity: number;
+  dimming: number;
+  autoHideDelay: number; // ms; 0 to never hide
+}
+
+export const DEFAULT_GUIDE: GuideSettings = {
+  mode: 'cursor',
+  color: '#FFD700',
+  height: 40,
+  opacity: 0.3,
+  dimming: 0.3,
+  autoHideDelay: 3000,
+};
+export const GUIDE_COLORS = ['#FFD700', '#FF9F43', '#FF6B9D', '#4FC3F7', '#7BD88F', '#B39DDB'];
+export const GUIDE_HEIGHT_RANGE = { min: 24, max: 160, step: 4 };
+export const GUIDE_OPACITY_RANGE = { min: 0.1, max: 1, step: 0.05 };
+export const GUIDE_DIMMING_RANGE = { min: 0, max: 0.8, step: 0.05 };
+export const GUIDE_AUTO_HIDE_DELAYS = [0, 1000, 3000, 5000, 10000];
+
+export interface PacerSettings {
+  enabled: boolean;
+  wpm: number;
+}
+
+export const DEFAULT_PACER: PacerSettings = { enabled: false, wpm: 200 };
+export const PACER_WPM_RANGE = { min: 80, max: 400, step: 10 };
+
+// Where the guide is: a line of text, or a plain band away from any text
+interface Band {
+  top: number;
+  bottom: number;
+  x: number;
+  line: TextLine | null;
+}
+
+// Space between the text and the edge of the highlighted band
+const PADDING = 4;
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// A tap on a control is for the control, not for placing the guide
+const isControl = (target: EventTarget | null) =>
+  target instanceof Element &&
+  !!target.closest(
+    'a, button, input, textarea, select, label, summary, [role="button"], [contenteditable="true"], .reading-guide-handle'
+  );
+
+// How far (px) and how long (ms) a touch can move and last and still be a tap
+const TAP_SLOP = 10;
+const TAP_TIME = 500;
+
+// Styles shared by the guide, the ruler and the settings preview
+const bandStyles = `
+  .reading-guide-line {
+    position: absolute;
+    width: 100%;
+    left: 0;
+    transition: top 0.1s ease-out;
+    pointer-events: none;
+  }
+
+  .reading-guide-overlay-top,
+  .reading-guide-overlay-bottom {
+    position: absolute;
+    width: 100%;
+    left: 0;
+    backdrop-filter: blur(2px);
+    pointer-events: none;
+    transition: opacity 0.3s ease;
+  }
+
+  .reading-guide-overlay-top {
+    top: 0;
+  }
+
+  .reading-guide-focus-area {
+    position: absolute;
+    width: 100%;
+    left: 0;
+    pointer-events: none;
+  }
+
+  /* Dragged by touch, pen or mouse; kept at the edge, clear of the text */
+  .reading-guide-handle {
+    position: absolute;
+    right: 10px;
+    width: 30px;
+    height: 30px;
+    border-radius: 50%;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    cursor: grab;
+    pointer-events: auto;
+    touch-action: none;
+    box-shadow: 0 2px 8px rgba(0, 0, 0, 0.2);
+    transform: translateY(-50%);
+    transition: transform 0.2s;
+  }
+
+  .reading-guide-handle:hover,
+  .reading-guide-handle.dragging {
+    transform: translateY(-50%) scale(1.1);
+  }
+
+  .reading-guide-handle.dragging {
+    cursor: grabbing;
+  }
+
+  .reading-guide-handle svg {
+    width: 16px;
+    height: 16px;
+    color: #333;
+  }
+
+  @media (pointer: coarse) {
+    .reading-guide-handle {
+      width: 44px;
+      height: 44px;
+    }
+  }
+
+  @media (prefers-reduced-motion: reduce) {
+    .reading-guide-line,
+    .reading-guide-handle {
+      transition: none;
+    }
+  }
+
+  /* Accessibility: High contrast mode adjustments */
+  @media (prefers-contrast: high) {
+    .reading-guide-line {
+      border-top: 2px solid yellow !important;
+      border-bottom: 2px solid yellow !important;
+    }
+  }
+`;
+
+/**
+ * The band itself: dimming above and below it, a tint over it and a guide
+ * line under it.  top, bottom and extent (the height of the area it is
+ * drawn in) are relative to its positioned parent.
+ */
+function GuideBand({
+  top,
+  bottom,
+  extent,
+  color = DEFAULT_GUIDE.color,
+  opacity = DEFAULT_GUIDE.opacity,
+  dimming = DEFAULT_GUIDE.dimming,
+}: GuideLook & { top: number; bottom: number; extent: number }) {
+  const shade = { background: `rgba(0, 0, 0, ${dimming})` };
+  return (
+    <>
+      {dimming > 0 && (
+        <>
+          <div className="reading-guide-overlay-top" style={{ ...shade, height: `${Math.max(0, top)}px` }} />
+          <div
+            className="reading-guide-overlay-bottom"
+            style={{ ...shade, top: `${bottom}px`, height: `${Math.max(0, extent - bottom)}px` }}
+          />
+        </>
+      )}
+
+      <div
+        className="reading-guide-focus-area"
+        style={{
+          top: `${top}px`,
+          height: `${bottom - top}px`,
+          background: color,
+          opacity: opacity / 2,
+        }}
+      />
+
+      {/* Main guide line, under the text */}
+      <div
+        className="reading-guide-line"
+        style={{
+          top: `${bottom}px`,
+          height: '2px',
+          background: color,
+          opacity: opacity,
+          boxShadow: `0 0 10px ${color}`,
+        }}
+      />
+    </>
+  );
+}
+
+function GuideHandle({
+  centre,
+  color,
+  dragging,
+  onDrag,
+  onDragEnd,
+}: {
+  centre: number;
+  color: string;
+  dragging: boolean;
+  onDrag: (y: number) => void;
+  onDragEnd: () => void;
+}) {
+  // Pointer capture keeps the drag on the handle when the finger leaves it
+  return (
+    <div
+      className={`reading-guide-handle ${dragging ? 'dragging' : ''}`}
+      style={{ top: `${centre}px`, background: color }}
+      onPointerDown={(e) => {
+        e.preventDefault();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        onDrag(e.clientY);
+      }}
+      onPointerMove={(e) => {
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) onDrag(e.clientY);
+      }}
+      onPointerUp={onDragEnd}
+      onPointerCancel={onDragEnd}
+    >
+      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+        <path d="M7 10L12 5L17 10M7 14L12 19L17 14" />
+      </svg>
+    </div>
+  );
 }
 
 export default function ReadingGuide({
-  color = '#FFD700',
-  opacity = 0.3,
-  height = 40,
-  focusMode = true,
+  color = DEFAULT_GUIDE.color,
+  opacity = DEFAULT_GUIDE.opacity,
+  height = DEFAULT_GUIDE.height,
+  dimming = DEFAULT_GUIDE.dimming,
   autoHide = true,
-  autoHideDelay = 3000,
+  autoHideDelay = DEFAULT_GUIDE.autoHideDelay,
+  pacerWpm = 0,
 }: ReadingGuideProps) {
-  const [position, setPosition] = useState({ x: 0, y: -100 });
+  const [band, setBand] = useState<Band | null>(null);
   const [isVisible, setIsVisible] = useState(false);
-  const [hideTimeout, setHideTimeout] = useState<NodeJS.Timeout | null>(null);
+  const [hovering, setHovering] = useState(false);
+  const [touching, setTouching] = useState(false); // last used by touch, so show the handle
+  const [dragging, setDragging] = useState(false);
+  const bandRef = useRef<Band | null>(null);
+  const draggingRef = useRef(false);
+  const hideTimeout = useRef<ReturnType<typeof setTimeout>>();
+  const pacing = pacerWpm > 0;
+  bandRef.current = band;
+  draggingRef.current = dragging;
+
+  // Shows the guide and (re)starts the auto-hide timer.  The pacer keeps it
+  // up, and so does placing it by touch: there is no hover to bring it back.
+  const show = (stay = false) => {
+    setIsVisible(true);
+    clearTimeout(hideTimeout.current);
+    if (autoHide && !pacing && !stay) hideTimeout.current = setTimeout(() => setIsVisible(false), autoHideDelay);
+  };
+
+  const bandAt = (x: number, y: number): Band => {
+    const line = lineAtPoint(x, y);
+    return line ? { top: line.top, bottom: line.bottom, x, line } : { top: y - height / 2, bottom: y + height / 2, x, line: null };
+  };
+
+  // Moves to a line, scrolling it into view first if it is near the edge
+  const moveTo = (line: TextLine) => {
+    const moved = scrollLineIntoView(line);
+    const shifted = { ...line, top: line.top - moved, bottom: line.bottom - moved };
+    setBand({ top: shifted.top, bottom: shifted.bottom, x: bandRef.current?.x ?? (line.left + line.right) / 2, line: shifted });
+    show(touching);
+  };
+
+  // Dragging the handle: follow lines in the column the guide is on
+  const dragTo = (y: number) => {
+    setDragging(true);
+    setHovering(true); // hold the pacer while the guide is being moved
+    setBand(bandAt(bandRef.current?.x ?? window.innerWidth / 2, y));
+    show(true);
+  };
+
+  const endDrag = () => {
+    setDragging(false);
+    setHovering(false);
+  };
+
+  const step = (direction: 1 | -1) => {
+    const current = bandRef.current;
+    const middle = current ? (current.top + current.bottom) / 2 : window.innerHeight / 3;
+    const line = current?.line ?? lineAtPoint(current?.x ?? window.innerWidth / 2, middle);
+    if (!line) return;
+    // Without a guide on screen yet, start on the line found
+    const next = current ? adjacentLine(line, direction) : line;
+    if (next) moveTo(next);
+  };
+
+  // The listeners below stay put while these change with the settings
+  const helpersRef = useRef({ show, bandAt, moveTo, step });
+  helpersRef.current = { show, bandAt, moveTo, step };
 
   useEffect(() => {
-    const handleMouseMove = (e: MouseEvent) => {
-      setPosition({ x: e.clientX, y: e.clientY });
-      setIsVisible(true);
-
-      // Reset auto-hide timer
-      if (autoHide) {
-        if (hideTimeout) {
-          clearTimeout(hideTimeout);
+    let frame = 0;
+    let pointer = { x: 0, y: 0 };
+    let tap: { id: number; x: number; y: number; time: number } | null = null;
+
+    // A mouse, or a pen hovering above the screen.  A finger (or pen) on the
+    // screen is scrolling, and the handle is dragged on its own.
+    const handlePointerMove = (e: PointerEvent) => {
+      if (e.pointerType === 'touch' || (e.pointerType === 'pen' && e.buttons) || draggingRef.current) return;
+      setTouching(false);
+      pointer = { x: e.clientX, y: e.clientY };
+      if (frame) return;
+      frame = requestAnimationFrame(() => {
+        frame = 0;
+        const current = bandRef.current;
+        // The pacer leads; resting the pointer on its line holds it there
+        if (pacing && current?.line) {
+          setHovering(pointer.y >= current.top - PADDING && pointer.y <= current.bottom + PADDING);
+          return;
         }
-        const timeout = setTimeout(() => {
-          setIsVisible(false);
-        }, autoHideDelay);
-        setHideTimeout(timeout);
-      }
+        setBand(helpersRef.current.bandAt(pointer.x, pointer.y));
+        helpersRef.current.show();
+      });
     };
 
-    const handleKeyDown = (e: KeyboardEvent) => {
-      // Use arrow keys to move the guide
-      const step = 20;
-      let newY = position.y;
+    // Tap to place: a short touch that did not scroll
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.pointerType === 'mouse' || !e.isPrimary || isControl(e.target)) return;
+      tap = { id: e.pointerId, x: e.clientX, y: e.clientY, time: e.timeStamp };
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      const start = tap;
+      tap = null;
+      if (!start || start.id !== e.pointerId || draggingRef.current || isControl(e.target)) return;
+      if (Math.hypot(e.clientX - start.x, e.clientY - start.y) > TAP_SLOP || e.timeStamp - start.time > TAP_TIME) return;
+      setTouching(e.pointerType === 'touch');
+      setBand(helpersRef.current.bandAt(e.clientX, e.clientY));
+      helpersRef.current.show(true);
+    };
 
+    // The browser took the touch for scrolling
+    const handlePointerCancel = () => {
+      tap = null;
+    };
+
+    // Keep the guide on a line when the text moves under it
+    const handleScroll = () => {
+      if (frame) return;
+      frame = requestAnimationFrame(() => {
+        frame = 0;
+        const current = bandRef.current;
+        if (current?.line) setBand(helpersRef.current.bandAt(current.x, (current.top + current.bottom) / 2));
+      });
+    };
+
+    const handleMouseLeave = () => setHovering(false);
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isEditable(e.target) || e.altKey || e.ctrlKey || e.metaKey) return;
       switch (e.key) {
         case 'ArrowUp':
-          newY = Math.max(0, position.y - step);
+          e.preventDefault();
+          helpersRef.current.step(-1);
           break;
         case 'ArrowDown':
-          newY = Math.min(window.innerHeight, position.y + step);
+          e.preventDefault();
+          helpersRef.current.step(1);
           break;
         case 'Escape':
           setIsVisible(false);
-          return;
-      }
-
-      if (newY !== position.y) {
-        e.preventDefault();
-        setPosition({ ...position, y: newY });
-        setIsVisible(true);
+          break;
       }
     };
 
-    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerCancel);
+    window.addEventListener('scroll', handleScroll, true);
+    window.addEventListener('resize', handleScroll);
+    document.addEventListener('mouseleave', handleMouseLeave);
     window.addEventListener('keydown', handleKeyDown);
 
     return () => {
-      window.removeEventListener('mousemove', handleMouseMove);
+      cancelAnimationFrame(frame);
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerCancel);
+      window.removeEventListener('scroll', handleScroll, true);
+      window.removeEventListener('resize', handleScroll);
+      document.removeEventListener('mouseleave', handleMouseLeave);
       window.removeEventListener('keydown', handleKeyDown);
-      if (hideTimeout) {
-        clearTimeout(hideTimeout);
-      }
     };
-  }, [position, autoHide, autoHideDelay, hideTimeout]);
+  }, [pacing]);
+
+  useEffect(() => () => clearTimeout(hideTimeout.current), []);
+
+  // The pacer: move down a line once it has had time to be read
+  useEffect(() => {
+    if (!pacing || hovering || !isVisible || !band?.line) return;
+    const line = band.line;
+    const timer = setTimeout(() => {
+      const next = adjacentLine(line, 1);
+      if (next) helpersRef.current.moveTo(next);
+    }, lineDuration(line, pacerWpm));
+    return () => clearTimeout(timer);
+  }, [pacing, pacerWpm, hovering, isVisible, band]);
 
-  if (!isVisible) {
+  if (!isVisible || !band) {
     return null;
   }
 
+  // A line is padded out to the chosen band height, centred on it
+  const padding = Math.max(PADDING, (height - (band.bottom - band.top)) / 2);
+  const top = band.top - padding;
+  const bottom = band.bottom + padding;
+
   return (
     <>
       <style>{`
@@ -105,106 +473,27 @@ export default function ReadingGuide({
           pointer-events: none;
           z-index: 9999;
         }
-        
-        .reading-guide-line {
-          position: absolute;
-          width: 100%;
-          left: 0;
-          transition: top 0.1s ease-out;
-          pointer-events: none;
-        }
-        
-        .reading-guide-overlay-top,
-        .reading-guide-overlay-bottom {
-          position: absolute;
-          width: 100%;
-          left: 0;
-          background: rgba(0, 0, 0, 0.3);
-          backdrop-filter: blur(2px);
-          pointer-events: none;
-          transition: opacity 0.3s ease;
-        }
-        
-        .reading-guide-overlay-top {
-          top: 0;
-        }
-        
-        .reading-guide-focus-area {
-          position: absolute;
-          width: 100%;
-          left: 0;
-          pointer-events: none;
-          box-shadow: 0 0 20px rgba(255, 215, 0, 0.3);
-          background: linear-gradient(
-            to bottom,
-            transparent 0%,
-            rgba(255, 215, 0, 0.05) 50%,
-            transparent 100%
-          );
-        }
-        
-        @media (prefers-reduced-motion: reduce) {
-          .reading-guide-line {
-            transition: none;
-          }
-        }
-        
-        /* Accessibility: High contrast mode adjustments */
-        @media (prefers-contrast: high) {
-          .reading-guide-line {
-            border-top: 2px solid yellow !important;
-            border-bottom: 2px solid yellow !important;
-          }
-          
-          .reading-guide-overlay-top,
-          .reading-guide-overlay-bottom {
-            background: rgba(0, 0, 0, 0.5);
-          }
-        }
+        ${bandStyles}
       `}</style>
 
-      <div className="reading-guide-container">
-        {focusMode && (
-          <>
-            {/* Top overlay */}
-            <div
-              className="reading-guide-overlay-top"
-              style={{
-                height: `${Math.max(0, position.y - height / 2)}px`,
-              }}
-            />
-
-            {/* Bottom overlay */}
-            <div
-              className="reading-guide-overlay-bottom"
-              style={{
-                top: `${position.y + height / 2}px`,
-                height: `${Math.max(0, window.innerHeight - position.y - height / 2)}px`,
-              }}
-            />
-
-            {/* Focus area highlight */}
-            <div
-              className="reading-guide-focus-area"
-              style={{
-                top: `${position.y - height / 2}px`,
-                height: `${height}px`,
-              }}
-            />
-          </>
-        )}
-
-        {/* Main guide line */}
-        <div
-          className="reading-guide-line"
-          style={{
-            top: `${position.y}px`,
-            height: '2px',
-            background: color,
-            opacity: opacity,
-            boxShadow: `0 0 10px ${color}`,
-          }}
+      <div className="reading-guide-container" aria-hidden="true">
+        <GuideBand
+          top={top}
+          bottom={bottom}
+          extent={window.innerHeight}
+          color={color}
+          opacity={opacity}
+          dimming={dimming}
         />
+        {(touching || dragging) && (
+          <GuideHandle
+            centre={(top + bottom) / 2}
+            color={color}
+            dragging={dragging}
+            onDrag={dragTo}
+            onDragEnd={endDrag}
+          />
+        )}
       </div>
     </>
   );
@@ -214,106 +503,156 @@ export default function ReadingGuide({
  * ReadingRuler Component
  *
  * A simpler alternative that provides a static ruler overlay
- * that can be manually positioned by the user.
+ * that can be manually positioned by the user.  When fixed, it is a window
+ * a third of the way down the screen instead, and the text is scrolled
+ * through it.
+ *
+ * The ruler is moved by its handle (mouse, pen or touch) or with ↑/↓, a
+ * line at a time like the cursor guide; the rest of it lets clicks and
+ * scrolling through to the page.
  */
-export function ReadingRuler({ enabled }: { enabled: boolean }) {
+export function ReadingRuler({
+  enabled,
+  fixed = false,
+  color = DEFAULT_GUIDE.color,
+  opacity = DEFAULT_GUIDE.opacity,
+  height = DEFAULT_GUIDE.height,
+  dimming = DEFAULT_GUIDE.dimming,
+}: GuideLook & { enabled: boolean; fixed?: boolean }) {
   const [rulerPosition, setRulerPosition] = useState(200);
   const [isDragging, setIsDragging] = useState(false);
+  const [viewHeight, setViewHeight] = useState(window.innerHeight);
+  const positionRef = useRef(rulerPosition);
+  positionRef.current = rulerPosition;
 
   useEffect(() => {
-    if (!enabled || !isDragging) return;
+    const handleResize = () => setViewHeight(window.innerHeight);
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
 
-    const handleMouseMove = (e: MouseEvent) => {
-      setRulerPosition(e.clientY);
-    };
+  useEffect(() => {
+    if (!enabled || fixed) return;
 
-    const handleMouseUp = () => {
-      setIsDragging(false);
+    // Step to the next line of text across the middle of the screen, or by
+    // the ruler's height where there is none
+    const step = (direction: 1 | -1) => {
+      const centre = positionRef.current;
+      const line = lineAtPoint(window.innerWidth / 2, centre);
+      const next = line && adjacentLine(line, direction);
+      if (next) {
+        const moved = scrollLineIntoView(next);
+        setRulerPosition((next.top + next.bottom) / 2 - moved);
+      } else {
+        setRulerPosition(Math.min(Math.max(centre + direction * height, 0), window.innerHeight));
+      }
     };
 
-    window.addEventListener('mousemove', handleMouseMove);
-    window.addEventListener('mouseup', handleMouseUp);
-
-    return () => {
-      window.removeEventListener('mousemove', handleMouseMove);
-      window.removeEventListener('mouseup', handleMouseUp);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isEditable(e.target) || e.altKey || e.ctrlKey || e.metaKey) return;
+      if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+        e.preventDefault();
+        step(e.key === 'ArrowUp' ? -1 : 1);
+      }
     };
-  }, [isDragging, enabled]);
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled, fixed, height]);
 
   if (!enabled) return null;
 
+  const centre = fixed ? Math.round(viewHeight / 3) : rulerPosition;
+  const top = centre - height / 2;
+  const bottom = centre + height / 2;
+
   return (
     <>
       <style>{`
         .reading-ruler {
           position: fixed;
-          width: 100%;
-          height: 60px;
-          left: 0;
-          background: linear-gradient(
-            to bottom,
-            transparent 0%,
-            rgba(255, 215, 0, 0.1) 20%,
-            rgba(255, 215, 0, 0.2) 50%,
-            rgba(255, 215, 0, 0.1) 80%,
-            transparent 100%
-          );
-          border-top: 2px solid rgba(255, 215, 0, 0.5);
-          border-bottom: 2px solid rgba(255, 215, 0, 0.5);
+          inset: 0;
+          pointer-events: none;
           z-index: 9998;
-          cursor: ns-resize;
-          transition: top 0.1s ease-out;
-        }
-        
-        .reading-ruler:hover {
-          background: linear-gradient(
-            to bottom,
-            transparent 0%,
-            rgba(255, 215, 0, 0.15) 20%,
-            rgba(255, 215, 0, 0.3) 50%,
-            rgba(255, 215, 0, 0.15) 80%,
-            transparent 100%
-          );
         }
-        
-        .reading-ruler-handle {
-          position: absolute;
-          top: 50%;
-          right: 10px;
-          transform: translateY(-50%);
-          width: 30px;
-          height: 30px;
-          background: rgba(255, 215, 0, 0.8);
-          border-radius: 50%;
+        ${bandStyles}
+      `}</style>
+
+      <div className="reading-ruler" aria-hidden="true">
+        <GuideBand top={top} bottom={bottom} extent={viewHeight} color={color} opacity={opacity} dimming={dimming} />
+        {!fixed && (
+          <GuideHandle
+            centre={centre}
+            color={color}
+            dragging={isDragging}
+            onDrag={(y) => {
+              setIsDragging(true);
+              setRulerPosition(Math.min(Math.max(y, 0), viewHeight));
+            }}
+            onDragEnd={() => setIsDragging(false)}
+          />
+        )}
+      </div>
+    </>
+  );
+}
+
+const PREVIEW_LINES = [
+  'Reading is easier when the eye',
+  'knows where to go next. The guide',
+  'keeps your place on this line,',
+  'and the lines around it fade back',
+  'so they do not pull you away.',
+];
+const PREVIEW_LINE_HEIGHT = 22;
+
+/**
+ * ReadingGuidePreview Component
+ *
+ * A few lines of sample text with the guide on the middle one, drawn just
+ * as it is on the page, for trying out its look in the settings.
+ */
+export function ReadingGuidePreview(look: GuideLook) {
+  const height = look.height ?? DEFAULT_GUIDE.height;
+  const textHeight = PREVIEW_LINES.length * PREVIEW_LINE_HEIGHT;
+  const extent = Math.max(textHeight, height) + PREVIEW_LINE_HEIGHT;
+  const lineTop = (extent - textHeight) / 2 + Math.floor(PREVIEW_LINES.length / 2) * PREVIEW_LINE_HEIGHT;
+  const padding = Math.max(PADDING, (height - PREVIEW_LINE_HEIGHT) / 2);
+
+  return (
+    <div className="reading-guide-preview" style={{ height: `${extent}px` }} aria-hidden="true">
+      <style>{`
+        .reading-guide-preview {
+          position: relative;
+          overflow: hidden;
           display: flex;
-          align-items: center;
+          flex-direction: column;
           justify-content: center;
-          cursor: grab;
-          box-shadow: 0 2px 8px rgba(0, 0, 0, 0.2);
-        }
-        
-        .reading-ruler-handle:active {
-          cursor: grabbing;
+          padding: 0 10px;
+          background: var(--surface-1);
+          border-radius: 6px;
+          font-size: 13px;
+          color: var(--text-1);
         }
-        
-        .reading-ruler-handle svg {
-          width: 16px;
-          height: 16px;
-          color: #333;
+
+        .reading-guide-preview-line {
+          white-space: nowrap;
+          overflow: hidden;
+          text-overflow: ellipsis;
         }
+        ${bandStyles}
       `}</style>
-
-      <div
-        className="reading-ruler"
-        style={{ top: `${rulerPosition - 30}px` }}
-        onMouseDown={() => setIsDragging(true)}
-      >
-        <div className="reading-ruler-handle">
-          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-            <path d="M7 10L12 5L17 10M7 14L12 19L17 14" />
-          </svg>
+      {PREVIEW_LINES.map(line => (
+        <div key={line} className="reading-guide-preview-line" style={{ lineHeight: `${PREVIEW_LINE_HEIGHT}px` }}>
+          {line}
         </div>
-      </div>
-    </>
+      ))}
+      <GuideBand
+        {...look}
+        top={lineTop - padding}
+        bottom={lineTop + PREVIEW_LINE_HEIGHT + padding}
+        extent={extent}
+      />
+    </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,286 @@
+import React, { useState } from 'react';
+import { useLearning } from './LearningContext';
+import { BLANK, checkClozeAnswer, RecallItem, RecallProgress } from '../lib/recall';
+
+/**
+ * RecallPractice Component
+ *
+ * Retrieval practice on the document being read, using questions generated
+ * by generateRecallItems().  Works like InteractiveQuizMode: answer, submit,
+ * see whether it was right, then move on; each correct answer scores a
+ * point and earns 10 points in LearningContext.
+ *
+ * Features:
+ * - Multiple choice and fill-in-the-blank questions
+ * - Typed answers forgive case, accents, plurals and small typos
+ * - Feedback shows the original sentence, with a link to it in the document
+ * - Progress is kept per document by the caller
+ */
+
+interface RecallPracticeProps {
+  items: RecallItem[];
+  progress?: RecallProgress;
+  onProgressChange: (progress: RecallProgress) => void;
+  onShowSource?: (item: RecallItem) => void;
+}
+
+const START: RecallProgress = { currentQuestion: 0, score: 0, completedQuestions: [] };
+
+export default function RecallPractice({ items, progress = START, onProgressChange, onShowSource }: RecallPracticeProps) {
+  const { addPoints } = useLearning();
+  const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
+  const [typedAnswer, setTypedAnswer] = useState('');
+  const [showResult, setShowResult] = useState(false);
+
+  if (!items.length) {
+    return (
+      <div className="recall-practice">
+        <p className="recall-empty">
+          There is not enough text here to make practice questions. Try a longer document or chapter.
+        </p>
+      </div>
+    );
+  }
+
+  const totalQuestions = items.length;
+  const currentQuestion = Math.min(progress.currentQuestion, totalQuestions - 1);
+  const current = items[currentQuestion];
+  const { score, completedQuestions } = progress;
+  const isCorrect = current.kind === 'choice' ? selectedAnswer === current.correct : checkClozeAnswer(current, typedAnswer);
+  const canSubmit = current.kind === 'choice' ? selectedAnswer !== null : typedAnswer.trim() !== '';
+  const finished = completedQuestions.length >= totalQuestions;
+
+  const handleSubmit = () => {
+    if (!canSubmit || showResult) return;
+    setShowResult(true);
+    // Saved progress stays on the question just answered, so after a reload
+    // it comes back; answering it again shows the result but scores nothing
+    if (completedQuestions.includes(currentQuestion)) return;
+    if (isCorrect) {
+      // Award points for correct answer
+      addPoints(10);
+    }
+    onProgressChange({
+      currentQuestion,
+      score: isCorrect ? score + 1 : score,
+      completedQuestions: [...completedQuestions, currentQuestion]
+    });
+  };
+
+  const resetQuestion = () => {
+    setSelectedAnswer(null);
+    setTypedAnswer('');
+    setShowResult(false);
+  };
+
+  const handleNext = () => {
+    if (currentQuestion < totalQuestions - 1) {
+      onProgressChange({ ...progress, currentQuestion: currentQuestion + 1 });
+      resetQuestion();
+    }
+  };
+
+  const handleReset = () => {
+    onProgressChange(START);
+    resetQuestion();
+  };
+
+  const [before, ...rest] = current.prompt.split(BLANK);
+
+  return (
+    <div className="recall-practice">
+      <style>{`
+        .recall-practice {
+          margin-bottom: 16px;
+          padding: 16px;
+          background: var(--surface-2);
+          border-radius: 8px;
+        }
+
+        .recall-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          margin-bottom: 12px;
+          font-size: 13px;
+          color: var(--text-2);
+        }
+
+        .recall-prompt {
+          margin-bottom: 12px;
+          font-size: 16px;
+          line-height: 1.6;
+          color: var(--text-1);
+        }
+
+        .recall-blank {
+          display: inline-block;
+          min-width: 80px;
+          border-bottom: 2px solid var(--brand-400);
+          text-align: center;
+          font-weight: 600;
+        }
+
+        .recall-options {
+          display: grid;
+          gap: 8px;
+          margin-bottom: 12px;
+        }
+
+        .recall-option {
+          padding: 8px 12px;
+          background: var(--surface-1);
+          border: 2px solid var(--surface-3);
+          border-radius: 6px;
+          text-align: left;
+          color: var(--text-1);
+          cursor: pointer;
+        }
+
+        .recall-option.selected {
+          border-color: var(--brand-400);
+        }
+
+        .recall-option.correct {
+          border-color: var(--ok-500);
+        }
+
+        .recall-option.incorrect {
+          border-color: var(--bad-500);
+        }
+
+        .recall-input {
+          width: 100%;
+          margin-bottom: 12px;
+          padding: 8px 12px;
+          background: var(--surface-1);
+          border: 2px solid var(--surface-3);
+          border-radius: 6px;
+          color: var(--text-1);
+          font-size: 15px;
+        }
+
+        .recall-feedback {
+          margin-bottom: 12px;
+          padding: 10px 12px;
+          background: var(--surface-1);
+          border-left: 4px solid var(--bad-500);
+          border-radius: 6px;
+          font-size: 14px;
+          color: var(--text-1);
+        }
+
+        .recall-feedback.correct {
+          border-left-color: var(--ok-500);
+        }
+
+        .recall-feedback blockquote {
+          margin: 6px 0 0;
+          color: var(--text-2);
+          font-style: italic;
+        }
+
+        .recall-source {
+          margin-top: 6px;
+          padding: 0;
+          background: none;
+          border: none;
+          color: var(--brand-400);
+          font-size: 13px;
+          cursor: pointer;
+        }
+
+        .recall-controls {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 8px;
+        }
+
+        .recall-empty {
+          margin: 0;
+          font-size: 14px;
+          color: var(--text-2);
+        }
+      `}</style>
+
+      <div className="recall-header">
+        <span>🧠 Question {currentQuestion + 1} of {totalQuestions}</span>
+        <span>Score: {score}/{totalQuestions}</span>
+      </div>
+
+      <p className="recall-prompt" data-bionic>
+        {before}
+        {rest.map((after, index) => (
+          <React.Fragment key={index}>
+            <span className="recall-blank">{showResult ? current.answer : '?'}</span>
+            {after}
+          </React.Fragment>
+        ))}
+      </p>
+
+      {current.kind === 'choice' ? (
+        <div className="recall-options">
+          {current.options!.map((option, index) => {
+            let classes = 'recall-option';
+            if (selectedAnswer === index && !showResult) classes += ' selected';
+            if (showResult && index === current.correct) classes += ' correct';
+            if (showResult && selectedAnswer === index && index !== current.correct) classes += ' incorrect';
+            return (
+              <button key={index} className={classes} onClick={() => setSelectedAnswer(index)} disabled={showResult}>
+                {option}
+              </button>
+            );
+          })}
+        </div>
+      ) : (
+        <input
+          className="recall-input"
+          value={typedAnswer}
+          onChange={(e) => setTypedAnswer(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSubmit();
+          }}
+          placeholder="Type the missing word…"
+          aria-label="Missing word"
+          disabled={showResult}
+        />
+      )}
+
+      {/* Feedback */}
+      {showResult && (
+        <div className={`recall-feedback ${isCorrect ? 'correct' : ''}`} role="status">
+          <strong>{isCorrect ? '✅ Correct!' : `❌ Not quite. The answer is “${current.answer}”.`}</strong>
+          <blockquote>{current.sentence}</blockquote>
+          {onShowSource && (
+            <button className="recall-source" onClick={() => onShowSource(current)}>
+              Show in document
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Controls */}
+      <div className="recall-controls">
+        {!showResult ? (
+          <button className="reader-btn" onClick={handleSubmit} disabled={!canSubmit}>
+            Submit Answer
+          </button>
+        ) : currentQuestion < totalQuestions - 1 ? (
+          <button className="reader-btn" onClick={handleNext}>
+            Next Question <span>▶</span>
+          </button>
+        ) : (
+          <button className="reader-btn" onClick={handleReset}>
+            <span>↺</span> Restart Practice
+          </button>
+        )}
+        {finished && !showResult && (
+          <button className="reader-btn" onClick={handleReset}>
+            <span>↺</span> Start Again
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,297 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { BlockPoint, DocumentBlock } from '../lib/blocks';
+import {
+  buildRsvpWords,
+  findRsvpWord,
+  MAX_RSVP_WPM,
+  MIN_RSVP_WPM,
+  nextSentence,
+  previousSentence,
+  wordDuration
+} from '../lib/rsvp';
+
+/**
+ * RsvpReader Component
+ *
+ * Rapid serial visual presentation: shows a document one word at a time at
+ * a fixed point, so the eyes never have to move along a line.  A companion
+ * to Bionic Reading for readers who find scanning lines tiring.
+ *
+ * Features:
+ * - Each word is placed so its optimal recognition point (highlighted
+ *   letter) sits under the focal marker
+ * - Adjustable speed in words per minute
+ * - Automatic pauses at commas, sentence ends and paragraph ends
+ * - Keyboard: Space to pause, ←/→ to go back or forward a sentence,
+ *   ↑/↓ to change speed, Escape to return to the full text
+ */
+
+interface RsvpReaderProps {
+  blocks: DocumentBlock[];
+  start?: BlockPoint; // where to begin, e.g. the top of the page being read
+  onExit: (position: BlockPoint | null) => void;
+  onPositionChange?: (position: BlockPoint) => void;
+}
+
+const WPM_KEY = 'reader.rsvpWpm';
+const DEFAULT_WPM = 300;
+const WPM_STEP = 25;
+
+export default function RsvpReader({ blocks, start, onExit, onPositionChange }: RsvpReaderProps) {
+  const words = useMemo(() => buildRsvpWords(blocks), [blocks]);
+  const [index, setIndex] = useState(() => (start ? findRsvpWord(words, start) : 0));
+  const [playing, setPlaying] = useState(false);
+  const [wpm, setWpm] = useState(() => {
+    const saved = Number(localStorage.getItem(WPM_KEY));
+    return saved >= MIN_RSVP_WPM && saved <= MAX_RSVP_WPM ? saved : DEFAULT_WPM;
+  });
+  const stageRef = useRef<HTMLDivElement>(null);
+
+  const word = words[Math.min(index, words.length - 1)];
+  const finished = index >= words.length - 1;
+
+  useEffect(() => {
+    localStorage.setItem(WPM_KEY, String(wpm));
+  }, [wpm]);
+
+  // Report each new word; the callback is usually a fresh inline function
+  const onPositionChangeRef = useRef(onPositionChange);
+  onPositionChangeRef.current = onPositionChange;
+  useEffect(() => {
+    if (word) onPositionChangeRef.current?.(word.point);
+  }, [word]);
+
+  // Take keyboard focus so the controls work straight away
+  useEffect(() => {
+    stageRef.current?.focus();
+  }, []);
+
+  // Advance to the next word once this one has been shown long enough
+  useEffect(() => {
+    if (!playing || !word) return;
+    if (finished) {
+      setPlaying(false);
+      return;
+    }
+    const timer = window.setTimeout(() => setIndex(i => i + 1), wordDuration(word, wpm));
+    return () => clearTimeout(timer);
+  }, [playing, word, finished, wpm]);
+
+  const changeWpm = (delta: number) =>
+    setWpm(current => Math.max(MIN_RSVP_WPM, Math.min(MAX_RSVP_WPM, current + delta)));
+
+  const togglePlaying = () => {
+    if (!playing && finished) setIndex(0);
+    setPlaying(!playing);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+    // Space on a focused button presses that button
+    if (e.key === ' ' && e.target instanceof HTMLButtonElement) return;
+    switch (e.key) {
+      case ' ':
+        togglePlaying();
+        break;
+      case 'ArrowLeft':
+        setIndex(i => previousSentence(words, i));
+        break;
+      case 'ArrowRight':
+        setIndex(i => nextSentence(words, i));
+        break;
+      case 'ArrowUp':
+        changeWpm(WPM_STEP);
+        break;
+      case 'ArrowDown':
+        changeWpm(-WPM_STEP);
+        break;
+      case 'Escape':
+        onExit(word?.point ?? null);
+        break;
+      default:
+        return;
+    }
+    // Keep page-wide shortcuts (e.g. the reading guide's arrow keys) out of it
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const minutesLeft = words
+    .slice(index)
+    .reduce((total, w) => total + wordDuration(w, wpm), 0) / 60000;
+
+  return (
+    <div className="rsvp-reader" ref={stageRef} tabIndex={0} onKeyDown={handleKeyDown} aria-label="Word by word reader">
+      <style>{`
+        .rsvp-reader {
+          display: flex;
+          flex-direction: column;
+          gap: 16px;
+          padding: 24px 16px;
+          background: var(--surface-2);
+          border-radius: 12px;
+          outline: none;
+        }
+
+        .rsvp-reader:focus-visible {
+          box-shadow: 0 0 0 2px var(--brand-400);
+        }
+
+        .rsvp-stage {
+          position: relative;
+          padding: 28px 0;
+          border-top: 2px solid var(--surface-3);
+          border-bottom: 2px solid var(--surface-3);
+        }
+
+        /* Focal marker: ticks above and below the recognition point */
+        .rsvp-stage::before,
+        .rsvp-stage::after {
+          content: '';
+          position: absolute;
+          left: 50%;
+          width: 2px;
+          height: 12px;
+          background: var(--brand-400);
+        }
+
+        .rsvp-stage::before {
+          top: 0;
+        }
+
+        .rsvp-stage::after {
+          bottom: 0;
+        }
+
+        .rsvp-word {
+          display: grid;
+          grid-template-columns: 1fr auto 1fr;
+          font-size: 40px;
+          line-height: 1.2;
+          color: var(--text-1);
+          white-space: pre;
+        }
+
+        .rsvp-before {
+          text-align: right;
+        }
+
+        .rsvp-focus {
+          color: var(--bad-500);
+          font-weight: 700;
+        }
+
+        .rsvp-after {
+          text-align: left;
+        }
+
+        .rsvp-status {
+          display: flex;
+          justify-content: space-between;
+          font-size: 13px;
+          color: var(--text-2);
+        }
+
+        .rsvp-progress {
+          height: 4px;
+          background: var(--surface-3);
+          border-radius: 2px;
+          overflow: hidden;
+        }
+
+        .rsvp-progress-bar {
+          height: 100%;
+          background: var(--brand-400);
+        }
+
+        .rsvp-controls {
+          display: flex;
+          flex-wrap: wrap;
+          justify-content: center;
+          align-items: center;
+          gap: 8px;
+        }
+
+        .rsvp-speed {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          font-size: 13px;
+          color: var(--text-2);
+        }
+
+        .rsvp-hint {
+          margin: 0;
+          font-size: 12px;
+          text-align: center;
+          color: var(--text-2);
+        }
+
+        @media (max-width: 640px) {
+          .rsvp-word {
+            font-size: 30px;
+          }
+        }
+      `}</style>
+
+      {word ? (
+        <>
+          <div className="rsvp-stage" aria-live="off">
+            <div className="rsvp-word">
+              <span className="rsvp-before">{word.text.slice(0, word.orp)}</span>
+              <span className="rsvp-focus">{word.text[word.orp]}</span>
+              <span className="rsvp-after">{word.text.slice(word.orp + 1)}</span>
+            </div>
+          </div>
+
+          <div className="rsvp-progress" aria-hidden>
+            <div className="rsvp-progress-bar" style={{ width: `${((index + 1) / words.length) * 100}%` }} />
+          </div>
+          <div className="rsvp-status">
+            <span>
+              Word {index + 1} of {words.length}
+            </span>
+            <span>{Math.ceil(minutesLeft)} min left</span>
+          </div>
+
+          <div className="rsvp-controls">
+            <button className="reader-btn" onClick={() => setIndex(i => previousSentence(words, i))} title="Back a sentence (←)">
+              <span>⏮️</span>
+            </button>
+            <button className="reader-btn" onClick={togglePlaying} title="Play or pause (Space)">
+              {playing ? <><span>⏸️</span> Pause</> : <><span>▶️</span> {finished ? 'Start over' : 'Play'}</>}
+            </button>
+            <button className="reader-btn" onClick={() => setIndex(i => nextSentence(words, i))} title="Forward a sentence (→)">
+              <span>⏭️</span>
+            </button>
+            <label className="rsvp-speed">
+              <input
+                type="range"
+                min={MIN_RSVP_WPM}
+                max={MAX_RSVP_WPM}
+                step={WPM_STEP}
+                value={wpm}
+                onChange={(e) => setWpm(Number(e.target.value))}
+                aria-label="Words per minute"
+              />
+              {wpm} wpm
+            </label>
+            <button className="reader-btn" onClick={() => onExit(word.point)}>
+              <span>📄</span> Full text
+            </button>
+          </div>
+          <p className="rsvp-hint">Space: pause • ←/→: sentence • ↑/↓: speed • Esc: full text</p>
+        </>
+      ) : (
+        <>
+          <p className="rsvp-hint">There is no text to show word by word.</p>
+          <div className="rsvp-controls">
+            <button className="reader-btn" onClick={() => onExit(null)}>
+              <span>📄</span> Full text
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
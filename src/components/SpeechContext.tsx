@@ -0,0 +1,202 @@
+import React, { createContext, ReactNode, useContext, useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { createTimedEngine, createWebSpeechEngine, EngineVoice, SpeechEngine } from '../lib/speechEngine';
+import {
+  DEFAULT_PACING,
+  DEFAULT_PROFILE,
+  MAX_RATE,
+  MIN_RATE,
+  SpeechPacing,
+  SpeechRequest,
+  SpeechService,
+  SpeechState,
+  VoiceProfile
+} from '../lib/speechService';
+import { DEFAULT_LEXICON, PronunciationRule } from '../lib/pronunciation';
+
+/**
+ * SpeechContext
+ *
+ * Shares one speech service across the app, so only one thing reads aloud
+ * at a time and the same controls work for all of it.  Also keeps the
+ * user's named voice profiles (voice, speed, pitch, volume), saved with
+ * the other settings in localStorage, the user's pronunciation lexicon and
+ * how reading is paced.
+ *
+ * Pass an engine to use something other than the browser's speech
+ * synthesis; without Web Speech, a silent timed engine keeps read-along
+ * highlighting working.
+ */
+
+export interface SpeechContextType {
+  state: SpeechState;
+  engineName: string;
+  audible: boolean;
+  voices: EngineVoice[];
+  profiles: VoiceProfile[];
+  profile: VoiceProfile; // the one in use
+  selectProfile: (id: string) => void;
+  updateProfile: (changes: Partial<Omit<VoiceProfile, 'id'>>) => void;
+  addProfile: (name: string) => void; // a copy of the current profile
+  deleteProfile: (id: string) => void;
+  lexicon: PronunciationRule[];
+  setLexicon: (rules: PronunciationRule[]) => void;
+  pacing: SpeechPacing;
+  updatePacing: (changes: Partial<SpeechPacing>) => void;
+  speak: (request: SpeechRequest) => void;
+  togglePause: () => void; // also goes on after waiting
+  replayStretch: () => void; // while waiting, hear the last stretch again
+  stop: (owner?: string) => void;
+  skip: (delta: number) => void;
+  setRate: (rate: number) => void; // heard straight away
+}
+
+const PROFILES_KEY = 'set.voiceProfiles';
+const ACTIVE_PROFILE_KEY = 'set.voiceProfile';
+const LEXICON_KEY = 'set.pronunciations';
+const PACING_KEY = 'set.speechPacing';
+
+const SpeechContext = createContext<SpeechContextType | undefined>(undefined);
+
+function loadProfiles(): VoiceProfile[] {
+  try {
+    const saved: VoiceProfile[] = JSON.parse(localStorage.getItem(PROFILES_KEY) ?? '[]');
+    if (Array.isArray(saved) && saved.length) return saved.map(profile => ({ ...DEFAULT_PROFILE, ...profile }));
+  } catch {
+    // fall back to the default profile
+  }
+  return [DEFAULT_PROFILE];
+}
+
+function loadLexicon(): PronunciationRule[] {
+  try {
+    const saved = localStorage.getItem(LEXICON_KEY);
+    if (saved) {
+      const rules: PronunciationRule[] = JSON.parse(saved);
+      if (Array.isArray(rules)) return rules;
+    }
+  } catch {
+    // fall back to the default lexicon
+  }
+  return DEFAULT_LEXICON;
+}
+
+function loadPacing(): SpeechPacing {
+  try {
+    return { ...DEFAULT_PACING, ...JSON.parse(localStorage.getItem(PACING_KEY) ?? '{}') };
+  } catch {
+    return DEFAULT_PACING;
+  }
+}
+
+export function SpeechProvider({ children, engine }: { children: ReactNode; engine?: SpeechEngine }): JSX.Element {
+  const [service] = useState(() => new SpeechService(engine ?? createWebSpeechEngine() ?? createTimedEngine()));
+  const state = useSyncExternalStore(service.subscribe, service.getState);
+  const [voices, setVoices] = useState<EngineVoice[]>([]);
+  const [profiles, setProfiles] = useState(loadProfiles);
+  const [profileId, setProfileId] = useState(() => localStorage.getItem(ACTIVE_PROFILE_KEY) ?? DEFAULT_PROFILE.id);
+  const profile = profiles.find(p => p.id === profileId) ?? profiles[0];
+  const [lexicon, setLexicon] = useState(loadLexicon);
+  const [pacing, setPacing] = useState(loadPacing);
+
+  useEffect(() => {
+    if (engine && engine !== service.getEngine()) service.setEngine(engine);
+  }, [engine, service]);
+
+  // Chrome loads voices asynchronously
+  useEffect(() => {
+    const current = service.getEngine();
+    const loadVoices = () => setVoices(current.getVoices());
+    loadVoices();
+    return current.onVoicesChanged(loadVoices);
+  }, [service, engine]);
+
+  // Stop reading aloud when the app closes
+  useEffect(() => () => service.stop(), [service]);
+
+  useEffect(() => {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  }, [profiles]);
+
+  useEffect(() => {
+    localStorage.setItem(ACTIVE_PROFILE_KEY, profile.id);
+  }, [profile.id]);
+
+  useEffect(() => {
+    localStorage.setItem(LEXICON_KEY, JSON.stringify(lexicon));
+  }, [lexicon]);
+
+  useEffect(() => {
+    localStorage.setItem(PACING_KEY, JSON.stringify(pacing));
+  }, [pacing]);
+
+  // A profile without a voice uses one in the user's language
+  const voice = useMemo(() => {
+    if (voices.some(v => v.name === profile.voice)) return profile.voice;
+    const language = navigator.language.slice(0, 2);
+    return (voices.find(v => v.lang.startsWith(language)) ?? voices.find(v => v.default) ?? voices[0])?.name ?? '';
+  }, [voices, profile.voice]);
+
+  // Set during render so a reading started in the same event uses it
+  service.setVoice({ voice, rate: profile.rate, pitch: profile.pitch, volume: profile.volume });
+  service.setLexicon(lexicon);
+  service.setPacing(pacing);
+
+  const updateProfile = (changes: Partial<Omit<VoiceProfile, 'id'>>) =>
+    setProfiles(prev => prev.map(p => (p.id === profile.id ? { ...p, ...changes } : p)));
+
+  const addProfile = (name: string) => {
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+    setProfiles(prev => [...prev, { ...profile, id, name }]);
+    setProfileId(id);
+  };
+
+  const deleteProfile = (id: string) => {
+    if (profiles.length <= 1) return;
+    setProfiles(prev => prev.filter(p => p.id !== id));
+    if (id === profile.id) setProfileId(profiles.find(p => p.id !== id)!.id);
+  };
+
+  const setRate = (rate: number) => {
+    const clamped = Math.round(Math.max(MIN_RATE, Math.min(MAX_RATE, rate)) * 10) / 10;
+    updateProfile({ rate: clamped });
+    service.setVoice({ voice, rate: clamped, pitch: profile.pitch, volume: profile.volume });
+    service.restart();
+  };
+
+  const value: SpeechContextType = {
+    state,
+    engineName: service.getEngine().name,
+    audible: service.getEngine().audible,
+    voices,
+    profiles,
+    profile,
+    selectProfile: setProfileId,
+    updateProfile,
+    addProfile,
+    deleteProfile,
+    lexicon,
+    setLexicon,
+    pacing,
+    updatePacing: changes => setPacing(prev => ({ ...prev, ...changes })),
+    speak: request => service.speak(request),
+    togglePause: () => service.togglePause(),
+    replayStretch: () => service.seek(state.recapFrom),
+    stop: owner => service.stop(owner),
+    skip: delta => service.skip(delta),
+    setRate
+  };
+
+  return <SpeechContext.Provider value={value}>{children}</SpeechContext.Provider>;
+}
+
+/**
+ * Hook to access the speech service.  Throws an error if used outside of
+ * SpeechProvider.
+ */
+export function useSpeech(): SpeechContextType {
+  const context = useContext(SpeechContext);
+  if (!context) {
+    throw new Error('useSpeech must be used within a SpeechProvider');
+  }
+  return context;
+}
@@ -0,0 +1,176 @@
+import React from 'react';
+import { useSpeech } from './SpeechContext';
+import { MAX_RATE, MIN_RATE } from '../lib/speechService';
+
+/**
+ * SpeechPlayer Component
+ *
+ * The app's one set of read-aloud controls.  Floats in the corner while
+ * anything is being read (a document, a card or a selection) and controls
+ * whichever it is.
+ *
+ * Features:
+ * - Previous / next sentence, pause and resume, stop
+ * - Speed up or slow down, heard from the current sentence
+ * - Shows what is being read and how far through it is
+ * - When pacing stops every few sentences: go on, or hear the stretch
+ *   again, with an optional prompt to recap it first
+ */
+
+const RATE_STEP = 0.1;
+
+export default function SpeechPlayer() {
+  const { state, profile, pacing, togglePause, replayStretch, stop, skip, setRate } = useSpeech();
+  if (state.status === 'idle') return null;
+  const paused = state.status === 'paused';
+  const waiting = state.status === 'waiting';
+  const heard = state.index + 1 - state.recapFrom;
+
+  return (
+    <div className="tts-player" role="region" aria-label="Read aloud player">
+      <style>{`
+        .tts-player {
+          position: fixed;
+          right: 20px;
+          bottom: 20px;
+          z-index: 1000;
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+          min-width: 260px;
+          max-width: calc(100vw - 40px);
+          padding: 12px;
+          background: var(--surface-1);
+          border: 1px solid var(--surface-3);
+          border-radius: 12px;
+          box-shadow: 0 8px 24px rgba(0, 0, 0, 0.25);
+          color: var(--text-1);
+        }
+
+        .tts-player-title {
+          overflow: hidden;
+          font-size: 13px;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
+        .tts-player-status {
+          font-size: 12px;
+          color: var(--text-2);
+        }
+
+        .tts-player-controls {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+        }
+
+        .tts-player-controls button {
+          padding: 6px 8px;
+          background: var(--surface-2);
+          border: 1px solid var(--surface-3);
+          border-radius: 6px;
+          color: var(--text-1);
+          cursor: pointer;
+          font-size: 14px;
+          line-height: 1;
+        }
+
+        .tts-player-controls button:disabled {
+          opacity: 0.5;
+          cursor: default;
+        }
+
+        .tts-player-wait {
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+          padding: 10px;
+          background: var(--surface-2);
+          border-radius: 8px;
+          font-size: 13px;
+        }
+
+        .tts-player-wait p {
+          margin: 0;
+        }
+
+        .tts-player-wait-actions {
+          display: flex;
+          gap: 6px;
+        }
+
+        .tts-player-wait-actions button {
+          flex: 1;
+          padding: 6px 8px;
+          background: var(--surface-1);
+          border: 1px solid var(--surface-3);
+          border-radius: 6px;
+          color: var(--text-1);
+          cursor: pointer;
+          font-size: 13px;
+        }
+
+        .tts-player-wait-actions .primary {
+          background: var(--brand-400);
+          border-color: var(--brand-400);
+          color: white;
+        }
+
+        .tts-player-rate {
+          min-width: 40px;
+          font-size: 12px;
+          text-align: center;
+          color: var(--text-2);
+        }
+      `}</style>
+
+      <div className="tts-player-title">🔊 {state.label}</div>
+      <div className="tts-player-status">
+        Sentence {state.index + 1} of {state.total}
+        {paused && ' • paused'}
+      </div>
+      {waiting && (
+        <div className="tts-player-wait" role="status">
+          <p>
+            {pacing.recap
+              ? `Take a moment: what ${heard === 1 ? 'was that sentence' : `were those ${heard} sentences`} about? Say it in your own words, then go on.`
+              : 'Paused so you can take that in.'}
+          </p>
+          <div className="tts-player-wait-actions">
+            <button onClick={replayStretch}>↺ Hear again</button>
+            <button className="primary" onClick={togglePause}>
+              Continue ▶
+            </button>
+          </div>
+        </div>
+      )}
+      <div className="tts-player-controls">
+        <button onClick={() => skip(-1)} disabled={state.index === 0} title="Previous sentence" aria-label="Previous sentence">
+          ⏮
+        </button>
+        <button onClick={togglePause} title="Pause or resume (Alt+P)" aria-label={paused || waiting ? 'Resume' : 'Pause'}>
+          {paused || waiting ? '▶' : '⏸'}
+        </button>
+        <button
+          onClick={() => skip(1)}
+          disabled={state.index >= state.total - 1}
+          title="Next sentence"
+          aria-label="Next sentence"
+        >
+          ⏭
+        </button>
+        <button onClick={() => stop()} title="Stop (Alt+S)" aria-label="Stop">
+          ⏹
+        </button>
+        <button onClick={() => setRate(profile.rate - RATE_STEP)} disabled={profile.rate <= MIN_RATE} aria-label="Slower">
+          −
+        </button>
+        <span className="tts-player-rate">{profile.rate.toFixed(1)}x</span>
+        <button onClick={() => setRate(profile.rate + RATE_STEP)} disabled={profile.rate >= MAX_RATE} aria-label="Faster">
+          +
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Card } from './ui/card';
 import { Button } from './ui/button';
 import { Progress } from './ui/progress';
 import { Switch } from './ui/switch';
-import { ChevronLeft, ChevronRight, RotateCcw, BookOpen, Star as StarIcon } from 'lucide-react';
+import { ChevronLeft, ChevronRight, RotateCcw, BookOpen, BookMarked, Star as StarIcon } from 'lucide-react';
 import { useLearning } from './LearningContext';
+import GlossaryLookup from './GlossaryLookup';
+import GlossaryPanel from './GlossaryPanel';
 
 /**
  * StandardTextMode
@@ -14,6 +16,8 @@ import { useLearning } from './LearningContext';
  * information and study tips.  The reader can advance through the sections
  * linearly using the Continue button or enter a review mode to revisit
  * previously read sections.  Progress is recorded in the LearningContext.
+ * Tapping or hovering a word shows its definition from the glossary, and
+ * the Glossary button opens the saved terms and dictionary packs.
  */
 
 // Define the content for this lesson.  You can expand this array with
@@ -143,6 +147,10 @@ export function StandardTextMode(): JSX.Element {
    */
   const [isFocusMode, setIsFocusMode] = useState(false);
 
+  /** Whether the glossary panel (saved terms and dictionary packs) is open. */
+  const [showGlossary, setShowGlossary] = useState(false);
+  const lessonRef = useRef<HTMLDivElement>(null);
+
   /**
    * Map of answered recall questions by section index.  Each entry stores
    * the index of the selected option.  Values are persisted in
@@ -338,6 +346,14 @@ export function StandardTextMode(): JSX.Element {
                 Section {currentSectionIndex + 1} of {contentSections.length}
               </span>
             )}
+            <Button
+              variant={showGlossary ? 'secondary' : 'outline'}
+              size="sm"
+              onClick={() => setShowGlossary(!showGlossary)}
+              aria-expanded={showGlossary}
+            >
+              <BookMarked className="w-4 h-4 mr-1" /> Glossary
+            </Button>
             {/* Focus mode toggle */}
             <div className="flex items-center space-x-1">
               <span className="text-sm">Focus Mode</span>
@@ -346,37 +362,43 @@ export function StandardTextMode(): JSX.Element {
           </div>
         </div>
 
-        {/* Main Content */}
-        <p className="mb-4 leading-relaxed text-gray-700 whitespace-pre-wrap">{section.content}</p>
+        {showGlossary && <GlossaryPanel />}
 
-        {/* Key Points */}
-        {!isFocusMode && (
-          <div className="mb-4">
-            <h3 className="font-semibold mb-2">Key Points</h3>
-            <ul className="list-disc list-inside space-y-1">
-              {section.keyPoints.map((kp, idx) => (
-                <li key={idx} className="ml-4">
-                  <strong>{kp.title}:</strong> {kp.description}
-                </li>
-              ))}
-            </ul>
-          </div>
-        )}
+        {/* Lesson text: tap or hover a word to define it */}
+        <div ref={lessonRef} data-bionic>
+          {/* Main Content */}
+          <p className="mb-4 leading-relaxed text-gray-700 whitespace-pre-wrap">{section.content}</p>
 
-        {/* Additional Info */}
-        {!isFocusMode && section.additionalInfo && (
-          <details className="mb-4 bg-gray-50 p-3 rounded-md border border-gray-200 dark:bg-gray-700 dark:border-gray-600">
-            <summary className="cursor-pointer font-semibold">Additional Information</summary>
-            <p className="mt-2 text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{section.additionalInfo}</p>
-          </details>
-        )}
+          {/* Key Points */}
+          {!isFocusMode && (
+            <div className="mb-4">
+              <h3 className="font-semibold mb-2">Key Points</h3>
+              <ul className="list-disc list-inside space-y-1">
+                {section.keyPoints.map((kp, idx) => (
+                  <li key={idx} className="ml-4">
+                    <strong>{kp.title}:</strong> {kp.description}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
 
-        {/* Study Tip */}
-        {!isFocusMode && section.tip && (
-          <blockquote className="mb-4 p-3 italic border-l-4 border-blue-500 bg-blue-50 text-blue-900 dark:bg-blue-900 dark:text-blue-200 rounded-r">
-            {section.tip}
-          </blockquote>
-        )}
+          {/* Additional Info */}
+          {!isFocusMode && section.additionalInfo && (
+            <details className="mb-4 bg-gray-50 p-3 rounded-md border border-gray-200 dark:bg-gray-700 dark:border-gray-600">
+              <summary className="cursor-pointer font-semibold">Additional Information</summary>
+              <p className="mt-2 text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{section.additionalInfo}</p>
+            </details>
+          )}
+
+          {/* Study Tip */}
+          {!isFocusMode && section.tip && (
+            <blockquote className="mb-4 p-3 italic border-l-4 border-blue-500 bg-blue-50 text-blue-900 dark:bg-blue-900 dark:text-blue-200 rounded-r">
+              {section.tip}
+            </blockquote>
+          )}
+        </div>
+        <GlossaryLookup containerRef={lessonRef} />
 
         {/* Personal Notes */}
         {!isFocusMode && (
@@ -408,7 +430,9 @@ export function StandardTextMode(): JSX.Element {
         {!showReviewMode && section.recall && answeredRecall[currentSectionIndex] === undefined && (
           <div className="mb-4">
             <h3 className="font-semibold mb-2">Check Your Understanding</h3>
-            <p className="mb-2">{section.recall.question}</p>
+            <p className="mb-2" data-bionic>
+              {section.recall.question}
+            </p>
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
               {section.recall.options.map((opt, idx) => (
                 <Button
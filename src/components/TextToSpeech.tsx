@@ -1,145 +1,134 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { useSpeech } from './SpeechContext';
+import VoiceSettings from './VoiceSettings';
+import { splitSentences } from '../lib/speech';
+import { mapRange, rangeFor, revealRange, showHighlight, textBreaks, TextMap } from '../lib/readAlong';
 
 /**
  * TextToSpeech Component
  *
  * Provides text-to-speech functionality for users with reading difficulties.
+ * Reading goes through the shared speech service, so the floating player
+ * controls it and it never talks over the document reader.
  * Features:
- * - Adjustable speech rate and pitch
+ * - Voice profiles with speed, pitch and volume
  * - Voice selection (system dependent)
  * - Play/pause/stop controls
- * - Highlights current word being spoken
+ * - Highlights the sentence and word being spoken in place on the page
+ * - Pauses at paragraphs and headings, as set in the voice settings
+ * - A "read this card" button on every dashboard card
  * - Keyboard shortcuts for accessibility
  */
 
-export default function TextToSpeech() {
-  const [isSupported, setIsSupported] = useState(false);
-  const [isSpeaking, setIsSpeaking] = useState(false);
-  const [isPaused, setIsPaused] = useState(false);
-  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
-  const [selectedVoice, setSelectedVoice] = useState<string>('');
-  const [rate, setRate] = useState(1.0);
-  const [pitch, setPitch] = useState(1.0);
-  const [showPanel, setShowPanel] = useState(false);
-  const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
-
-  useEffect(() => {
-    // Check if Web Speech API is supported
-    if ('speechSynthesis' in window) {
-      setIsSupported(true);
+/** What is being read: the text, and where it is on the page (if anywhere). */
+interface ReadingSource {
+  label: string;
+  text: string;
+  map: TextMap | null; // null for text with no nodes to highlight, e.g. an input's value
+}
 
-      // Load available voices
-      const loadVoices = () => {
-        const availableVoices = window.speechSynthesis.getVoices();
-        setVoices(availableVoices);
+const OWNER = 'page';
 
-        // Set default voice to first available
-        if (availableVoices.length > 0 && !selectedVoice) {
-          setSelectedVoice(availableVoices[0].name);
-        }
-      };
-
-      loadVoices();
+const clearHighlights = () => {
+  showHighlight('tts-sentence', null);
+  showHighlight('tts-word', null);
+};
 
-      // Chrome loads voices asynchronously
-      if (window.speechSynthesis.onvoiceschanged !== undefined) {
-        window.speechSynthesis.onvoiceschanged = loadVoices;
-      }
-    }
-
-    return () => {
-      if (window.speechSynthesis) {
-        window.speechSynthesis.cancel();
-      }
+export default function TextToSpeech() {
+  const { state, speak: speakItems, togglePause, stop } = useSpeech();
+  const [showPanel, setShowPanel] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [cards, setCards] = useState<HTMLElement[]>([]);
+  const isSpeaking = state.status !== 'idle';
+  const isPaused = state.status === 'paused' || state.status === 'waiting';
+
+  // Clear the highlights if the page goes while reading
+  const stopRef = useRef(stop);
+  stopRef.current = stop;
+  useEffect(() => () => {
+    stopRef.current(OWNER);
+    clearHighlights();
+  }, []);
+
+  // Find the dashboard cards (they come and go as modes change)
+  useEffect(() => {
+    const findCards = () => {
+      const found = Array.from(document.querySelectorAll<HTMLElement>('.card'));
+      setCards(prev => (prev.length === found.length && prev.every((card, i) => card === found[i]) ? prev : found));
     };
-  }, [selectedVoice]);
-
-  const getSelectedText = (): string => {
+    findCards();
+    const observer = new MutationObserver(findCards);
+    observer.observe(document.body, { childList: true, subtree: true });
+    return () => observer.disconnect();
+  }, []);
+
+  // The selection, else the focused element; null if there is nothing to read
+  const getSelectedSource = (): ReadingSource | null => {
     const selection = window.getSelection();
-    if (selection && selection.toString().trim()) {
-      return selection.toString();
-    }
-
-    // If no selection, try to get text from focused element
-    const activeElement = document.activeElement;
-    if (activeElement) {
-      // Check for common text containers
-      const textContent = activeElement.textContent ||
-                         (activeElement as HTMLInputElement).value ||
-                         '';
-      return textContent.trim();
+    if (selection && selection.rangeCount && selection.toString().trim()) {
+      const map = mapRange(selection.getRangeAt(0));
+      if (map.text.trim()) return { label: 'Selection', text: map.text, map };
     }
 
-    return '';
-  };
-
-  const speak = (text?: string) => {
-    if (!isSupported) return;
-
-    const textToSpeak = text || getSelectedText();
-    if (!textToSpeak) {
-      alert('Please select or highlight some text to read aloud.');
-      return;
+    const activeElement = document.activeElement as HTMLElement | null;
+    if (!activeElement || activeElement === document.body || activeElement.closest('.tts-panel, .tts-player')) {
+      return null;
     }
-
-    // Cancel any ongoing speech
-    window.speechSynthesis.cancel();
-
-    const utterance = new SpeechSynthesisUtterance(textToSpeak);
-    utteranceRef.current = utterance;
-
-    // Set voice
-    const voice = voices.find(v => v.name === selectedVoice);
-    if (voice) {
-      utterance.voice = voice;
+    if (activeElement instanceof HTMLInputElement || activeElement instanceof HTMLTextAreaElement) {
+      const text = activeElement.value.trim();
+      return text ? { label: activeElement.getAttribute('aria-label') || 'Text box', text, map: null } : null;
     }
-
-    // Set speech parameters
-    utterance.rate = rate;
-    utterance.pitch = pitch;
-    utterance.volume = 1.0;
-
-    // Event handlers
-    utterance.onstart = () => {
-      setIsSpeaking(true);
-      setIsPaused(false);
-    };
-
-    utterance.onend = () => {
-      setIsSpeaking(false);
-      setIsPaused(false);
-    };
-
-    utterance.onerror = (event) => {
-      console.error('Speech synthesis error:', event);
-      setIsSpeaking(false);
-      setIsPaused(false);
-    };
-
-    // Start speaking
-    window.speechSynthesis.speak(utterance);
+    const range = document.createRange();
+    range.selectNodeContents(activeElement);
+    const map = mapRange(range);
+    return map.text.trim() ? { label: activeElement.getAttribute('aria-label') || 'Focused item', text: map.text, map } : null;
   };
 
-  const pauseResume = () => {
-    if (!isSupported || !isSpeaking) return;
+  // Read sentence by sentence, highlighting each one and its words in place
+  const read = ({ label, text, map }: ReadingSource) => {
+    const sentences = splitSentences(text);
+    if (!sentences.length) return;
+    setNotice(null);
+    speakItems({
+      owner: OWNER,
+      label,
+      items: sentences.map(sentence => text.slice(sentence.start, sentence.end)),
+      breaks: map ? textBreaks(map, sentences) : undefined,
+      onItem: (index) => {
+        const range = map && rangeFor(map, sentences[index]);
+        showHighlight('tts-sentence', range);
+        showHighlight('tts-word', null);
+        if (range) revealRange(range);
+      },
+      onWord: (index, word) => {
+        if (!map) return;
+        const offset = sentences[index].start;
+        showHighlight('tts-word', rangeFor(map, { start: offset + word.start, end: offset + word.end }));
+      },
+      onDone: clearHighlights
+    });
+  };
 
-    if (isPaused) {
-      window.speechSynthesis.resume();
-      setIsPaused(false);
-    } else {
-      window.speechSynthesis.pause();
-      setIsPaused(true);
+  const speak = () => {
+    const source = getSelectedSource();
+    if (!source) {
+      setNotice('Select some text, or use the 🔊 button on a card, to hear it read aloud.');
+      setShowPanel(true);
+      return;
     }
+    read(source);
   };
 
-  const stop = () => {
-    if (!isSupported) return;
-    window.speechSynthesis.cancel();
-    setIsSpeaking(false);
-    setIsPaused(false);
+  const readCard = (card: HTMLElement) => {
+    const range = document.createRange();
+    range.selectNodeContents(card);
+    const map = mapRange(range);
+    const label = card.querySelector('h1, h2, h3, h4')?.textContent?.trim() || 'Card';
+    if (map.text.trim()) read({ label, text: map.text, map });
   };
 
-  // Keyboard shortcuts
+  // Keyboard shortcuts (these control whatever is being read)
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
       // Alt + S to start/stop
@@ -154,7 +143,7 @@ export default function TextToSpeech() {
       // Alt + P to pause/resume
       if (e.altKey && e.key === 'p' && isSpeaking) {
         e.preventDefault();
-        pauseResume();
+        togglePause();
       }
     };
 
@@ -162,12 +151,75 @@ export default function TextToSpeech() {
     return () => window.removeEventListener('keydown', handleKeyPress);
   }, [isSpeaking, isPaused]);
 
-  if (!isSupported) {
-    return null;
-  }
-
   return (
     <>
+      <style>{`
+        ::highlight(tts-sentence) {
+          background-color: rgba(120, 160, 255, 0.18);
+        }
+
+        ::highlight(tts-word) {
+          background-color: rgba(255, 214, 10, 0.55);
+          color: inherit;
+        }
+
+        /* Fallback where CSS highlights are not supported */
+        .tts-overlay div {
+          position: fixed;
+          pointer-events: none;
+          z-index: 999;
+          border-radius: 3px;
+        }
+
+        .tts-sentence div {
+          background: rgba(120, 160, 255, 0.18);
+        }
+
+        .tts-word div {
+          background: rgba(255, 214, 10, 0.45);
+        }
+
+        .card {
+          position: relative;
+        }
+
+        .tts-card-btn {
+          position: absolute;
+          top: 10px;
+          right: 10px;
+          padding: 4px 6px;
+          background: var(--surface-2);
+          border: 1px solid var(--surface-3);
+          border-radius: 8px;
+          color: var(--text-1);
+          cursor: pointer;
+          font-size: 14px;
+          line-height: 1;
+          opacity: 0.55;
+          transition: opacity 0.15s;
+        }
+
+        .card:hover > .tts-card-btn,
+        .tts-card-btn:focus-visible {
+          opacity: 1;
+        }
+      `}</style>
+
+      {cards.map((card, index) =>
+        createPortal(
+          <button
+            className="tts-card-btn tts-skip"
+            onClick={() => readCard(card)}
+            title="Read this card aloud"
+            aria-label={`Read ${card.querySelector('h1, h2, h3, h4')?.textContent?.trim() || 'this card'} aloud`}
+          >
+            🔊
+          </button>,
+          card,
+          String(index)
+        )
+      )}
+
       <button
         className="tts-toggle"
         onClick={() => setShowPanel(!showPanel)}
@@ -225,64 +277,16 @@ export default function TextToSpeech() {
             </button>
           </div>
 
-          {/* Voice Selection */}
-          <div style={{ marginBottom: '12px' }}>
-            <label style={{ display: 'block', fontSize: '12px', marginBottom: '4px', color: 'var(--text-2)' }}>
-              Voice
-            </label>
-            <select
-              value={selectedVoice}
-              onChange={(e) => setSelectedVoice(e.target.value)}
-              style={{
-                width: '100%',
-                padding: '6px',
-                background: 'var(--surface-2)',
-                border: '1px solid var(--surface-3)',
-                borderRadius: '6px',
-                color: 'var(--text-1)',
-                fontSize: '14px',
-              }}
-            >
-              {voices.map((voice) => (
-                <option key={voice.name} value={voice.name}>
-                  {voice.name} ({voice.lang})
-                </option>
-              ))}
-            </select>
-          </div>
-
-          {/* Speed Control */}
-          <div style={{ marginBottom: '12px' }}>
-            <label style={{ display: 'block', fontSize: '12px', marginBottom: '4px', color: 'var(--text-2)' }}>
-              Speed: {rate.toFixed(1)}x
-            </label>
-            <input
-              type="range"
-              min="0.5"
-              max="2"
-              step="0.1"
-              value={rate}
-              onChange={(e) => setRate(parseFloat(e.target.value))}
-              style={{ width: '100%' }}
-            />
-          </div>
-
-          {/* Pitch Control */}
           <div style={{ marginBottom: '16px' }}>
-            <label style={{ display: 'block', fontSize: '12px', marginBottom: '4px', color: 'var(--text-2)' }}>
-              Pitch: {pitch.toFixed(1)}
-            </label>
-            <input
-              type="range"
-              min="0.5"
-              max="2"
-              step="0.1"
-              value={pitch}
-              onChange={(e) => setPitch(parseFloat(e.target.value))}
-              style={{ width: '100%' }}
-            />
+            <VoiceSettings />
           </div>
 
+          {notice && (
+            <p role="status" style={{ margin: '0 0 12px', fontSize: '13px', color: 'var(--warn-500)' }}>
+              {notice}
+            </p>
+          )}
+
           {/* Control Buttons */}
           <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
             {!isSpeaking ? (
@@ -311,7 +315,7 @@ export default function TextToSpeech() {
             ) : (
               <>
                 <button
-                  onClick={pauseResume}
+                  onClick={togglePause}
                   style={{
                     flex: 1,
                     padding: '8px 12px',
@@ -326,7 +330,7 @@ export default function TextToSpeech() {
                   {isPaused ? 'Resume' : 'Pause'}
                 </button>
                 <button
-                  onClick={stop}
+                  onClick={() => stop()}
                   style={{
                     flex: 1,
                     padding: '8px 12px',
@@ -349,6 +353,7 @@ export default function TextToSpeech() {
             <p style={{ margin: 0, fontSize: '11px', color: 'var(--text-2)', lineHeight: '1.5' }}>
               <strong>Tips:</strong><br />
               • Select text and click "Speak" or press Alt+S<br />
+              • Or press 🔊 on any card to read all of it<br />
               • Pause/Resume with Alt+P<br />
               • Adjust speed and pitch for comfort<br />
               • Choose a voice in your preferred language
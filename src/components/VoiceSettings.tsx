@@ -0,0 +1,299 @@
+import React, { useId } from 'react';
+import { useSpeech } from './SpeechContext';
+import { MAX_RATE, MIN_RATE } from '../lib/speechService';
+import PronunciationEditor from './PronunciationEditor';
+
+/**
+ * VoiceSettings Component
+ *
+ * Voice controls shared by everything that reads aloud.  Changes are saved
+ * to the selected voice profile straight away.
+ *
+ * Features:
+ * - Named voice profiles: switch, add (copying the current one), rename
+ *   and delete
+ * - Voice, speed, pitch and volume for the selected profile
+ * - Pauses between sentences, paragraphs and headings, and an option to
+ *   stop every few sentences (with a recap prompt) until you go on
+ * - The user's pronunciation lexicon, used with every profile
+ */
+
+const HOLD_OPTIONS = [0, 1, 3, 5, 10, 20];
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+export default function VoiceSettings() {
+  const {
+    voices,
+    profiles,
+    profile,
+    selectProfile,
+    updateProfile,
+    addProfile,
+    deleteProfile,
+    lexicon,
+    setLexicon,
+    pacing,
+    updatePacing,
+    audible,
+    engineName
+  } = useSpeech();
+  // Both the header panel and the document reader can show these at once
+  const id = useId();
+
+  const handleAdd = () => {
+    const name = window.prompt('Name for the new voice profile', `${profile.name} copy`)?.trim();
+    if (name) addProfile(name);
+  };
+
+  const handleRename = () => {
+    const name = window.prompt('Rename voice profile', profile.name)?.trim();
+    if (name) updateProfile({ name });
+  };
+
+  return (
+    <div className="voice-profile-settings">
+      <style>{`
+        .voice-profile-settings {
+          display: flex;
+          flex-direction: column;
+          gap: 12px;
+        }
+
+        .voice-profile-row {
+          display: flex;
+          gap: 6px;
+        }
+
+        .voice-profile-row select {
+          flex: 1;
+          min-width: 0;
+        }
+
+        .voice-profile-settings label {
+          display: block;
+          margin-bottom: 4px;
+          font-size: 12px;
+          color: var(--text-2);
+        }
+
+        .voice-profile-settings select {
+          width: 100%;
+          padding: 6px;
+          background: var(--surface-2);
+          border: 1px solid var(--surface-3);
+          border-radius: 6px;
+          color: var(--text-1);
+          font-size: 14px;
+        }
+
+        .voice-profile-settings input[type='range'] {
+          width: 100%;
+        }
+
+        .voice-profile-btn {
+          padding: 4px 8px;
+          background: var(--surface-2);
+          border: 1px solid var(--surface-3);
+          border-radius: 6px;
+          color: var(--text-1);
+          cursor: pointer;
+          font-size: 13px;
+        }
+
+        .voice-profile-btn:disabled {
+          opacity: 0.5;
+          cursor: default;
+        }
+
+        .voice-profile-section > div + div {
+          margin-top: 10px;
+        }
+
+        .voice-profile-settings .voice-profile-check {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          margin: 0;
+          font-size: 13px;
+          color: var(--text-1);
+        }
+
+        .voice-profile-section summary {
+          font-size: 12px;
+          color: var(--text-2);
+          cursor: pointer;
+        }
+
+        .voice-profile-section[open] summary {
+          margin-bottom: 8px;
+        }
+
+        .voice-profile-note {
+          margin: 0;
+          font-size: 12px;
+          color: var(--warn-500);
+        }
+      `}</style>
+
+      <div>
+        <label htmlFor={`${id}-profile`}>Voice profile</label>
+        <div className="voice-profile-row">
+          <select id={`${id}-profile`} value={profile.id} onChange={(e) => selectProfile(e.target.value)}>
+            {profiles.map(p => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          <button className="voice-profile-btn" onClick={handleAdd} title="New profile" aria-label="New voice profile">
+            +
+          </button>
+          <button className="voice-profile-btn" onClick={handleRename} title="Rename" aria-label="Rename voice profile">
+            ✏️
+          </button>
+          <button
+            className="voice-profile-btn"
+            onClick={() => deleteProfile(profile.id)}
+            disabled={profiles.length <= 1}
+            title="Delete"
+            aria-label="Delete voice profile"
+          >
+            🗑️
+          </button>
+        </div>
+      </div>
+
+      {!audible && (
+        <p className="voice-profile-note">
+          Speech is not available in this browser ({engineName}): text is highlighted at reading pace without sound.
+        </p>
+      )}
+
+      <div>
+        <label htmlFor={`${id}-voice`}>Voice</label>
+        <select
+          id={`${id}-voice`}
+          value={profile.voice}
+          onChange={(e) => updateProfile({ voice: e.target.value })}
+        >
+          <option value="">Automatic (your language)</option>
+          {voices.map(voice => (
+            <option key={voice.name} value={voice.name}>
+              {voice.name} ({voice.lang})
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor={`${id}-rate`}>Speed: {profile.rate.toFixed(1)}x</label>
+        <input
+          id={`${id}-rate`}
+          type="range"
+          min={MIN_RATE}
+          max={MAX_RATE}
+          step="0.1"
+          value={profile.rate}
+          onChange={(e) => updateProfile({ rate: parseFloat(e.target.value) })}
+        />
+      </div>
+
+      <div>
+        <label htmlFor={`${id}-pitch`}>Pitch: {profile.pitch.toFixed(1)}</label>
+        <input
+          id={`${id}-pitch`}
+          type="range"
+          min="0.5"
+          max="2"
+          step="0.1"
+          value={profile.pitch}
+          onChange={(e) => updateProfile({ pitch: parseFloat(e.target.value) })}
+        />
+      </div>
+
+      <div>
+        <label htmlFor={`${id}-volume`}>Volume: {Math.round(profile.volume * 100)}%</label>
+        <input
+          id={`${id}-volume`}
+          type="range"
+          min="0"
+          max="1"
+          step="0.05"
+          value={profile.volume}
+          onChange={(e) => updateProfile({ volume: parseFloat(e.target.value) })}
+        />
+      </div>
+
+      <details className="voice-profile-section">
+        <summary>Pauses and pacing</summary>
+        <div>
+          <label htmlFor={`${id}-sentence-pause`}>After each sentence: {seconds(pacing.sentencePause)}</label>
+          <input
+            id={`${id}-sentence-pause`}
+            type="range"
+            min="0"
+            max="2000"
+            step="100"
+            value={pacing.sentencePause}
+            onChange={(e) => updatePacing({ sentencePause: Number(e.target.value) })}
+          />
+        </div>
+        <div>
+          <label htmlFor={`${id}-paragraph-pause`}>After each paragraph: {seconds(pacing.paragraphPause)}</label>
+          <input
+            id={`${id}-paragraph-pause`}
+            type="range"
+            min="0"
+            max="4000"
+            step="100"
+            value={pacing.paragraphPause}
+            onChange={(e) => updatePacing({ paragraphPause: Number(e.target.value) })}
+          />
+        </div>
+        <div>
+          <label htmlFor={`${id}-heading-pause`}>Around headings: {seconds(pacing.headingPause)}</label>
+          <input
+            id={`${id}-heading-pause`}
+            type="range"
+            min="0"
+            max="4000"
+            step="100"
+            value={pacing.headingPause}
+            onChange={(e) => updatePacing({ headingPause: Number(e.target.value) })}
+          />
+        </div>
+        <div>
+          <label htmlFor={`${id}-hold`}>Stop and wait for me</label>
+          <select
+            id={`${id}-hold`}
+            value={pacing.holdEvery}
+            onChange={(e) => updatePacing({ holdEvery: Number(e.target.value) })}
+          >
+            {HOLD_OPTIONS.map(count => (
+              <option key={count} value={count}>
+                {count === 0 ? 'Never' : count === 1 ? 'After every sentence' : `After every ${count} sentences`}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="voice-profile-check">
+            <input
+              type="checkbox"
+              checked={pacing.recap}
+              disabled={!pacing.holdEvery}
+              onChange={(e) => updatePacing({ recap: e.target.checked })}
+            />
+            Ask me to recap before going on
+          </label>
+        </div>
+      </details>
+
+      <details className="voice-profile-section">
+        <summary>Pronunciations ({lexicon.length})</summary>
+        <PronunciationEditor title="Your pronunciations, used everywhere" rules={lexicon} onChange={setLexicon} />
+      </details>
+    </div>
+  );
+}
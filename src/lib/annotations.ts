@@ -0,0 +1,127 @@
+import { blockPieces, BlockPoint, comparePoints, DocumentBlock } from './blocks';
+import { TextRange } from './speech';
+
+/**
+ * Highlights and notes
+ *
+ * Annotations are anchored to positions in the block model (block, piece,
+ * character offset) rather than to DOM nodes, so they are drawn the same
+ * way whether the text is shown plain, with Bionic Reading, in chunks or
+ * with read-along marks.  The highlighted text is kept as a quote for the
+ * side panel and for export.
+ */
+
+export const HIGHLIGHT_COLORS = ['yellow', 'green', 'blue', 'pink'] as const;
+
+export type HighlightColor = (typeof HIGHLIGHT_COLORS)[number];
+
+export interface Annotation {
+  id: string;
+  section?: number; // chapter, for documents with sections
+  start: BlockPoint;
+  end: BlockPoint; // exclusive offset in the last piece
+  quote: string;
+  color: HighlightColor;
+  note?: string;
+  created: number;
+}
+
+export const createAnnotationId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const WORD_CHAR = /[\p{L}\p{N}\p{M}'’_-]/u;
+
+/**
+ * Widens a range within one piece of text to whole words, so a highlight
+ * never starts or ends part way through a word.
+ */
+export function snapToWords(text: string, { start, end }: TextRange): TextRange {
+  while (start > 0 && WORD_CHAR.test(text[start - 1]) && WORD_CHAR.test(text[start])) start--;
+  while (end < text.length && WORD_CHAR.test(text[end - 1] ?? '') && WORD_CHAR.test(text[end])) end++;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return { start, end };
+}
+
+/** The text between two positions; separate pieces go on separate lines. */
+export function textBetween(blocks: DocumentBlock[], start: BlockPoint, end: BlockPoint): string {
+  const parts: string[] = [];
+  for (let block = start.block; block <= end.block && block < blocks.length; block++) {
+    blockPieces(blocks[block]).forEach((text, piece) => {
+      const range = rangeInPiece(start, end, block, piece, text.length);
+      if (range) parts.push(text.slice(range.start, range.end));
+    });
+  }
+  return parts.join('\n');
+}
+
+/** The part of one piece of text covered by a start/end pair, if any. */
+export function rangeInPiece(
+  start: BlockPoint,
+  end: BlockPoint,
+  block: number,
+  piece: number,
+  length: number
+): TextRange | null {
+  const here = { block, piece, offset: 0 };
+  const startsHere = start.block === block && start.piece === piece;
+  const endsHere = end.block === block && end.piece === piece;
+  if (!startsHere && comparePoints(here, start) < 0) return null;
+  if (!endsHere && comparePoints(here, end) > 0) return null;
+  const range = { start: startsHere ? start.offset : 0, end: endsHere ? end.offset : length };
+  return range.end > range.start ? range : null;
+}
+
+/** Sorts annotations into reading order. */
+export function sortAnnotations(annotations: Annotation[]): Annotation[] {
+  return [...annotations].sort((a, b) => (a.section ?? 0) - (b.section ?? 0) || comparePoints(a.start, b.start));
+}
+
+/**
+ * Finds the block positions covered by a DOM selection inside a rendered
+ * document.  Pieces of text are marked with data-piece (and data-offset
+ * when only part of the piece is shown) inside elements with data-block.
+ */
+export function selectionToPoints(root: HTMLElement, range: Range): { start: BlockPoint; end: BlockPoint } | null {
+  const pieces = Array.from(root.querySelectorAll<HTMLElement>('[data-piece]')).filter(el => range.intersectsNode(el));
+  if (!pieces.length) return null;
+
+  const pointIn = (el: HTMLElement, offset: number): BlockPoint => ({
+    block: Number(el.closest<HTMLElement>('[data-block]')?.dataset.block ?? 0),
+    piece: Number(el.dataset.piece),
+    offset: Number(el.dataset.offset ?? 0) + offset
+  });
+
+  // A selection end may sit outside any piece (e.g. after a triple click);
+  // fall back to the edge of the first or last piece it touches
+  const locate = (node: Node, offset: number): BlockPoint | null => {
+    const el = node instanceof Element ? node : node.parentElement;
+    const piece = el?.closest<HTMLElement>('[data-piece]');
+    if (!piece || !root.contains(piece)) return null;
+    const before = document.createRange();
+    before.setStart(piece, 0);
+    before.setEnd(node, offset);
+    return pointIn(piece, before.toString().length);
+  };
+
+  const first = pieces[0];
+  const last = pieces[pieces.length - 1];
+  return {
+    start: locate(range.startContainer, range.startOffset) ?? pointIn(first, 0),
+    end: locate(range.endContainer, range.endOffset) ?? pointIn(last, last.textContent?.length ?? 0)
+  };
+}
+
+/** Writes annotations out as Markdown: quotes with their notes, grouped by chapter. */
+export function annotationsToMarkdown(title: string, annotations: Annotation[], sectionTitles?: string[]): string {
+  const lines = [`# ${title}`, '', `Highlights and notes, exported ${new Date().toLocaleDateString()}`, ''];
+  let section = -1;
+  for (const annotation of sortAnnotations(annotations)) {
+    if (sectionTitles && (annotation.section ?? 0) !== section) {
+      section = annotation.section ?? 0;
+      lines.push(`## ${sectionTitles[section] ?? `Chapter ${section + 1}`}`, '');
+    }
+    lines.push(...annotation.quote.split('\n').map(line => `> ${line}`), '');
+    if (annotation.note?.trim()) lines.push(annotation.note.trim(), '');
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,116 @@
+/**
+ * Bionic Reading
+ *
+ * Works out which words to emphasise and how much of the start of each.
+ * Words are found by Unicode letter and number classes rather than \w, so
+ * accented and non-Latin words are emphasised too, and punctuation around
+ * a word ("quoted", (aside), end.) is left as written.
+ *
+ * - Contractions and elisions ("don't", "l'homme") are one word.
+ * - Each part of a hyphenated word is emphasised ("well-known"), but the
+ *   whole counts as one word for the saccade.
+ * - Numbers are left as written and are not counted as words.
+ * - Chinese and Japanese are left as written: there are no spaces to find
+ *   words by and a character has no "start" to pick out.  Latin words in
+ *   the same text are still emphasised.  Korean puts spaces between words
+ *   and is emphasised like other scripts.
+ * - Lengths are counted in characters as seen, so an accent written as a
+ *   combining mark is never split from its letter.
+ */
+
+export interface BionicOptions {
+  fixation: number; // 1-5: how much of each word is emphasised
+  saccade: number; // emphasise every Nth word; 1 for every word
+}
+
+/** A run of text; the first `bold` characters (UTF-16 units) are emphasised. */
+export interface BionicSegment {
+  text: string;
+  bold: number;
+}
+
+export const DEFAULT_BIONIC: BionicOptions = { fixation: 3, saccade: 1 };
+
+export const FIXATION_LEVELS = [1, 2, 3, 4, 5];
+export const SACCADE_LEVELS = [1, 2, 3, 4, 5];
+
+// Share of a longer word emphasised at each fixation level
+const FIXATION_RATIOS = [0.2, 0.3, 0.4, 0.5, 0.6];
+
+// Words, with apostrophes and hyphens inside them
+const WORD = /[\p{L}\p{M}\p{N}]+(?:['’\-‐][\p{L}\p{M}\p{N}]+)*/gu;
+const HYPHEN = /([-‐])/;
+const CJK = /([\p{sc=Han}\p{sc=Hiragana}\p{sc=Katakana}ー]+)/u;
+const GRAPHEME = /\P{M}\p{M}*/gu;
+
+/** How many UTF-16 units of a word (no hyphens) to emphasise; 0 for none. */
+function boldLength(word: string, ratio: number): number {
+  if (!/\p{L}/u.test(word)) return 0; // a number
+  const characters = word.match(GRAPHEME) ?? [];
+  const count = characters.length;
+  let length = Math.ceil(count * ratio);
+  if (count <= 3) {
+    length = 1; // For short words, just the first letter
+  } else if (count <= 5) {
+    length = Math.min(2, length);
+  }
+  return characters.slice(0, length).join('').length;
+}
+
+/** Splits text into plain and emphasised runs, keeping every character. */
+export function bionicSegments(text: string, options: Partial<BionicOptions> = {}): BionicSegment[] {
+  const { fixation, saccade } = { ...DEFAULT_BIONIC, ...options };
+  const ratio = FIXATION_RATIOS[Math.min(Math.max(Math.round(fixation), 1), FIXATION_RATIOS.length) - 1];
+  const every = Math.max(1, Math.round(saccade));
+  const segments: BionicSegment[] = [];
+  let counted = 0;
+
+  const plain = (part: string) => {
+    if (!part) return;
+    const last = segments[segments.length - 1];
+    if (last && !last.bold) last.text += part;
+    else segments.push({ text: part, bold: 0 });
+  };
+
+  text.split(CJK).forEach((run, index) => {
+    // split() puts the captured CJK runs at odd indexes
+    if (index % 2) {
+      plain(run);
+      return;
+    }
+    let position = 0;
+    for (const match of run.matchAll(WORD)) {
+      plain(run.slice(position, match.index));
+      position = match.index! + match[0].length;
+      if (!/\p{L}/u.test(match[0])) {
+        plain(match[0]);
+        continue;
+      }
+      const emphasise = counted++ % every === 0;
+      for (const part of match[0].split(HYPHEN)) {
+        const bold = emphasise && !HYPHEN.test(part) ? boldLength(part, ratio) : 0;
+        if (bold) segments.push({ text: part, bold });
+        else plain(part);
+      }
+    }
+    plain(run.slice(position));
+  });
+  return segments;
+}
+
+/**
+ * The segments covering [start, end) of their text, so text cut up for
+ * other markup keeps the emphasis (and saccade) of the whole.
+ */
+export function sliceSegments(segments: BionicSegment[], start: number, end: number): BionicSegment[] {
+  const sliced: BionicSegment[] = [];
+  let position = 0;
+  for (const { text, bold } of segments) {
+    const from = Math.max(start - position, 0);
+    const to = Math.min(end - position, text.length);
+    if (from < to) sliced.push({ text: text.slice(from, to), bold: Math.min(Math.max(bold - from, 0), to - from) });
+    position += text.length;
+    if (position >= end) break;
+  }
+  return sliced;
+}
@@ -0,0 +1,165 @@
+import { BionicOptions, bionicSegments, DEFAULT_BIONIC } from './bionic';
+
+/**
+ * Page-wide Bionic Reading
+ *
+ * Applies Bionic Reading to the parts of the page that opt in with a
+ * data-bionic attribute (data-bionic="off" opts a part back out), by
+ * walking their text nodes.  Form controls, code and editable text are
+ * never touched.
+ *
+ * React owns those text nodes, so they are never moved or removed: each
+ * one stays where it is, emptied, with an emphasised copy just after it.
+ * A MutationObserver redoes the copy when React changes the text and drops
+ * it when the text goes.  stop() puts every text node back as it was.
+ *
+ * Screen readers skip the emphasised copy (aria-hidden) and read the
+ * original text from a visually hidden span next to it, so words are never
+ * read out in pieces.
+ */
+
+const REGION = '[data-bionic]';
+const SKIP = [
+  'input',
+  'textarea',
+  'select',
+  'option',
+  'button',
+  'script',
+  'style',
+  'code',
+  'pre',
+  'kbd',
+  'svg',
+  '[contenteditable]:not([contenteditable="false"])',
+  '.bionic-copy',
+  '.bionic-word'
+].join(', ');
+
+export class BionicDom {
+  private options: BionicOptions;
+  private copies = new Map<Text, HTMLElement>();
+  private texts = new Map<Text, string>(); // the original text of each emptied node
+  private observer: MutationObserver | null = null;
+  private root: Element | null = null;
+
+  constructor(options: BionicOptions = DEFAULT_BIONIC) {
+    this.options = options;
+  }
+
+  /** Transforms opted-in regions under root, and keeps doing so as the page changes. */
+  start(root: Element = document.body) {
+    this.stop();
+    this.root = root;
+    this.observer = new MutationObserver(records => this.handleMutations(records));
+    this.observer.observe(root, { childList: true, subtree: true, characterData: true });
+    this.scan(root);
+  }
+
+  /** Puts every transformed text node back and stops watching. */
+  stop() {
+    this.observer?.disconnect();
+    this.observer = null;
+    this.root = null;
+    for (const node of [...this.copies.keys()]) this.restore(node);
+  }
+
+  setOptions(options: BionicOptions) {
+    this.options = options;
+    this.copies.forEach((copy, node) => this.render(copy, this.texts.get(node) ?? ''));
+  }
+
+  private eligible(node: Text): boolean {
+    const parent = node.parentElement;
+    if (!parent || !node.data.trim()) return false;
+    const region = parent.closest(REGION);
+    return !!region && region.getAttribute('data-bionic') !== 'off' && !parent.closest(SKIP);
+  }
+
+  private scan(root: Node) {
+    if (root.nodeType === Node.TEXT_NODE) {
+      this.transform(root as Text);
+      return;
+    }
+    if (root.nodeType !== Node.ELEMENT_NODE) return;
+    // Only look inside regions (the root may be in one, or contain some)
+    const element = root as Element;
+    const regions = element.closest(REGION) ? [element] : Array.from(element.querySelectorAll(REGION));
+    const found: Text[] = [];
+    for (const region of regions) {
+      const walker = document.createTreeWalker(region, NodeFilter.SHOW_TEXT);
+      while (walker.nextNode()) found.push(walker.currentNode as Text);
+    }
+    found.forEach(node => this.transform(node));
+  }
+
+  private transform(node: Text) {
+    if (this.copies.has(node) || !this.eligible(node)) return;
+    const text = node.data;
+    if (!bionicSegments(text, this.options).some(segment => segment.bold)) return;
+    const copy = document.createElement('span');
+    copy.className = 'bionic-copy';
+    this.render(copy, text);
+    node.after(copy);
+    this.copies.set(node, copy);
+    this.texts.set(node, text);
+    node.data = '';
+  }
+
+  private render(copy: HTMLElement, text: string) {
+    const visible = document.createElement('span');
+    visible.className = 'bionic-visible';
+    visible.setAttribute('aria-hidden', 'true');
+    for (const segment of bionicSegments(text, this.options)) {
+      if (!segment.bold) {
+        visible.append(segment.text);
+        continue;
+      }
+      const word = document.createElement('span');
+      word.className = 'bionic-word';
+      const bold = document.createElement('span');
+      bold.className = 'bionic-bold';
+      bold.textContent = segment.text.slice(0, segment.bold);
+      word.append(bold, segment.text.slice(segment.bold));
+      visible.append(word);
+    }
+    const spoken = document.createElement('span');
+    spoken.className = 'bionic-sr';
+    spoken.textContent = text;
+    copy.replaceChildren(visible, spoken);
+  }
+
+  private forget(node: Text) {
+    this.copies.get(node)?.remove();
+    this.copies.delete(node);
+    this.texts.delete(node);
+  }
+
+  private restore(node: Text) {
+    const text = this.texts.get(node);
+    this.forget(node);
+    if (text !== undefined && node.data === '') node.data = text;
+  }
+
+  private handleMutations(records: MutationRecord[]) {
+    for (const record of records) {
+      if (record.type === 'characterData') {
+        const node = record.target as Text;
+        // Emptied by us; anything else is new text from the app
+        if (!node.data || node.nodeType !== Node.TEXT_NODE) continue;
+        this.forget(node);
+        this.transform(node);
+      } else {
+        record.addedNodes.forEach(node => this.scan(node));
+      }
+    }
+    // Drop copies whose text has gone, and put back any the app removed
+    this.copies.forEach((copy, node) => {
+      if (!node.isConnected || !this.root?.contains(node)) {
+        this.forget(node);
+      } else if (!copy.isConnected) {
+        node.after(copy);
+      }
+    });
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Document block model
+ *
+ * Structured documents (Markdown, HTML, Word, EPUB) are kept as a list of
+ * blocks rather than one flat string, so the reader can show headings,
+ * lists, quotes and code as they were written, build an outline and read
+ * aloud one block at a time.  Every block can still be flattened back to
+ * plain text for word counts, search and older code paths.
+ */
+
+export interface ListItem {
+  depth: number; // nesting level, 0 for top-level items
+  marker: string; // "•", "1.", "a." ...
+  text: string;
+}
+
+export type DocumentBlock =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'list'; items: ListItem[] }
+  | { kind: 'quote'; text: string }
+  | { kind: 'code'; text: string; language?: string }
+  | { kind: 'table'; rows: string[][] };
+
+/** The text of one block, as it would be read aloud or written out. */
+export function blockText(block: DocumentBlock): string {
+  switch (block.kind) {
+    case 'list':
+      return block.items.map(item => `${'  '.repeat(item.depth)}${item.marker} ${item.text}`).join('\n');
+    case 'table':
+      return block.rows.map(row => row.join(' | ')).join('\n');
+    default:
+      return block.text;
+  }
+}
+
+/**
+ * The separately displayed runs of text in a block, in reading order: the
+ * block's text, each list item, or each table cell.  Read-along positions
+ * are given as offsets into one of these pieces.
+ */
+export function blockPieces(block: DocumentBlock): string[] {
+  switch (block.kind) {
+    case 'list':
+      return block.items.map(item => item.text);
+    case 'table':
+      return block.rows.flat();
+    default:
+      return [block.text];
+  }
+}
+
+/** A position in a document: block, piece within the block, and character offset in that piece. */
+export interface BlockPoint {
+  block: number;
+  piece: number;
+  offset: number;
+}
+
+/** Orders two positions in a document. */
+export function comparePoints(a: BlockPoint, b: BlockPoint): number {
+  return a.block - b.block || a.piece - b.piece || a.offset - b.offset;
+}
+
+/** Number of words in a run of text. */
+export const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+/** Flattens blocks to plain text, one blank line between blocks. */
+export function blocksToText(blocks: DocumentBlock[]): string {
+  return blocks.map(blockText).filter(text => text.trim()).join('\n\n');
+}
+
+const LIST_LINE = /^(\s*)([•\-*+]|\d+[.)]|[a-z][.)])\s+(.*)$/i;
+
+/**
+ * Recovers paragraphs and lists from plain text (blank lines separate
+ * paragraphs; runs of two or more bulleted or numbered lines become lists,
+ * so a lone line such as "A. Smith wrote..." stays a paragraph).  Used for
+ * documents that were imported without structure, such as PDFs and typed
+ * text.
+ */
+export function textToBlocks(text: string): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  for (const chunk of text.split(/\n[ \t]*\n/)) {
+    if (!chunk.trim()) continue;
+    const lines = chunk.split('\n').filter(line => line.trim());
+    const matches = lines.map(line => LIST_LINE.exec(line));
+    if (lines.length > 1 && matches.every(Boolean)) {
+      blocks.push({
+        kind: 'list',
+        items: matches.map(m => ({
+          depth: Math.floor(m![1].replace(/\t/g, '  ').length / 2),
+          marker: m![2],
+          text: m![3].trim(),
+        })),
+      });
+    } else {
+      blocks.push({ kind: 'paragraph', text: chunk.trim() });
+    }
+  }
+  return blocks;
+}
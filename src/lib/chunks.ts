@@ -0,0 +1,121 @@
+import { blockPieces, BlockPoint, comparePoints, countWords, DocumentBlock } from './blocks';
+import { splitSentences } from './speech';
+
+/**
+ * Reading chunks
+ *
+ * Splits a document into small pieces for the "one chunk at a time" view.
+ * Chunks are either one paragraph (block) each, or roughly a target number
+ * of words made of whole sentences, list items and blocks.  Headings always
+ * start a new chunk so they stay with the text they introduce.
+ *
+ * Chunk boundaries are positions in the block model (block, piece within
+ * the block, character offset in that piece), the same coordinates the
+ * speech queue uses, so read-aloud and chunks line up.
+ */
+
+export interface ReadingChunk {
+  start: BlockPoint;
+  end: BlockPoint; // exclusive offset in the last piece
+  words: number;
+}
+
+/** Where a reader is in the chunked view, saved with the document. */
+export interface ChunkProgress {
+  current: number;
+  completed: number[]; // chunk indexes marked as read
+}
+
+/** Chunk size choices; 0 means one paragraph per chunk. */
+export const CHUNK_SIZES = [0, 60, 120, 250];
+
+/** Chunk indexes depend on the section and chunk size, so progress is kept per pair. */
+export const chunkProgressKey = (section: number, wordsPerChunk: number) => `${section}:${wordsPerChunk}`;
+
+interface Unit {
+  start: BlockPoint;
+  end: BlockPoint;
+  words: number;
+  heading: boolean;
+}
+
+/** The smallest pieces a chunk can be built from. */
+function readingUnits(blocks: DocumentBlock[], splitBlocks: boolean): Unit[] {
+  const units: Unit[] = [];
+  blocks.forEach((block, index) => {
+    const pieces = blockPieces(block);
+    if (!pieces.some(piece => piece.trim())) return;
+    const heading = block.kind === 'heading';
+
+    if (splitBlocks && (block.kind === 'paragraph' || block.kind === 'quote')) {
+      for (const range of splitSentences(block.text)) {
+        units.push({
+          start: { block: index, piece: 0, offset: range.start },
+          end: { block: index, piece: 0, offset: range.end },
+          words: countWords(block.text.slice(range.start, range.end)),
+          heading
+        });
+      }
+    } else if (splitBlocks && block.kind === 'list') {
+      block.items.forEach((item, piece) => {
+        units.push({
+          start: { block: index, piece, offset: 0 },
+          end: { block: index, piece, offset: item.text.length },
+          words: countWords(item.text),
+          heading
+        });
+      });
+    } else {
+      const last = pieces.length - 1;
+      units.push({
+        start: { block: index, piece: 0, offset: 0 },
+        end: { block: index, piece: last, offset: pieces[last].length },
+        words: pieces.reduce((total, piece) => total + countWords(piece), 0),
+        heading
+      });
+    }
+  });
+  return units;
+}
+
+/**
+ * Groups a document's blocks into reading chunks of about `wordsPerChunk`
+ * words, or one paragraph each when `wordsPerChunk` is 0.
+ */
+export function buildChunks(blocks: DocumentBlock[], wordsPerChunk: number): ReadingChunk[] {
+  const chunks: ReadingChunk[] = [];
+  let current: ReadingChunk | null = null;
+  let endsWithHeading = false;
+
+  for (const unit of readingUnits(blocks, wordsPerChunk > 0)) {
+    if (current && !endsWithHeading) {
+      const full = wordsPerChunk > 0
+        ? current.words >= wordsPerChunk ||
+          // Stop early rather than overshoot badly
+          (current.words >= wordsPerChunk / 2 && current.words + unit.words > wordsPerChunk * 1.5)
+        : true;
+      if (unit.heading || full) {
+        chunks.push(current);
+        current = null;
+      }
+    }
+    if (current) {
+      current.end = unit.end;
+      current.words += unit.words;
+    } else {
+      current = { start: unit.start, end: unit.end, words: unit.words };
+    }
+    endsWithHeading = unit.heading;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/** Index of the chunk containing a position (the last chunk starting at or before it). */
+export function findChunk(chunks: ReadingChunk[], point: BlockPoint): number {
+  let found = 0;
+  chunks.forEach((chunk, index) => {
+    if (comparePoints(chunk.start, point) <= 0) found = index;
+  });
+  return found;
+}
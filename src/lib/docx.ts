@@ -0,0 +1,284 @@
+import { blocksToText, DocumentBlock } from './blocks';
+import { openZip, resolvePackagePath } from './zip';
+
+/**
+ * DOCX text extraction
+ *
+ * Reads a Word (.docx) package in the browser and converts the main
+ * document part into document blocks and structured plain text:
+ * - Headings (built-in Heading/Title styles or an outline level) become
+ *   their own paragraphs
+ * - Bulleted and numbered lists keep their markers, numbering and nesting
+ * - Tables are written one row per line with cells separated by " | "
+ * - Ordinary paragraphs are separated by blank lines
+ *
+ * Revision marks, field codes and fallback copies of drawing content are
+ * skipped so the text matches what the reader sees in Word.
+ */
+
+export interface DocxTextResult {
+  /** The document's text with paragraph, list and table structure kept. */
+  text: string;
+  /** The same content as headings, paragraphs, lists and tables. */
+  blocks: DocumentBlock[];
+}
+
+interface StyleInfo {
+  name: string;
+  basedOn?: string;
+  outlineLevel?: number;
+}
+
+interface ListLevel {
+  format: string; // w:numFmt value, e.g. "bullet", "decimal", "lowerLetter"
+  start: number;
+}
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+
+const children = (el: Element, name?: string) =>
+  Array.from(el.children).filter(child => !name || child.localName === name);
+
+const child = (el: Element | null | undefined, name: string) =>
+  el ? Array.from(el.children).find(c => c.localName === name) ?? null : null;
+
+// Attributes are namespaced (w:val); match on the local name so documents
+// using a different prefix still parse.
+const attr = (el: Element | null | undefined, name: string) => {
+  if (!el) return null;
+  for (const a of Array.from(el.attributes)) {
+    if (a.localName === name) return a.value;
+  }
+  return null;
+};
+
+function readStyles(doc: Document | null): Map<string, StyleInfo> {
+  const styles = new Map<string, StyleInfo>();
+  if (!doc) return styles;
+  for (const style of Array.from(doc.getElementsByTagNameNS('*', 'style'))) {
+    const id = attr(style, 'styleId');
+    if (!id) continue;
+    const outline = attr(child(child(style, 'pPr'), 'outlineLvl'), 'val');
+    styles.set(id, {
+      name: attr(child(style, 'name'), 'val') ?? id,
+      basedOn: attr(child(style, 'basedOn'), 'val') ?? undefined,
+      outlineLevel: outline !== null ? Number(outline) : undefined,
+    });
+  }
+  return styles;
+}
+
+const readLevel = (lvl: Element): ListLevel => ({
+  format: attr(child(lvl, 'numFmt'), 'val') ?? 'decimal',
+  start: Number(attr(child(lvl, 'start'), 'val') ?? 1),
+});
+
+function readNumbering(doc: Document | null): Map<string, ListLevel[]> {
+  const lists = new Map<string, ListLevel[]>();
+  if (!doc) return lists;
+
+  const abstracts = new Map<string, ListLevel[]>();
+  for (const abstract of Array.from(doc.getElementsByTagNameNS('*', 'abstractNum'))) {
+    const levels: ListLevel[] = [];
+    for (const lvl of children(abstract, 'lvl')) {
+      levels[Number(attr(lvl, 'ilvl') ?? 0)] = readLevel(lvl);
+    }
+    abstracts.set(attr(abstract, 'abstractNumId') ?? '', levels);
+  }
+
+  for (const num of Array.from(doc.getElementsByTagNameNS('*', 'num'))) {
+    const abstractId = attr(child(num, 'abstractNumId'), 'val') ?? '';
+    const levels = [...(abstracts.get(abstractId) ?? [])];
+    // A list can reuse another's definition but redefine a level or
+    // restart its numbering
+    for (const override of children(num, 'lvlOverride')) {
+      const ilvl = Number(attr(override, 'ilvl') ?? 0);
+      const lvl = child(override, 'lvl');
+      if (lvl) levels[ilvl] = readLevel(lvl);
+      const start = attr(child(override, 'startOverride'), 'val');
+      if (start !== null) levels[ilvl] = { format: levels[ilvl]?.format ?? 'decimal', start: Number(start) };
+    }
+    lists.set(attr(num, 'numId') ?? '', levels);
+  }
+  return lists;
+}
+
+const toRoman = (n: number) => {
+  const numerals: [number, string][] = [
+    [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+    [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+  ];
+  let out = '';
+  for (const [value, numeral] of numerals) {
+    while (n >= value) {
+      out += numeral;
+      n -= value;
+    }
+  }
+  return out;
+};
+
+const toLetters = (n: number) => {
+  let out = '';
+  for (; n > 0; n = Math.floor((n - 1) / 26)) out = String.fromCharCode(97 + ((n - 1) % 26)) + out;
+  return out;
+};
+
+/** Formats a list counter the way Word would display it. */
+function formatCounter(format: string, n: number): string {
+  switch (format) {
+    case 'lowerLetter': return toLetters(n);
+    case 'upperLetter': return toLetters(n).toUpperCase();
+    case 'lowerRoman': return toRoman(n);
+    case 'upperRoman': return toRoman(n).toUpperCase();
+    default: return String(n);
+  }
+}
+
+/** Collects the visible text of a paragraph (or any run container). */
+function paragraphText(el: Element): string {
+  let text = '';
+  const walk = (node: Element) => {
+    for (const c of Array.from(node.children)) {
+      switch (c.localName) {
+        case 't':
+          text += c.textContent ?? '';
+          break;
+        case 'tab':
+          text += '\t';
+          break;
+        case 'br':
+        case 'cr':
+          text += '\n';
+          break;
+        case 'noBreakHyphen':
+          text += '-';
+          break;
+        case 'del':
+        case 'instrText':
+        case 'Fallback':
+        case 'pPr':
+        case 'rPr':
+          break;
+        default:
+          walk(c);
+      }
+    }
+  };
+  walk(el);
+  return text.replace(/[ \t]+/g, ' ').trim();
+}
+
+/**
+ * Extracts structured text from the bytes of a .docx file.
+ */
+export async function extractDocxText(data: Uint8Array): Promise<DocxTextResult> {
+  const zip = openZip(data);
+
+  // The package relationships name the main document part; it is almost
+  // always word/document.xml, which we fall back to.
+  let mainPath = 'word/document.xml';
+  const rootRels = await zip.readText('_rels/.rels');
+  if (rootRels) {
+    for (const rel of Array.from(parseXml(rootRels).getElementsByTagNameNS('*', 'Relationship'))) {
+      if ((attr(rel, 'Type') ?? '').endsWith('/officeDocument')) {
+        mainPath = resolvePackagePath('', attr(rel, 'Target') ?? mainPath);
+      }
+    }
+  }
+
+  const documentXml = await zip.readText(mainPath);
+  if (!documentXml) {
+    throw new Error('This file is not a Word document.');
+  }
+  const partPath = (name: string) => resolvePackagePath(mainPath, name);
+  const stylesXml = await zip.readText(partPath('styles.xml'));
+  const numberingXml = await zip.readText(partPath('numbering.xml'));
+  const styles = readStyles(stylesXml ? parseXml(stylesXml) : null);
+  const numbering = readNumbering(numberingXml ? parseXml(numberingXml) : null);
+
+  const headingLevel = (styleId: string | null, pPr: Element | null): number | null => {
+    const direct = attr(child(pPr, 'outlineLvl'), 'val');
+    if (direct !== null && Number(direct) < 9) return Number(direct) + 1;
+    for (let id = styleId, depth = 0; id && depth < 10; depth++) {
+      const style = styles.get(id);
+      if (!style) break;
+      const match = /^heading\s*(\d)$/i.exec(style.name);
+      if (match) return Number(match[1]);
+      if (/^title$/i.test(style.name)) return 1;
+      if (/^subtitle$/i.test(style.name)) return 2;
+      if (style.outlineLevel !== undefined && style.outlineLevel < 9) return style.outlineLevel + 1;
+      id = style.basedOn ?? null;
+    }
+    return null;
+  };
+
+  const counters = new Map<string, number[]>();
+  const listMarker = (numId: string, level: number) => {
+    const def = numbering.get(numId)?.[level];
+    if (!def || def.format === 'bullet' || def.format === 'none') return '•';
+    const counts = counters.get(numId) ?? [];
+    counts[level] = (counts[level] ?? def.start - 1) + 1;
+    counts.length = level + 1; // restart deeper levels
+    counters.set(numId, counts);
+    return `${formatCounter(def.format, counts[level])}.`;
+  };
+
+  const blocks: DocumentBlock[] = [];
+
+  const addParagraph = (p: Element) => {
+    const text = paragraphText(p);
+    if (!text) return;
+    const pPr = child(p, 'pPr');
+    const styleId = attr(child(pPr, 'pStyle'), 'val');
+
+    const level = headingLevel(styleId, pPr);
+    if (level !== null) {
+      blocks.push({ kind: 'heading', level, text });
+      return;
+    }
+
+    const numPr = child(pPr, 'numPr');
+    const numId = attr(child(numPr, 'numId'), 'val');
+    if (numId && numId !== '0') {
+      const depth = Number(attr(child(numPr, 'ilvl'), 'val') ?? 0);
+      const item = { depth, marker: listMarker(numId, depth), text };
+      const last = blocks[blocks.length - 1];
+      if (last?.kind === 'list') last.items.push(item);
+      else blocks.push({ kind: 'list', items: [item] });
+      return;
+    }
+    blocks.push({ kind: 'paragraph', text });
+  };
+
+  const tableRows = (tbl: Element): string[][] =>
+    children(tbl, 'tr').map(tr =>
+      children(tr, 'tc').map(tc =>
+        Array.from(tc.children)
+          .map(el => (el.localName === 'tbl' ? tableRows(el).map(r => r.join(' | ')).join('; ') : paragraphText(el)))
+          .filter(Boolean)
+          .join(' ')
+      )
+    );
+
+  const walkBody = (container: Element) => {
+    for (const el of Array.from(container.children)) {
+      if (el.localName === 'p') {
+        addParagraph(el);
+      } else if (el.localName === 'tbl') {
+        const rows = tableRows(el).filter(row => row.some(Boolean));
+        if (rows.length) blocks.push({ kind: 'table', rows });
+      } else if (el.localName === 'sdt') {
+        const content = child(el, 'sdtContent');
+        if (content) walkBody(content);
+      } else if (el.localName === 'customXml' || el.localName === 'ins') {
+        walkBody(el);
+      }
+    }
+  };
+
+  const body = parseXml(documentXml).getElementsByTagNameNS('*', 'body')[0];
+  if (body) walkBody(body);
+
+  return { text: blocksToText(blocks), blocks };
+}
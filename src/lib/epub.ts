@@ -0,0 +1,140 @@
+import { openZip, resolvePackagePath, ZipArchive } from './zip';
+import { blocksToText, DocumentBlock } from './blocks';
+import { htmlToBlocks } from './html';
+
+/**
+ * EPUB import
+ *
+ * Reads an EPUB 2 or EPUB 3 book in the browser.  The OPF package document
+ * gives the reading order (the spine); chapter titles come from the EPUB 3
+ * navigation document or, for older books, the NCX table of contents.  Each
+ * spine item with readable text becomes one chapter.
+ */
+
+export interface EpubChapter {
+  title: string;
+  content: string;
+  blocks: DocumentBlock[];
+}
+
+export interface EpubBook {
+  title?: string;
+  chapters: EpubChapter[];
+}
+
+interface ManifestItem {
+  href: string;
+  mediaType: string;
+  properties: string;
+}
+
+const parse = (text: string, type: DOMParserSupportedType) => new DOMParser().parseFromString(text, type);
+
+const byName = (root: Document | Element, name: string) => Array.from(root.getElementsByTagNameNS('*', name));
+
+// Chapters are XHTML, but plenty of books ship markup that is not
+// well-formed XML; fall back to the forgiving HTML parser for those.
+function parseChapter(text: string): Document {
+  const doc = parse(text, 'application/xhtml+xml');
+  return doc.getElementsByTagName('parsererror').length ? parse(text, 'text/html') : doc;
+}
+
+/** Maps chapter file paths to the first table-of-contents label pointing at them. */
+async function readTableOfContents(
+  zip: ZipArchive,
+  manifest: Map<string, ManifestItem>,
+  tocId: string | null
+): Promise<Map<string, string>> {
+  const labels = new Map<string, string>();
+  const add = (base: string, href: string | null, label: string | null | undefined) => {
+    const text = label?.replace(/\s+/g, ' ').trim();
+    if (!href || !text) return;
+    const path = resolvePackagePath(base, href);
+    if (!labels.has(path)) labels.set(path, text);
+  };
+
+  // EPUB 3 navigation document
+  const nav = [...manifest.values()].find(item => item.properties.split(/\s+/).includes('nav'));
+  if (nav) {
+    const text = await zip.readText(nav.href);
+    if (text) {
+      const doc = parseChapter(text);
+      const navs = Array.from(doc.getElementsByTagName('nav'));
+      const toc = navs.find(n => (n.getAttribute('epub:type') ?? n.getAttributeNS('http://www.idpf.org/2007/ops', 'type') ?? '').includes('toc')) ?? navs[0];
+      for (const a of Array.from(toc?.getElementsByTagName('a') ?? [])) {
+        add(nav.href, a.getAttribute('href'), a.textContent);
+      }
+    }
+  }
+
+  // EPUB 2 NCX
+  const ncx = (tocId && manifest.get(tocId)) || [...manifest.values()].find(item => item.mediaType === 'application/x-dtbncx+xml');
+  if (ncx) {
+    const text = await zip.readText(ncx.href);
+    if (text) {
+      for (const point of byName(parse(text, 'application/xml'), 'navPoint')) {
+        const label = byName(point, 'text')[0]?.textContent;
+        const src = byName(point, 'content')[0]?.getAttribute('src') ?? null;
+        add(ncx.href, src, label);
+      }
+    }
+  }
+  return labels;
+}
+
+/**
+ * Reads the chapters of an EPUB file in spine order.  Throws if the file is
+ * not a valid EPUB package.
+ */
+export async function extractEpub(data: Uint8Array): Promise<EpubBook> {
+  const zip = openZip(data);
+
+  const container = await zip.readText('META-INF/container.xml');
+  const opfPath = container
+    ? byName(parse(container, 'application/xml'), 'rootfile')[0]?.getAttribute('full-path')
+    : zip.paths.find(path => path.toLowerCase().endsWith('.opf'));
+  const opfText = opfPath ? await zip.readText(opfPath) : null;
+  if (!opfPath || !opfText) {
+    throw new Error('This file is not a valid EPUB book.');
+  }
+
+  const opf = parse(opfText, 'application/xml');
+  const manifest = new Map<string, ManifestItem>();
+  for (const item of byName(opf, 'item')) {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (!id || !href) continue;
+    manifest.set(id, {
+      href: resolvePackagePath(opfPath, href),
+      mediaType: item.getAttribute('media-type') ?? '',
+      properties: item.getAttribute('properties') ?? '',
+    });
+  }
+
+  const spine = byName(opf, 'spine')[0];
+  const labels = await readTableOfContents(zip, manifest, spine?.getAttribute('toc') ?? null);
+
+  const chapters: EpubChapter[] = [];
+  for (const ref of byName(opf, 'itemref')) {
+    const item = manifest.get(ref.getAttribute('idref') ?? '');
+    if (!item || !/html/.test(item.mediaType)) continue;
+    const text = await zip.readText(item.href);
+    if (!text) continue;
+
+    const doc = parseChapter(text);
+    const body = doc.getElementsByTagName('body')[0] ?? doc.documentElement;
+    const blocks = htmlToBlocks(body);
+    const content = blocksToText(blocks);
+    if (!content.trim()) continue; // cover images, blank separator pages
+
+    const heading = body.querySelector('h1, h2, h3')?.textContent?.replace(/\s+/g, ' ').trim();
+    chapters.push({
+      title: labels.get(item.href) || heading || `Chapter ${chapters.length + 1}`,
+      content,
+      blocks,
+    });
+  }
+
+  const title = byName(opf, 'title')[0]?.textContent?.trim() || undefined;
+  return { title, chapters };
+}
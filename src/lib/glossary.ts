@@ -0,0 +1,260 @@
+import { caretFromPoint } from './readingLines';
+
+/**
+ * Glossary and offline dictionary
+ *
+ * Definitions come from two places:
+ * - dictionary packs the user imports (JSON or CSV files), kept in the
+ *   library database so they work offline
+ * - the user's own glossary: terms they saved while reading, grouped by
+ *   course, kept in localStorage
+ *
+ * Lookups ignore case and accents and try simple English word endings, so
+ * "membranes" and "diffused" find "membrane" and "diffuse".
+ */
+
+export interface GlossaryEntry {
+  term: string;
+  definition: string;
+}
+
+export interface DictionaryPack {
+  id: string;
+  name: string;
+  imported: number;
+  entries: GlossaryEntry[];
+}
+
+export interface SavedTerm extends GlossaryEntry {
+  id: string;
+  course: string;
+  context?: string; // the sentence it was saved from
+  added: number;
+}
+
+/** A definition found for a word, and where it came from. */
+export interface Definition extends GlossaryEntry {
+  source: string; // pack name, or the course for saved terms
+  saved?: SavedTerm;
+}
+
+export const DEFAULT_COURSE = 'General';
+
+export const createTermId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** Lower-cases and strips accents and surrounding punctuation. */
+export function normaliseTerm(term: string): string {
+  return term
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/’/g, "'")
+    .replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '')
+    .replace(/\s+/g, ' ');
+}
+
+/** The term itself, then forms without common English endings. */
+export function termVariants(term: string): string[] {
+  const word = normaliseTerm(term);
+  const variants = [word];
+  const add = (form: string) => form.length > 2 && variants.push(form);
+  if (word.endsWith("'s")) add(word.slice(0, -2));
+  if (word.endsWith('ies')) add(word.slice(0, -3) + 'y');
+  if (word.endsWith('es')) add(word.slice(0, -2));
+  if (word.endsWith('s') && !word.endsWith('ss')) add(word.slice(0, -1));
+  for (const ending of ['ed', 'ing']) {
+    if (!word.endsWith(ending)) continue;
+    const stem = word.slice(0, -ending.length);
+    add(stem);
+    add(stem + 'e');
+    // Doubled consonant: "running" -> "run"
+    if (/([^aeiou])\1$/.test(stem)) add(stem.slice(0, -1));
+  }
+  if (word.endsWith('ly')) add(word.slice(0, -2));
+  return [...new Set(variants)];
+}
+
+/** Indexes dictionary packs by normalised term. */
+export function indexPacks(packs: DictionaryPack[]): Map<string, Definition[]> {
+  const index = new Map<string, Definition[]>();
+  for (const pack of packs) {
+    for (const entry of pack.entries) {
+      const key = normaliseTerm(entry.term);
+      if (!key) continue;
+      const list = index.get(key) ?? [];
+      list.push({ ...entry, source: pack.name });
+      index.set(key, list);
+    }
+  }
+  return index;
+}
+
+/**
+ * Definitions for a word or phrase: saved terms from the current course
+ * first, then other courses, then dictionary packs.
+ */
+export function lookupTerm(
+  term: string,
+  packIndex: Map<string, Definition[]>,
+  saved: SavedTerm[],
+  course: string
+): Definition[] {
+  for (const variant of termVariants(term)) {
+    const own = saved
+      .filter(entry => normaliseTerm(entry.term) === variant)
+      .sort((a, b) => Number(b.course === course) - Number(a.course === course))
+      .map(entry => ({ term: entry.term, definition: entry.definition, source: entry.course, saved: entry }));
+    const found = [...own, ...(packIndex.get(variant) ?? [])];
+    if (found.length) return found;
+  }
+  return [];
+}
+
+/**
+ * Splits CSV text into rows, handling quoted fields with commas, quotes and
+ * line breaks.  Tab-separated text (as copied from a spreadsheet) also works.
+ */
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = firstLine.includes('\t') && !firstLine.includes(',') ? '\t' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+const TERM_KEYS = ['term', 'word', 'headword', 'name'];
+const DEFINITION_KEYS = ['definition', 'definitions', 'meaning', 'description', 'gloss'];
+
+function entryFrom(term: unknown, definition: unknown): GlossaryEntry | null {
+  const text = Array.isArray(definition) ? definition.join('; ') : definition;
+  if (typeof term !== 'string' || typeof text !== 'string' || !term.trim() || !text.trim()) return null;
+  return { term: term.trim(), definition: text.trim() };
+}
+
+/**
+ * Reads dictionary entries from an imported file.  Accepts CSV (term and
+ * definition columns, with or without a header row) or JSON: an object of
+ * term -> definition, an array of {term, definition} objects, or either of
+ * those under an "entries" key.  Throws if nothing usable is found.
+ */
+export function parseDictionary(text: string, fileName: string): GlossaryEntry[] {
+  let entries: GlossaryEntry[] = [];
+  if (/\.json$/i.test(fileName) || /^\s*[[{]/.test(text)) {
+    let data = JSON.parse(text);
+    if (data && !Array.isArray(data) && (Array.isArray(data.entries) || typeof data.entries === 'object')) {
+      data = data.entries;
+    }
+    if (Array.isArray(data)) {
+      entries = data.flatMap(item => {
+        if (!item || typeof item !== 'object') return [];
+        const term = TERM_KEYS.map(key => item[key]).find(value => typeof value === 'string');
+        const definition = DEFINITION_KEYS.map(key => item[key]).find(value => value !== undefined);
+        const entry = entryFrom(term, definition);
+        return entry ? [entry] : [];
+      });
+    } else if (data && typeof data === 'object') {
+      entries = Object.entries(data).flatMap(([term, definition]) => {
+        const entry = entryFrom(term, definition);
+        return entry ? [entry] : [];
+      });
+    }
+  } else {
+    const rows = parseCsv(text);
+    const header = rows[0]?.map(cell => cell.trim().toLowerCase()) ?? [];
+    const termColumn = header.findIndex(cell => TERM_KEYS.includes(cell));
+    const definitionColumn = header.findIndex(cell => DEFINITION_KEYS.includes(cell));
+    const hasHeader = termColumn !== -1 && definitionColumn !== -1;
+    entries = rows.slice(hasHeader ? 1 : 0).flatMap(row => {
+      const entry = entryFrom(row[hasHeader ? termColumn : 0], row[hasHeader ? definitionColumn : 1]);
+      return entry ? [entry] : [];
+    });
+  }
+  if (!entries.length) throw new Error('No terms and definitions were found in this file.');
+  return entries;
+}
+
+const csvField = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/** Saved terms as CSV, which can be imported again as a dictionary pack. */
+export function glossaryToCsv(terms: SavedTerm[]): string {
+  return ['term,definition,course', ...terms.map(t => [t.term, t.definition, t.course].map(csvField).join(','))].join('\n');
+}
+
+/** Saved terms as a Markdown study sheet, grouped by course. */
+export function glossaryToMarkdown(terms: SavedTerm[]): string {
+  const lines = ['# Glossary', ''];
+  const courses = [...new Set(terms.map(term => term.course))].sort();
+  for (const course of courses) {
+    if (courses.length > 1) lines.push(`## ${course}`, '');
+    const inCourse = terms
+      .filter(term => term.course === course)
+      .sort((a, b) => a.term.localeCompare(b.term));
+    for (const term of inCourse) lines.push(`**${term.term}**: ${term.definition}`, '');
+  }
+  return lines.join('\n');
+}
+
+const WORD_CHAR = /[\p{L}\p{N}\p{M}'’-]/u;
+
+/**
+ * The word under a point on screen, with a range covering it.  Bionic
+ * Reading splits words across spans, so a word inside one is taken whole.
+ */
+export function wordAtPoint(x: number, y: number): { word: string; range: Range } | null {
+  const caret = caretFromPoint(x, y);
+  if (!caret || caret.node.nodeType !== Node.TEXT_NODE) return null;
+  const { node, offset } = caret;
+
+  const range = document.createRange();
+  let word: string;
+  const bionic = node.parentElement?.closest('.bionic-word');
+  if (bionic) {
+    range.selectNodeContents(bionic);
+    word = bionic.textContent ?? '';
+  } else {
+    const text = node.textContent ?? '';
+    let start = offset;
+    let end = offset;
+    while (start > 0 && WORD_CHAR.test(text[start - 1])) start--;
+    while (end < text.length && WORD_CHAR.test(text[end])) end++;
+    range.setStart(node, start);
+    range.setEnd(node, end);
+    word = text.slice(start, end);
+  }
+  word = word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+  if (!/\p{L}/u.test(word)) return null;
+
+  // Caret lookups snap to the nearest text, even from the margin
+  const rect = range.getBoundingClientRect();
+  if (x < rect.left - 2 || x > rect.right + 2 || y < rect.top - 2 || y > rect.bottom + 2) return null;
+  return { word, range };
+}
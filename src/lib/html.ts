@@ -0,0 +1,194 @@
+import { blocksToText, DocumentBlock, ListItem } from './blocks';
+
+/**
+ * HTML to document blocks
+ *
+ * Converts a parsed HTML/XHTML tree into the reader's block model, keeping
+ * the document's shape: headings, paragraphs, lists (with their bullets,
+ * numbering and nesting), block quotes, preformatted code and tables.
+ * Scripts, styles and other non-content elements are dropped.
+ */
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'body', 'dd', 'div', 'dl', 'dt', 'figcaption',
+  'figure', 'footer', 'header', 'hr', 'main', 'nav', 'p', 'section', 'summary',
+  'details', 'caption',
+]);
+
+const SKIP_TAGS = new Set(['script', 'style', 'noscript', 'template', 'head', 'svg', 'iframe', 'object', 'button', 'select']);
+
+const HEADING = /^h([1-6])$/;
+
+const tagOf = (node: Node) => (node as Element).localName.toLowerCase();
+
+const collapse = (text: string) => text.replace(/[ \t\r\n\f]+/g, ' ').trim();
+
+const isHidden = (el: Element) =>
+  SKIP_TAGS.has(tagOf(el)) || el.getAttribute('hidden') !== null || el.getAttribute('aria-hidden') === 'true';
+
+const isList = (node: Node) => node.nodeType === Node.ELEMENT_NODE && (tagOf(node) === 'ul' || tagOf(node) === 'ol');
+
+const isBlock = (node: Node) =>
+  node.nodeType === Node.ELEMENT_NODE &&
+  (BLOCK_TAGS.has(tagOf(node)) || HEADING.test(tagOf(node)) || ['pre', 'blockquote', 'ul', 'ol', 'table'].includes(tagOf(node)));
+
+/** Text of an element's inline content, ignoring anything not shown. */
+function inlineText(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) return node.textContent ?? '';
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+  const el = node as Element;
+  if (isHidden(el)) return '';
+  const tag = tagOf(el);
+  if (tag === 'br') return ' ';
+  if (tag === 'img') return ` ${el.getAttribute('alt') ?? ''} `;
+  return Array.from(el.childNodes).map(inlineText).join('');
+}
+
+function listItems(list: Element, depth: number): ListItem[] {
+  const items: ListItem[] = [];
+  const ordered = tagOf(list) === 'ol';
+  let n = Number(list.getAttribute('start') ?? 1) || 1;
+
+  for (const node of Array.from(list.childNodes)) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = collapse(node.textContent ?? '');
+      if (text) items.push({ depth, marker: '•', text });
+      continue;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE || isHidden(node as Element)) continue;
+    const el = node as Element;
+
+    // Sloppy markup nests lists directly inside lists
+    if (isList(el)) {
+      items.push(...listItems(el, depth + 1));
+      continue;
+    }
+
+    // An item's own text, then any lists nested inside it
+    const own = Array.from(el.childNodes).filter(c => !isList(c));
+    const text = collapse(blocksToText(collectBlocks(own)));
+    const marker = ordered ? `${n++}.` : '•';
+    if (text) items.push({ depth, marker, text });
+    for (const c of Array.from(el.children)) {
+      if (isList(c)) items.push(...listItems(c, depth + 1));
+    }
+  }
+  return items;
+}
+
+function tableRows(table: Element): string[][] {
+  return Array.from(table.querySelectorAll('tr'))
+    .filter(row => row.closest('table') === table)
+    .map(row =>
+      Array.from(row.children)
+        .filter(cell => /^t[dh]$/i.test(cell.localName))
+        .map(cell => collapse(inlineText(cell)))
+    )
+    .filter(cells => cells.some(Boolean));
+}
+
+function collectBlocks(nodes: Node[]): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  let current = '';
+
+  const flush = () => {
+    const text = collapse(current);
+    current = '';
+    if (text) blocks.push({ kind: 'paragraph', text });
+  };
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      current += node.textContent ?? '';
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const el = node as Element;
+    if (isHidden(el)) return;
+    const tag = tagOf(el);
+
+    const heading = HEADING.exec(tag);
+    if (heading) {
+      flush();
+      // Malformed pages sometimes leave body text inside an unclosed heading
+      const nodes = Array.from(el.childNodes);
+      const end = nodes.findIndex(isBlock);
+      const text = collapse(nodes.slice(0, end < 0 ? undefined : end).map(inlineText).join(''));
+      if (text) blocks.push({ kind: 'heading', level: Number(heading[1]), text });
+      if (end >= 0) {
+        nodes.slice(end).forEach(walk);
+        flush();
+      }
+      return;
+    }
+
+    switch (tag) {
+      case 'br':
+        current += '\n';
+        return;
+      case 'img': {
+        const alt = el.getAttribute('alt')?.trim();
+        if (alt) current += ` ${alt} `;
+        return;
+      }
+      case 'pre': {
+        flush();
+        const text = (el.textContent ?? '').replace(/\s+$/, '').replace(/^\n/, '');
+        const language = /(?:^|\s)lang(?:uage)?-(\S+)/.exec(
+          `${el.className} ${el.querySelector('code')?.className ?? ''}`
+        )?.[1];
+        if (text.trim()) blocks.push({ kind: 'code', text, language });
+        return;
+      }
+      case 'blockquote': {
+        flush();
+        const text = blocksToText(collectBlocks(Array.from(el.childNodes)));
+        if (text) blocks.push({ kind: 'quote', text });
+        return;
+      }
+      case 'ul':
+      case 'ol': {
+        flush();
+        const items = listItems(el, 0);
+        if (items.length) blocks.push({ kind: 'list', items });
+        return;
+      }
+      case 'table': {
+        flush();
+        const rows = tableRows(el);
+        if (rows.length) blocks.push({ kind: 'table', rows });
+        return;
+      }
+    }
+
+    const block = BLOCK_TAGS.has(tag);
+    if (block) flush();
+    for (const c of Array.from(el.childNodes)) walk(c);
+    if (block) flush();
+  };
+
+  nodes.forEach(walk);
+  flush();
+  return blocks;
+}
+
+/** Converts an HTML tree (usually a document body) into document blocks. */
+export function htmlToBlocks(root: Node): DocumentBlock[] {
+  return collectBlocks([root]);
+}
+
+/** Converts an HTML tree into plain text that keeps its paragraph and list structure. */
+export function htmlToText(root: Node): string {
+  return blocksToText(htmlToBlocks(root));
+}
+
+/**
+ * Parses an HTML string (an uploaded page or rich clipboard content) into
+ * its title and blocks.
+ */
+export function parseHtmlDocument(html: string): { title?: string; blocks: DocumentBlock[] } {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const title = collapse(doc.title) || undefined;
+  return { title, blocks: htmlToBlocks(doc.body ?? doc.documentElement) };
+}
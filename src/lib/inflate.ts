@@ -0,0 +1,45 @@
+/**
+ * inflate
+ *
+ * Thin wrapper around the browser's native DecompressionStream so the
+ * document importers can unpack Flate-compressed data without pulling in a
+ * compression library.  Corrupt or truncated input is common in real-world
+ * files (and some writers append junk after the compressed data), so rather
+ * than failing outright we keep whatever was successfully inflated before
+ * the stream errored.
+ */
+export async function inflate(
+  data: Uint8Array,
+  format: 'deflate' | 'deflate-raw' = 'deflate'
+): Promise<Uint8Array> {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream(format));
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      total += value.length;
+    }
+  } catch {
+    // Keep the partial output gathered so far.
+  }
+
+  return concatBytes(chunks, total);
+}
+
+/**
+ * Joins a list of byte chunks into one contiguous array.
+ */
+export function concatBytes(chunks: Uint8Array[], total = chunks.reduce((n, c) => n + c.length, 0)): Uint8Array {
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
@@ -0,0 +1,220 @@
+import { Annotation } from './annotations';
+import { DocumentBlock, textToBlocks } from './blocks';
+import { ChunkProgress } from './chunks';
+import { DictionaryPack } from './glossary';
+import { PronunciationRule } from './pronunciation';
+import { RecallProgress } from './recall';
+import { SpeechPosition } from './speech';
+
+/**
+ * Document library storage
+ *
+ * Keeps the reader's documents in IndexedDB so they survive a reload.  Three
+ * object stores are used:
+ * - "documents": extracted text and structure plus reading state, small
+ *   enough to load all at once when the reader opens
+ * - "files": the original uploaded file, loaded only when the user asks
+ *   for it, and the first thing dropped when space runs out
+ * - "dictionaries": imported dictionary packs for glossary lookups
+ */
+
+export interface DocumentSection {
+  title: string;
+  content: string;
+  blocks?: DocumentBlock[];
+  progress?: number; // 0-100, scroll position within the section
+}
+
+export interface ExtractedDocument {
+  id: string;
+  title: string;
+  content: string;
+  type: 'pdf' | 'docx' | 'epub' | 'markdown' | 'html' | 'text' | 'clipboard';
+  timestamp: number; // when the document was added
+  lastOpened?: number;
+  blocks?: DocumentBlock[]; // headings, lists etc. for structured documents
+  pages?: string[]; // per-page text, for PDFs
+  sections?: DocumentSection[]; // navigable chapters, for EPUBs
+  currentSection?: number;
+  progress?: number; // 0-100, scroll position, for documents without sections
+  speechResume?: SpeechPosition; // where reading aloud stopped
+  chunkProgress?: Record<string, ChunkProgress>; // chunked view, see chunkProgressKey()
+  annotations?: Annotation[]; // highlights and notes
+  recallProgress?: Record<number, RecallProgress>; // practice questions, by section
+  pronunciations?: PronunciationRule[]; // used before the user's own when reading aloud
+  file?: { name: string; type: string; size: number }; // set while the original file is stored
+}
+
+/**
+ * The blocks shown in the reader for a document or one of its sections.
+ * Plain text is split into paragraphs and PDFs are labelled by page, so
+ * block numbers here match the reader's (and saved positions in them).
+ */
+export function readingBlocks({
+  content,
+  blocks,
+  pages
+}: Pick<ExtractedDocument, 'content' | 'blocks' | 'pages'>): { blocks: DocumentBlock[]; labels: Record<number, string> } {
+  const labels: Record<number, string> = {};
+  if (blocks) return { blocks, labels };
+  if (pages) {
+    const paged: DocumentBlock[] = [];
+    pages.forEach((page, index) => {
+      const pageBlocks = textToBlocks(page);
+      if (!pageBlocks.length) return;
+      labels[paged.length] = `Page ${index + 1}`;
+      paged.push(...pageBlocks);
+    });
+    return { blocks: paged, labels };
+  }
+  return { blocks: textToBlocks(content), labels };
+}
+
+interface StoredFile {
+  id: string;
+  data: Blob;
+}
+
+const DB_NAME = 'reader-library';
+const DB_VERSION = 2;
+const DOCUMENTS = 'documents';
+const FILES = 'files';
+const DICTIONARIES = 'dictionaries';
+
+/** Creates a stable, unique document id. */
+export const createDocumentId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DOCUMENTS)) db.createObjectStore(DOCUMENTS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(FILES)) db.createObjectStore(FILES, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(DICTIONARIES)) db.createObjectStore(DICTIONARIES, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      dbPromise = null; // allow a later retry
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+/** Runs a transaction and resolves with the request's result once it commits. */
+async function run<T>(
+  stores: string | string[],
+  mode: IDBTransactionMode,
+  action: (tx: IDBTransaction) => IDBRequest<T> | void
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const request = action(tx);
+    tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
+
+/** Loads every stored document, newest first. */
+export async function loadDocuments(): Promise<ExtractedDocument[]> {
+  const docs = await run<ExtractedDocument[]>(DOCUMENTS, 'readonly', tx => tx.objectStore(DOCUMENTS).getAll());
+  return docs.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+export async function saveDocument(doc: ExtractedDocument): Promise<void> {
+  await run(DOCUMENTS, 'readwrite', tx => tx.objectStore(DOCUMENTS).put(doc));
+}
+
+/** Removes a document together with its original file. */
+export async function removeDocument(id: string): Promise<void> {
+  await run([DOCUMENTS, FILES], 'readwrite', tx => {
+    tx.objectStore(DOCUMENTS).delete(id);
+    tx.objectStore(FILES).delete(id);
+  });
+}
+
+export async function saveFile(id: string, data: Blob): Promise<void> {
+  const record: StoredFile = { id, data };
+  await run(FILES, 'readwrite', tx => tx.objectStore(FILES).put(record));
+}
+
+export async function loadFile(id: string): Promise<Blob | null> {
+  const record = await run<StoredFile | undefined>(FILES, 'readonly', tx => tx.objectStore(FILES).get(id));
+  return record?.data ?? null;
+}
+
+export async function removeFile(id: string): Promise<void> {
+  await run(FILES, 'readwrite', tx => tx.objectStore(FILES).delete(id));
+}
+
+export async function loadDictionaries(): Promise<DictionaryPack[]> {
+  const packs = await run<DictionaryPack[]>(DICTIONARIES, 'readonly', tx => tx.objectStore(DICTIONARIES).getAll());
+  return packs.sort((a, b) => a.imported - b.imported);
+}
+
+export async function saveDictionary(pack: DictionaryPack): Promise<void> {
+  await run(DICTIONARIES, 'readwrite', tx => tx.objectStore(DICTIONARIES).put(pack));
+}
+
+export async function removeDictionary(id: string): Promise<void> {
+  await run(DICTIONARIES, 'readwrite', tx => tx.objectStore(DICTIONARIES).delete(id));
+}
+
+export const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+export interface StorageUsage {
+  usage: number; // bytes used by this site (all storage, not just the library)
+  quota: number; // bytes the browser will let this site use
+  persisted: boolean; // whether the browser has agreed not to clear our data
+}
+
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+  return { usage, quota, persisted };
+}
+
+/**
+ * Asks the browser to exempt the library from automatic clean-up when the
+ * device is low on space.  Browsers may grant or refuse this silently.
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (!navigator.storage?.persist) return false;
+  if (await navigator.storage.persisted?.()) return true;
+  return navigator.storage.persist();
+}
+
+/** Approximate bytes a document takes up in the library, including its file. */
+export function documentSize(doc: ExtractedDocument): number {
+  // Strings are stored as UTF-16; the structured copies roughly double the text
+  const textCopies = 1 + (doc.blocks ? 1 : 0) + (doc.pages ? 1 : 0) + (doc.sections ? 2 : 0);
+  return doc.content.length * 2 * textCopies + (doc.file?.size ?? 0);
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
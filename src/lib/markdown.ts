@@ -0,0 +1,230 @@
+import { blocksToText, DocumentBlock, ListItem } from './blocks';
+
+/**
+ * Markdown to document blocks
+ *
+ * A small CommonMark-flavoured parser covering what study notes actually
+ * use: ATX and setext headings, paragraphs, bulleted/numbered/task lists
+ * with nesting, block quotes, fenced and indented code, and pipe tables.
+ * Inline formatting (emphasis, links, code spans, inline HTML) is reduced
+ * to its visible text, since the reader applies its own styling.
+ */
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE = /^ {0,3}> ?(.*)$/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])(?:[ \t]+(.*))?$/;
+const TABLE_DELIMITER = /^ *\|? *:?-+:? *(\| *:?-+:? *)*\|? *$/;
+const LINK_DEFINITION = /^ {0,3}\[[^\]]+\]:\s*\S+/;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+/** Reduces Markdown inline syntax to plain text. */
+function inline(text: string): string {
+  // Protect code spans so their contents are not treated as emphasis
+  const spans: string[] = [];
+  let out = text.replace(/(`+)(.+?)\1/g, (_, __, code: string) => {
+    spans.push(code.trim());
+    return `\u0000${spans.length - 1}\u0000`;
+  });
+
+  out = out
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+    .replace(/<((?:https?|mailto):[^>\s]+)>/g, '$1')
+    .replace(/<\/?[a-z][^>]*>/gi, '')
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '$2')
+    .replace(/\*(?=\S)(.+?)(?<=\S)\*/g, '$1')
+    .replace(/(^|[^\w])_(?=\S)(.+?)(?<=\S)_(?!\w)/g, '$1$2')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/\\([\\`*_{}[\]()#+\-.!|>~])/g, '$1')
+    .replace(/&(#x?[0-9a-f]+|\w+);/gi, (entity, name: string) => {
+      if (name[0] === '#') {
+        const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+        return Number.isFinite(code) && code > 0 ? String.fromCodePoint(code) : entity;
+      }
+      return ENTITIES[name.toLowerCase()] ?? entity;
+    });
+
+  return out.replace(/\u0000(\d+)\u0000/g, (_, i: string) => spans[Number(i)]).replace(/\s+/g, ' ').trim();
+}
+
+const splitRow = (line: string) =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => inline(cell));
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+/** Parses a Markdown document into document blocks. */
+export function markdownToBlocks(markdown: string): DocumentBlock[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+  const blocks: DocumentBlock[] = [];
+  let paragraph: string[] = [];
+  let i = 0;
+
+  const flush = () => {
+    const text = inline(paragraph.join(' '));
+    paragraph = [];
+    if (text) blocks.push({ kind: 'paragraph', text });
+  };
+
+  // Skip YAML front matter
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, n) => n > 0 && /^(---|\.\.\.)\s*$/.test(line));
+    if (end > 0) i = end + 1;
+  }
+
+  /** True if the line would start a new block rather than continue a paragraph. */
+  const startsBlock = (line: string) =>
+    FENCE.test(line) || ATX_HEADING.test(line) || THEMATIC_BREAK.test(line) || QUOTE.test(line) ||
+    (LIST_ITEM.test(line) && !!LIST_ITEM.exec(line)![3]);
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      flush();
+      i++;
+      continue;
+    }
+
+    // Fenced code
+    const fence = FENCE.exec(line);
+    if (fence) {
+      flush();
+      const [, marker, language] = fence;
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !new RegExp(`^ {0,3}${marker[0]}{${marker.length},}\\s*$`).test(lines[i])) {
+        code.push(lines[i++]);
+      }
+      i++; // closing fence
+      blocks.push({ kind: 'code', text: code.join('\n'), language: language || undefined });
+      continue;
+    }
+
+    // Headings
+    const atx = ATX_HEADING.exec(line);
+    if (atx) {
+      flush();
+      const text = inline(atx[2] ?? '');
+      if (text) blocks.push({ kind: 'heading', level: atx[1].length, text });
+      i++;
+      continue;
+    }
+    const setext = SETEXT_UNDERLINE.exec(line);
+    if (setext && paragraph.length) {
+      const text = inline(paragraph.join(' '));
+      paragraph = [];
+      if (text) blocks.push({ kind: 'heading', level: setext[1][0] === '=' ? 1 : 2, text });
+      i++;
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(line)) {
+      flush();
+      i++;
+      continue;
+    }
+
+    // Block quotes (including lazy continuation lines)
+    if (QUOTE.test(line)) {
+      flush();
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trim()) {
+        const m = QUOTE.exec(lines[i]);
+        if (!m && startsBlock(lines[i])) break;
+        quoted.push(m ? m[1] : lines[i]);
+        i++;
+      }
+      const text = blocksToText(markdownToBlocks(quoted.join('\n')));
+      if (text) blocks.push({ kind: 'quote', text });
+      continue;
+    }
+
+    // Lists
+    const first = LIST_ITEM.exec(line);
+    if (first && (first[3] || !paragraph.length)) {
+      flush();
+      const items: ListItem[] = [];
+      const indents: number[] = [];
+      const ordered = /\d/.test(first[2]);
+      while (i < lines.length) {
+        const current = lines[i];
+        const m = LIST_ITEM.exec(current);
+        if (m && !THEMATIC_BREAK.test(current)) {
+          const indent = m[1].length;
+          // Switching between bullets and numbers at the top level starts a new list
+          if (indents.length && indent <= indents[0] && /\d/.test(m[2]) !== ordered) break;
+          while (indents.length && indent < indents[indents.length - 1]) indents.pop();
+          if (!indents.length || indent > indents[indents.length - 1] + 1) indents.push(indent);
+          let text = m[3] ?? '';
+          let marker = /\d/.test(m[2]) ? `${parseInt(m[2], 10)}.` : '•';
+          const task = /^\[([ xX])\]\s+/.exec(text);
+          if (task) {
+            marker = task[1] === ' ' ? '☐' : '☑';
+            text = text.slice(task[0].length);
+          }
+          items.push({ depth: indents.length - 1, marker, text });
+          i++;
+          continue;
+        }
+        if (!current.trim()) {
+          // A blank line only continues the list if more of it follows
+          const next = lines.slice(i + 1).find(l => l.trim());
+          if (next !== undefined && (LIST_ITEM.test(next) || indentOf(next) >= 2)) {
+            i++;
+            continue;
+          }
+          break;
+        }
+        if (indentOf(current) >= 2 || !startsBlock(current)) {
+          // Continuation of the previous item
+          const last = items[items.length - 1];
+          if (indentOf(current) < 2 && !lines[i - 1].trim()) break;
+          last.text += ` ${current.trim()}`;
+          i++;
+          continue;
+        }
+        break;
+      }
+      blocks.push({ kind: 'list', items: items.map(item => ({ ...item, text: inline(item.text) })) });
+      continue;
+    }
+
+    // Pipe tables
+    if (line.includes('|') && !paragraph.length && TABLE_DELIMITER.test(lines[i + 1] ?? '') && lines[i + 1].includes('-')) {
+      const rows = [splitRow(line)];
+      i += 2;
+      while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+        rows.push(splitRow(lines[i++]));
+      }
+      blocks.push({ kind: 'table', rows: rows.filter(row => row.some(Boolean)) });
+      continue;
+    }
+
+    // Indented code
+    if (indentOf(line) >= 4 && !paragraph.length) {
+      const code: string[] = [];
+      while (i < lines.length && (indentOf(lines[i]) >= 4 || !lines[i].trim())) {
+        code.push(lines[i++].slice(4));
+      }
+      while (code.length && !code[code.length - 1].trim()) code.pop();
+      blocks.push({ kind: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    if (LINK_DEFINITION.test(line) && !paragraph.length) {
+      i++;
+      continue;
+    }
+
+    paragraph.push(line.trim());
+    i++;
+  }
+
+  flush();
+  return blocks;
+}
@@ -0,0 +1,1591 @@
+import { inflate, concatBytes } from './inflate';
+
+/**
+ * PDF text extraction
+ *
+ * A small, dependency-free PDF reader used by DocumentReader to turn an
+ * uploaded file into readable text entirely in the browser.  It covers the
+ * parts of the format that matter for text:
+ * - Cross-reference tables, cross-reference streams and object streams
+ *   (with a full-file scan as a fallback for damaged files)
+ * - FlateDecode, LZWDecode, ASCIIHex and ASCII85 stream filters, including
+ *   PNG/TIFF predictors
+ * - Text operators (Tj, TJ, ' and ") with ToUnicode CMaps, simple font
+ *   encodings/Differences and composite (Type0) fonts
+ * - Form XObjects, so text drawn inside reusable forms is not lost
+ * - Files encrypted with the standard security handler (RC4 or AES-128)
+ *   that open without a password
+ *
+ * Text is grouped into lines by baseline position and lines are grouped into
+ * paragraphs by vertical spacing, so the result keeps page boundaries and
+ * paragraph breaks instead of being one long run of words.
+ */
+
+export interface PdfTextResult {
+  /** Extracted text for each page, in reading order. */
+  pages: string[];
+}
+
+/**
+ * Raised when a file cannot be read as a PDF at all (for example when it
+ * needs a password).  The message is suitable for showing to the user.
+ */
+export class PdfError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PdfError';
+  }
+}
+
+// ---------- Object model ----------
+
+class PdfName {
+  constructor(readonly name: string) {}
+}
+
+class PdfRef {
+  constructor(readonly num: number, readonly gen: number) {}
+}
+
+class PdfCmd {
+  constructor(readonly cmd: string) {}
+}
+
+class PdfStream {
+  constructor(readonly dict: PdfDict, readonly raw: Uint8Array) {}
+}
+
+type PdfDict = Map<string, PdfValue>;
+type PdfValue =
+  | null
+  | boolean
+  | number
+  | Uint8Array
+  | PdfName
+  | PdfRef
+  | PdfCmd
+  | PdfStream
+  | PdfDict
+  | PdfValue[];
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[1] * n[2],
+  m[0] * n[1] + m[1] * n[3],
+  m[2] * n[0] + m[3] * n[2],
+  m[2] * n[1] + m[3] * n[3],
+  m[4] * n[0] + m[5] * n[2] + n[4],
+  m[4] * n[1] + m[5] * n[3] + n[5],
+];
+
+const latin1 = (bytes: Uint8Array) => {
+  let s = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    s += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return s;
+};
+
+const asNumber = (v: PdfValue | undefined, fallback = 0) => (typeof v === 'number' ? v : fallback);
+const asName = (v: PdfValue | undefined) => (v instanceof PdfName ? v.name : null);
+const asDict = (v: PdfValue | undefined): PdfDict | null =>
+  v instanceof Map ? v : v instanceof PdfStream ? v.dict : null;
+const isCmd = (v: PdfValue | undefined, cmd: string) => v instanceof PdfCmd && v.cmd === cmd;
+
+// ---------- Lexer ----------
+
+const isWhite = (c: number) => c === 0x20 || c === 0x0a || c === 0x0d || c === 0x09 || c === 0x0c || c === 0x00;
+const isDelimiter = (c: number) =>
+  c === 0x28 || c === 0x29 || c === 0x3c || c === 0x3e || c === 0x5b ||
+  c === 0x5d || c === 0x7b || c === 0x7d || c === 0x2f || c === 0x25;
+const hexValue = (c: number) =>
+  c >= 0x30 && c <= 0x39 ? c - 0x30 : c >= 0x41 && c <= 0x46 ? c - 0x37 : c >= 0x61 && c <= 0x66 ? c - 0x57 : -1;
+
+/**
+ * Reads PDF objects from a byte buffer.  Keywords and operators (including
+ * the closing `]` and `>>` delimiters) come back as PdfCmd tokens.  Indirect
+ * references (`12 0 R`) are only recognised when `allowRefs` is set, since
+ * content streams never contain them and the lookahead would misread
+ * operand lists.
+ */
+class Lexer {
+  constructor(readonly buf: Uint8Array, public pos = 0, readonly allowRefs = true) {}
+
+  skipSpace() {
+    const b = this.buf;
+    while (this.pos < b.length) {
+      const c = b[this.pos];
+      if (isWhite(c)) {
+        this.pos++;
+      } else if (c === 0x25) {
+        while (this.pos < b.length && b[this.pos] !== 0x0a && b[this.pos] !== 0x0d) this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  read(): PdfValue | undefined {
+    this.skipSpace();
+    const b = this.buf;
+    if (this.pos >= b.length) return undefined;
+
+    const c = b[this.pos];
+    switch (c) {
+      case 0x5b: { // [
+        this.pos++;
+        const arr: PdfValue[] = [];
+        for (;;) {
+          const v = this.read();
+          if (v === undefined || isCmd(v, ']')) return arr;
+          arr.push(v);
+        }
+      }
+      case 0x3c: // < or <<
+        if (b[this.pos + 1] === 0x3c) {
+          this.pos += 2;
+          return this.readDict();
+        }
+        return this.readHexString();
+      case 0x3e: // > or >>
+        if (b[this.pos + 1] === 0x3e) {
+          this.pos += 2;
+          return new PdfCmd('>>');
+        }
+        this.pos++;
+        return new PdfCmd('>');
+      case 0x28:
+        return this.readLiteralString();
+      case 0x2f:
+        return this.readName();
+      case 0x5d:
+      case 0x7b:
+      case 0x7d:
+      case 0x29:
+        this.pos++;
+        return new PdfCmd(String.fromCharCode(c));
+    }
+
+    const start = this.pos;
+    while (this.pos < b.length && !isWhite(b[this.pos]) && !isDelimiter(b[this.pos])) this.pos++;
+    const token = latin1(b.subarray(start, this.pos));
+
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+      const n = parseFloat(token);
+      if (this.allowRefs && /^\d+$/.test(token)) {
+        const ref = this.tryReadRef(n);
+        if (ref) return ref;
+      }
+      return n;
+    }
+    if (/^[+-]*[\d.]+$/.test(token)) {
+      // Malformed numbers such as "--5" or "1.2.3" turn up in the wild.
+      const n = parseFloat(token.replace(/^[+-]*/, m => (m.includes('-') ? '-' : '')));
+      return Number.isFinite(n) ? n : 0;
+    }
+    if (token === 'true') return true;
+    if (token === 'false') return false;
+    if (token === 'null') return null;
+    return new PdfCmd(token);
+  }
+
+  private tryReadRef(num: number): PdfRef | null {
+    const save = this.pos;
+    this.skipSpace();
+    const b = this.buf;
+    const genStart = this.pos;
+    while (this.pos < b.length && b[this.pos] >= 0x30 && b[this.pos] <= 0x39) this.pos++;
+    if (this.pos > genStart) {
+      const gen = parseInt(latin1(b.subarray(genStart, this.pos)), 10);
+      this.skipSpace();
+      const next = b[this.pos + 1];
+      if (b[this.pos] === 0x52 && (next === undefined || isWhite(next) || isDelimiter(next))) {
+        this.pos++;
+        return new PdfRef(num, gen);
+      }
+    }
+    this.pos = save;
+    return null;
+  }
+
+  private readDict(): PdfDict {
+    const dict: PdfDict = new Map();
+    for (;;) {
+      const key = this.read();
+      if (key === undefined || isCmd(key, '>>')) return dict;
+      if (!(key instanceof PdfName)) continue;
+      const value = this.read();
+      if (value === undefined || isCmd(value, '>>')) {
+        dict.set(key.name, null);
+        return dict;
+      }
+      dict.set(key.name, value);
+    }
+  }
+
+  private readName(): PdfName {
+    const b = this.buf;
+    this.pos++;
+    let name = '';
+    while (this.pos < b.length && !isWhite(b[this.pos]) && !isDelimiter(b[this.pos])) {
+      const c = b[this.pos++];
+      if (c === 0x23 && hexValue(b[this.pos]) >= 0 && hexValue(b[this.pos + 1]) >= 0) {
+        name += String.fromCharCode(hexValue(b[this.pos]) * 16 + hexValue(b[this.pos + 1]));
+        this.pos += 2;
+      } else {
+        name += String.fromCharCode(c);
+      }
+    }
+    return new PdfName(name);
+  }
+
+  private readHexString(): Uint8Array {
+    const b = this.buf;
+    this.pos++;
+    const out: number[] = [];
+    let pending = -1;
+    while (this.pos < b.length && b[this.pos] !== 0x3e) {
+      const v = hexValue(b[this.pos++]);
+      if (v < 0) continue;
+      if (pending < 0) {
+        pending = v;
+      } else {
+        out.push(pending * 16 + v);
+        pending = -1;
+      }
+    }
+    if (pending >= 0) out.push(pending * 16);
+    this.pos++;
+    return Uint8Array.from(out);
+  }
+
+  private readLiteralString(): Uint8Array {
+    const b = this.buf;
+    this.pos++;
+    const out: number[] = [];
+    let depth = 1;
+    while (this.pos < b.length) {
+      let c = b[this.pos++];
+      if (c === 0x28) {
+        depth++;
+        out.push(c);
+      } else if (c === 0x29) {
+        if (--depth === 0) break;
+        out.push(c);
+      } else if (c === 0x5c) {
+        c = b[this.pos++];
+        switch (c) {
+          case 0x6e: out.push(0x0a); break; // \n
+          case 0x72: out.push(0x0d); break; // \r
+          case 0x74: out.push(0x09); break; // \t
+          case 0x62: out.push(0x08); break; // \b
+          case 0x66: out.push(0x0c); break; // \f
+          case 0x0d: // line continuation
+            if (b[this.pos] === 0x0a) this.pos++;
+            break;
+          case 0x0a:
+            break;
+          default:
+            if (c >= 0x30 && c <= 0x37) {
+              let v = c - 0x30;
+              for (let i = 0; i < 2 && b[this.pos] >= 0x30 && b[this.pos] <= 0x37; i++) {
+                v = v * 8 + (b[this.pos++] - 0x30);
+              }
+              out.push(v & 0xff);
+            } else if (c !== undefined) {
+              out.push(c);
+            }
+        }
+      } else {
+        out.push(c);
+      }
+    }
+    return Uint8Array.from(out);
+  }
+}
+
+const indexOfBytes = (buf: Uint8Array, needle: string, from = 0) => {
+  const first = needle.charCodeAt(0);
+  outer: for (let i = from; i <= buf.length - needle.length; i++) {
+    if (buf[i] !== first) continue;
+    for (let j = 1; j < needle.length; j++) {
+      if (buf[i + j] !== needle.charCodeAt(j)) continue outer;
+    }
+    return i;
+  }
+  return -1;
+};
+
+const lastIndexOfBytes = (buf: Uint8Array, needle: string) => {
+  for (let i = buf.length - needle.length; i >= 0; i--) {
+    let match = true;
+    for (let j = 0; j < needle.length && match; j++) {
+      match = buf[i + j] === needle.charCodeAt(j);
+    }
+    if (match) return i;
+  }
+  return -1;
+};
+
+// ---------- Stream filters ----------
+
+function decodeAsciiHex(data: Uint8Array): Uint8Array {
+  const out: number[] = [];
+  let pending = -1;
+  for (const c of data) {
+    if (c === 0x3e) break;
+    const v = hexValue(c);
+    if (v < 0) continue;
+    if (pending < 0) {
+      pending = v;
+    } else {
+      out.push(pending * 16 + v);
+      pending = -1;
+    }
+  }
+  if (pending >= 0) out.push(pending * 16);
+  return Uint8Array.from(out);
+}
+
+function decodeAscii85(data: Uint8Array): Uint8Array {
+  const out: number[] = [];
+  const group: number[] = [];
+  const flush = (count: number) => {
+    while (group.length < 5) group.push(84);
+    let value = 0;
+    for (const g of group) value = value * 85 + g;
+    const bytes = [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+    out.push(...bytes.slice(0, count));
+    group.length = 0;
+  };
+  for (let i = 0; i < data.length; i++) {
+    const c = data[i];
+    if (c === 0x7e) break; // ~>
+    if (isWhite(c)) continue;
+    if (c === 0x7a && group.length === 0) {
+      out.push(0, 0, 0, 0);
+      continue;
+    }
+    if (c < 0x21 || c > 0x75) continue;
+    group.push(c - 0x21);
+    if (group.length === 5) flush(4);
+  }
+  if (group.length > 1) flush(group.length - 1);
+  return Uint8Array.from(out);
+}
+
+function decodeLzw(data: Uint8Array, earlyChange: number): Uint8Array {
+  const out: number[] = [];
+  let table: number[][] = [];
+  const reset = () => {
+    table = [];
+    for (let i = 0; i < 256; i++) table.push([i]);
+    table.push([], []);
+  };
+  reset();
+
+  let bitPos = 0;
+  let codeLength = 9;
+  let previous: number[] | null = null;
+  const readCode = () => {
+    let code = 0;
+    for (let i = 0; i < codeLength; i++) {
+      const byte = data[bitPos >> 3];
+      if (byte === undefined) return -1;
+      code = (code << 1) | ((byte >> (7 - (bitPos & 7))) & 1);
+      bitPos++;
+    }
+    return code;
+  };
+
+  for (;;) {
+    const code = readCode();
+    if (code < 0 || code === 257) break;
+    if (code === 256) {
+      reset();
+      codeLength = 9;
+      previous = null;
+      continue;
+    }
+    let entry: number[];
+    if (code < table.length) {
+      entry = table[code];
+      if (previous) table.push([...previous, entry[0]]);
+    } else if (previous) {
+      entry = [...previous, previous[0]];
+      table.push(entry);
+    } else {
+      break;
+    }
+    out.push(...entry);
+    previous = entry;
+    const next = table.length + earlyChange;
+    codeLength = next >= 2048 ? 12 : next >= 1024 ? 11 : next >= 512 ? 10 : 9;
+  }
+  return Uint8Array.from(out);
+}
+
+function applyPredictor(data: Uint8Array, parms: PdfDict | null): Uint8Array {
+  const predictor = asNumber(parms?.get('Predictor'), 1);
+  if (!parms || predictor < 2) return data;
+
+  const colors = asNumber(parms.get('Colors'), 1);
+  const bits = asNumber(parms.get('BitsPerComponent'), 8);
+  const columns = asNumber(parms.get('Columns'), 1);
+  const bpp = Math.max(1, Math.ceil((colors * bits) / 8));
+  const rowLength = Math.ceil((columns * colors * bits) / 8);
+
+  if (predictor === 2) {
+    const out = Uint8Array.from(data);
+    for (let row = 0; row < out.length; row += rowLength) {
+      for (let i = row + bpp; i < Math.min(row + rowLength, out.length); i++) {
+        out[i] = (out[i] + out[i - bpp]) & 0xff;
+      }
+    }
+    return out;
+  }
+
+  // PNG predictors: every row starts with its own filter-type byte.
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const out = new Uint8Array(rows * rowLength);
+  let prev = new Uint8Array(rowLength);
+  for (let r = 0; r < rows; r++) {
+    const type = data[r * (rowLength + 1)];
+    const src = data.subarray(r * (rowLength + 1) + 1, (r + 1) * (rowLength + 1));
+    const cur = out.subarray(r * rowLength, (r + 1) * rowLength);
+    for (let i = 0; i < rowLength; i++) {
+      const left = i >= bpp ? cur[i - bpp] : 0;
+      const up = prev[i];
+      const upLeft = i >= bpp ? prev[i - bpp] : 0;
+      let value = src[i];
+      switch (type) {
+        case 1: value += left; break;
+        case 2: value += up; break;
+        case 3: value += (left + up) >> 1; break;
+        case 4: {
+          const p = left + up - upLeft;
+          const pa = Math.abs(p - left);
+          const pb = Math.abs(p - up);
+          const pc = Math.abs(p - upLeft);
+          value += pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+          break;
+        }
+      }
+      cur[i] = value & 0xff;
+    }
+    prev = cur;
+  }
+  return out;
+}
+
+// ---------- Encryption ----------
+
+// MD5 (RFC 1321), which the standard security handler builds its keys from
+const MD5_SHIFTS = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+const MD5_TABLE = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) >>> 0);
+
+function md5(data: Uint8Array): Uint8Array {
+  const length = ((data.length + 8) >> 6) * 64 + 64;
+  const bytes = new Uint8Array(length);
+  bytes.set(data);
+  bytes[data.length] = 0x80;
+  const view = new DataView(bytes.buffer);
+  view.setUint32(length - 8, (data.length * 8) >>> 0, true);
+  view.setUint32(length - 4, Math.floor(data.length / 2 ** 29), true);
+
+  const h = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+  for (let block = 0; block < length; block += 64) {
+    let [a, b, c, d] = h;
+    for (let i = 0; i < 64; i++) {
+      const round = i >> 4;
+      let f: number;
+      let g: number;
+      if (round === 0) [f, g] = [(b & c) | (~b & d), i];
+      else if (round === 1) [f, g] = [(d & b) | (~d & c), (5 * i + 1) % 16];
+      else if (round === 2) [f, g] = [b ^ c ^ d, (3 * i + 5) % 16];
+      else [f, g] = [c ^ (b | ~d), (7 * i) % 16];
+      const sum = (a + f + MD5_TABLE[i] + view.getUint32(block + g * 4, true)) >>> 0;
+      const shift = MD5_SHIFTS[round * 4 + (i % 4)];
+      [a, d, c] = [d, c, b];
+      b = (b + ((sum << shift) | (sum >>> (32 - shift)))) >>> 0;
+    }
+    h[0] = (h[0] + a) >>> 0;
+    h[1] = (h[1] + b) >>> 0;
+    h[2] = (h[2] + c) >>> 0;
+    h[3] = (h[3] + d) >>> 0;
+  }
+  const out = new Uint8Array(16);
+  const outView = new DataView(out.buffer);
+  h.forEach((word, i) => outView.setUint32(i * 4, word, true));
+  return out;
+}
+
+function rc4(key: Uint8Array, data: Uint8Array): Uint8Array {
+  const s = Uint8Array.from({ length: 256 }, (_, i) => i);
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + s[i] + key[i % key.length]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+  }
+  const out = new Uint8Array(data.length);
+  for (let k = 0, i = 0, j = 0; k < data.length; k++) {
+    i = (i + 1) & 0xff;
+    j = (j + s[i]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+    out[k] = data[k] ^ s[(s[i] + s[j]) & 0xff];
+  }
+  return out;
+}
+
+// Passwords are padded (or made up) to 32 bytes with this string
+const PASSWORD_PAD = Uint8Array.from([
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+  0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+]);
+
+type CryptMethod = 'none' | 'rc4' | 'aes';
+
+const passwordError = () => new PdfError('This PDF is protected with a password, so its text cannot be read.');
+
+/**
+ * The standard security handler, revisions 2 to 4 (RC4 and 128-bit AES),
+ * for files that open without a password: the usual "owner password only"
+ * files that restrict printing or copying.  Each string and stream is
+ * encrypted with a key made from the file key and its object number.
+ */
+class SecurityHandler {
+  private constructor(
+    private readonly key: Uint8Array,
+    private readonly streamMethod: CryptMethod,
+    private readonly stringMethod: CryptMethod
+  ) {}
+
+  /** Throws a PdfError when the file needs a password (or another handler). */
+  static create(encrypt: PdfDict, id: Uint8Array): SecurityHandler {
+    const version = asNumber(encrypt.get('V'));
+    const revision = asNumber(encrypt.get('R'));
+    const owner = encrypt.get('O');
+    const user = encrypt.get('U');
+    if (asName(encrypt.get('Filter')) !== 'Standard' || revision < 2 || revision > 4) throw passwordError();
+    if (!(owner instanceof Uint8Array) || !(user instanceof Uint8Array)) throw passwordError();
+
+    let streamMethod: CryptMethod = 'rc4';
+    let stringMethod: CryptMethod = 'rc4';
+    let keyLength = revision === 2 ? 5 : Math.floor(asNumber(encrypt.get('Length'), 40) / 8);
+    if (version === 4) {
+      const filters = asDict(encrypt.get('CF'));
+      const method = (name: string | null): CryptMethod => {
+        if (!name || name === 'Identity') return 'none';
+        const cfm = asName(asDict(filters?.get(name) ?? null)?.get('CFM') ?? null);
+        return cfm === 'AESV2' ? 'aes' : cfm === 'V2' ? 'rc4' : 'none';
+      };
+      streamMethod = method(asName(encrypt.get('StmF')));
+      stringMethod = method(asName(encrypt.get('StrF')));
+      keyLength = 16;
+    }
+    keyLength = Math.min(Math.max(keyLength, 5), 16);
+
+    // Algorithm 2: the file key from the (empty) user password
+    const permissions = asNumber(encrypt.get('P')) | 0;
+    const parts = [PASSWORD_PAD, owner.subarray(0, 32), Uint8Array.of(permissions, permissions >> 8, permissions >> 16, permissions >>> 24), id];
+    if (revision >= 4 && encrypt.get('EncryptMetadata') === false) parts.push(Uint8Array.of(0xff, 0xff, 0xff, 0xff));
+    let key = md5(concatBytes(parts)).subarray(0, keyLength);
+    if (revision >= 3) {
+      for (let i = 0; i < 50; i++) key = md5(key).subarray(0, keyLength);
+    }
+
+    // Algorithms 4 and 5: the empty password is right if U checks out
+    let check: Uint8Array;
+    if (revision === 2) {
+      check = rc4(key, PASSWORD_PAD);
+    } else {
+      check = rc4(key, md5(concatBytes([PASSWORD_PAD, id])));
+      for (let i = 1; i <= 19; i++) check = rc4(key.map(byte => byte ^ i), check);
+    }
+    const compared = revision === 2 ? 32 : 16;
+    for (let i = 0; i < compared; i++) {
+      if (check[i] !== user[i]) throw passwordError();
+    }
+    return new SecurityHandler(key, streamMethod, stringMethod);
+  }
+
+  private objectKey(num: number, gen: number, method: CryptMethod): Uint8Array {
+    const salt = method === 'aes' ? [0x73, 0x41, 0x6c, 0x54] : []; // "sAlT"
+    const extra = Uint8Array.of(num, num >> 8, num >> 16, gen, gen >> 8, ...salt);
+    return md5(concatBytes([this.key, extra])).subarray(0, Math.min(this.key.length + 5, 16));
+  }
+
+  private async decrypt(data: Uint8Array, num: number, gen: number, method: CryptMethod): Promise<Uint8Array> {
+    if (method === 'none') return data;
+    const key = this.objectKey(num, gen, method);
+    if (method === 'rc4') return rc4(key, data);
+    // AES-128-CBC, with the IV in the first 16 bytes
+    if (data.length < 32 || data.length % 16 || !globalThis.crypto?.subtle) return new Uint8Array(0);
+    try {
+      const aesKey = await crypto.subtle.importKey('raw', key.slice(), 'AES-CBC', false, ['decrypt']);
+      const plain = await crypto.subtle.decrypt({ name: 'AES-CBC', iv: data.slice(0, 16) }, aesKey, data.slice(16));
+      return new Uint8Array(plain);
+    } catch {
+      return new Uint8Array(0);
+    }
+  }
+
+  /** Decrypts the strings and stream data of an indirect object. */
+  async decryptObject(value: PdfValue, num: number, gen: number): Promise<PdfValue> {
+    if (value instanceof Uint8Array) return this.decrypt(value, num, gen, this.stringMethod);
+    if (Array.isArray(value)) return Promise.all(value.map(item => this.decryptObject(item, num, gen)));
+    if (value instanceof Map) {
+      const dict: PdfDict = new Map();
+      for (const [key, item] of value) dict.set(key, await this.decryptObject(item, num, gen));
+      return dict;
+    }
+    if (value instanceof PdfStream) {
+      const dict = (await this.decryptObject(value.dict, num, gen)) as PdfDict;
+      // Cross-reference streams are never encrypted, nor are streams whose
+      // own Crypt filter says Identity (the only one a reader must know)
+      const filter = dict.get('Filter');
+      const first = Array.isArray(filter) ? filter[0] : filter;
+      if (asName(dict.get('Type')) === 'XRef' || asName(first) === 'Crypt') return new PdfStream(dict, value.raw);
+      return new PdfStream(dict, await this.decrypt(value.raw, num, gen, this.streamMethod));
+    }
+    return value;
+  }
+}
+
+// ---------- Document ----------
+
+type XrefEntry = { offset: number } | { stream: number; index: number };
+
+class PdfDocument {
+  trailer: PdfDict = new Map();
+  private readonly xref = new Map<number, XrefEntry>();
+  private readonly cache = new Map<number, PdfValue>();
+  private readonly objectStreams = new Map<number, Promise<Map<number, PdfValue>>>();
+  private scanned: Map<number, number> | null = null;
+  private security: SecurityHandler | null = null;
+  private encryptNum = -1;
+
+  constructor(private readonly buf: Uint8Array) {}
+
+  async load() {
+    try {
+      await this.readXrefChain();
+    } catch {
+      // Damaged cross-reference data; the scan below recovers what it can.
+    }
+    if (!this.trailer.get('Root')) {
+      await this.reconstruct();
+    }
+    await this.setUpSecurity();
+  }
+
+  private async setUpSecurity() {
+    const encryptValue = this.trailer.get('Encrypt');
+    if (!encryptValue) return;
+    const encrypt = asDict(await this.resolve(encryptValue));
+    const ids = this.trailer.get('ID');
+    const id = Array.isArray(ids) && ids[0] instanceof Uint8Array ? ids[0] : new Uint8Array(0);
+    if (!encrypt) throw passwordError();
+    this.security = SecurityHandler.create(encrypt, id);
+    this.encryptNum = encryptValue instanceof PdfRef ? encryptValue.num : -1;
+    // Anything read so far (the encryption dictionary itself) is still encrypted
+    this.cache.clear();
+    this.objectStreams.clear();
+  }
+
+  async resolve(v: PdfValue | undefined): Promise<PdfValue> {
+    for (let depth = 0; v instanceof PdfRef && depth < 32; depth++) {
+      v = await this.fetch(v.num);
+    }
+    return v === undefined || v instanceof PdfRef ? null : v;
+  }
+
+  async get(dict: PdfDict | null, key: string): Promise<PdfValue> {
+    return dict ? this.resolve(dict.get(key)) : null;
+  }
+
+  async decodeStream(stream: PdfStream): Promise<Uint8Array | null> {
+    const filterValue = await this.get(stream.dict, 'Filter');
+    const parmsValue = await this.resolve(stream.dict.get('DecodeParms') ?? stream.dict.get('DP'));
+    const filters = Array.isArray(filterValue) ? filterValue : filterValue ? [filterValue] : [];
+    const parms = Array.isArray(parmsValue) ? parmsValue : [parmsValue];
+
+    let data = stream.raw;
+    for (let i = 0; i < filters.length; i++) {
+      const name = asName(await this.resolve(filters[i]));
+      const p = asDict(await this.resolve(parms[i] ?? null));
+      switch (name) {
+        case 'FlateDecode':
+        case 'Fl':
+          data = applyPredictor(await inflate(data), p);
+          break;
+        case 'LZWDecode':
+        case 'LZW':
+          data = applyPredictor(decodeLzw(data, asNumber(p?.get('EarlyChange'), 1)), p);
+          break;
+        case 'ASCIIHexDecode':
+        case 'AHx':
+          data = decodeAsciiHex(data);
+          break;
+        case 'ASCII85Decode':
+        case 'A85':
+          data = decodeAscii85(data);
+          break;
+        case 'Crypt':
+          // Only the Identity crypt filter is left for here: see SecurityHandler
+          break;
+        default:
+          // Image codecs (DCT, JPX, CCITT...) carry no text.
+          return null;
+      }
+    }
+    return data;
+  }
+
+  private async fetch(num: number): Promise<PdfValue> {
+    if (this.cache.has(num)) return this.cache.get(num) ?? null;
+    this.cache.set(num, null); // guards against reference cycles
+
+    let value: PdfValue = null;
+    const entry = this.xref.get(num);
+    if (entry && 'stream' in entry) {
+      const objects = await this.loadObjectStream(entry.stream);
+      value = objects.get(num) ?? null;
+    } else {
+      const parsed = entry ? this.parseIndirectAt(entry.offset) : null;
+      const found =
+        parsed && parsed.num === num ? parsed : this.parseIndirectAt(this.scanIndex().get(num) ?? -1);
+      value = found ? found.value : null;
+      // Objects inside object streams were decrypted along with their stream
+      if (found && this.security && num !== this.encryptNum) {
+        value = await this.security.decryptObject(value, num, found.gen);
+      }
+    }
+
+    this.cache.set(num, value);
+    return value;
+  }
+
+  private parseIndirectAt(offset: number): { num: number; gen: number; value: PdfValue } | null {
+    if (offset < 0 || offset >= this.buf.length) return null;
+    const lexer = new Lexer(this.buf, offset);
+    const num = lexer.read();
+    const gen = lexer.read();
+    if (typeof num !== 'number' || typeof gen !== 'number' || !isCmd(lexer.read(), 'obj')) return null;
+
+    let value = lexer.read() ?? null;
+    if (value instanceof Map) {
+      const save = lexer.pos;
+      if (isCmd(lexer.read(), 'stream')) {
+        value = new PdfStream(value, this.readStreamData(lexer.pos, value));
+      } else {
+        lexer.pos = save;
+      }
+    }
+    return { num, gen, value };
+  }
+
+  private readStreamData(start: number, dict: PdfDict): Uint8Array {
+    const b = this.buf;
+    if (b[start] === 0x0d) start++;
+    if (b[start] === 0x0a) start++;
+
+    let length = -1;
+    const lengthValue = dict.get('Length');
+    if (typeof lengthValue === 'number') {
+      length = lengthValue;
+    } else if (lengthValue instanceof PdfRef) {
+      const entry = this.xref.get(lengthValue.num);
+      const parsed = entry && 'offset' in entry ? this.parseIndirectAt(entry.offset) : null;
+      if (parsed && typeof parsed.value === 'number') length = parsed.value;
+    }
+
+    if (length >= 0 && start + length <= b.length) {
+      let end = start + length;
+      while (end < b.length && isWhite(b[end])) end++;
+      if (indexOfBytes(b.subarray(end, end + 9), 'endstream') === 0) {
+        return b.subarray(start, start + length);
+      }
+    }
+
+    // Missing or wrong /Length: fall back to searching for the end marker.
+    let end = indexOfBytes(b, 'endstream', start);
+    if (end < 0) end = b.length;
+    if (b[end - 1] === 0x0a) end--;
+    if (b[end - 1] === 0x0d) end--;
+    return b.subarray(start, Math.max(start, end));
+  }
+
+  private async readXrefChain() {
+    const marker = lastIndexOfBytes(this.buf, 'startxref');
+    if (marker < 0) return;
+    let offset: number | null = asNumber(new Lexer(this.buf, marker + 9).read(), -1);
+    const seen = new Set<number>();
+
+    while (offset !== null && offset >= 0 && !seen.has(offset)) {
+      seen.add(offset);
+      const lexer: Lexer = new Lexer(this.buf, offset);
+      const trailer: PdfDict | null = isCmd(lexer.read(), 'xref')
+        ? this.readXrefTable(lexer)
+        : await this.readXrefStream(offset);
+      if (!trailer) break;
+
+      // Newer sections are read first, so their trailer keys win.
+      for (const [key, value] of trailer) {
+        if (!this.trailer.has(key)) this.trailer.set(key, value);
+      }
+      const hybrid = trailer.get('XRefStm');
+      if (typeof hybrid === 'number') await this.readXrefStream(hybrid);
+      const prev: PdfValue | undefined = trailer.get('Prev');
+      offset = typeof prev === 'number' ? prev : null;
+    }
+  }
+
+  private readXrefTable(lexer: Lexer): PdfDict | null {
+    for (;;) {
+      const first = lexer.read();
+      if (isCmd(first, 'trailer')) {
+        const dict = lexer.read();
+        return dict instanceof Map ? dict : null;
+      }
+      const count = lexer.read();
+      if (typeof first !== 'number' || typeof count !== 'number') return null;
+      for (let i = 0; i < count; i++) {
+        const offset = lexer.read();
+        lexer.read(); // generation
+        const kind = lexer.read();
+        if (typeof offset !== 'number' || !(kind instanceof PdfCmd)) return null;
+        const num = first + i;
+        if (this.xref.has(num)) continue;
+        // Free entries are recorded too, so older sections cannot revive them.
+        this.xref.set(num, { offset: kind.cmd === 'n' ? offset : -1 });
+      }
+    }
+  }
+
+  private async readXrefStream(offset: number): Promise<PdfDict | null> {
+    const parsed = this.parseIndirectAt(offset);
+    if (!parsed || !(parsed.value instanceof PdfStream)) return null;
+    const dict = parsed.value.dict;
+    const data = await this.decodeStream(parsed.value);
+    if (!data) return null;
+
+    const w = dict.get('W');
+    if (!Array.isArray(w) || w.length < 3) return null;
+    const [w0, w1, w2] = w.map(v => asNumber(v));
+    const index = dict.get('Index');
+    const ranges = Array.isArray(index) ? index.map(v => asNumber(v)) : [0, asNumber(dict.get('Size'))];
+
+    let pos = 0;
+    const field = (width: number) => {
+      let v = 0;
+      for (let i = 0; i < width; i++) v = v * 256 + (data[pos++] ?? 0);
+      return v;
+    };
+
+    for (let r = 0; r + 1 < ranges.length; r += 2) {
+      for (let i = 0; i < ranges[r + 1] && pos < data.length; i++) {
+        const type = w0 ? field(w0) : 1;
+        const f2 = field(w1);
+        const f3 = field(w2);
+        const num = ranges[r] + i;
+        if (this.xref.has(num)) continue;
+        if (type === 1) this.xref.set(num, { offset: f2 });
+        else if (type === 2) this.xref.set(num, { stream: f2, index: f3 });
+        else this.xref.set(num, { offset: -1 });
+      }
+    }
+    return dict;
+  }
+
+  private loadObjectStream(num: number): Promise<Map<number, PdfValue>> {
+    let pending = this.objectStreams.get(num);
+    if (!pending) {
+      pending = (async () => {
+        const objects = new Map<number, PdfValue>();
+        const stream = await this.fetch(num);
+        if (!(stream instanceof PdfStream)) return objects;
+        const data = await this.decodeStream(stream);
+        if (!data) return objects;
+
+        const count = asNumber(stream.dict.get('N'));
+        const first = asNumber(stream.dict.get('First'));
+        const header = new Lexer(data, 0, false);
+        const offsets: [number, number][] = [];
+        for (let i = 0; i < count; i++) {
+          const objNum = header.read();
+          const objOffset = header.read();
+          if (typeof objNum !== 'number' || typeof objOffset !== 'number') break;
+          offsets.push([objNum, objOffset]);
+        }
+        for (const [objNum, objOffset] of offsets) {
+          objects.set(objNum, new Lexer(data, first + objOffset).read() ?? null);
+        }
+        return objects;
+      })();
+      this.objectStreams.set(num, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Offsets of every `n g obj` header in the file, found by brute force.
+   * Later definitions win, matching how incremental updates behave.
+   */
+  private scanIndex(): Map<number, number> {
+    if (!this.scanned) {
+      this.scanned = new Map();
+      const text = latin1(this.buf);
+      const re = /(\d+)\s+\d+\s+obj\b/g;
+      let m: RegExpExecArray | null;
+      while ((m = re.exec(text))) {
+        this.scanned.set(parseInt(m[1], 10), m.index);
+      }
+    }
+    return this.scanned;
+  }
+
+  private async reconstruct() {
+    for (const [num, offset] of this.scanIndex()) {
+      const entry = this.xref.get(num);
+      if (!entry || ('offset' in entry && entry.offset < 0)) this.xref.set(num, { offset });
+    }
+
+    const text = latin1(this.buf);
+    const re = /trailer\s*<</g;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(text))) {
+      const dict = new Lexer(this.buf, m.index + 7).read();
+      if (dict instanceof Map && dict.get('Root')) this.trailer = dict;
+    }
+    if (this.trailer.get('Root')) return;
+
+    for (const num of this.scanIndex().keys()) {
+      const value = asDict(await this.fetch(num));
+      if (value && asName(value.get('Type')) === 'Catalog') {
+        this.trailer.set('Root', new PdfRef(num, 0));
+        return;
+      }
+    }
+  }
+
+  /** Collects page dictionaries in order, with inherited resources applied. */
+  async getPages(): Promise<{ dict: PdfDict; resources: PdfDict | null }[]> {
+    const catalog = asDict(await this.get(this.trailer, 'Root'));
+    const pages: { dict: PdfDict; resources: PdfDict | null }[] = [];
+    const visited = new Set<PdfDict>();
+
+    const walk = async (node: PdfDict | null, inherited: PdfDict | null) => {
+      if (!node || visited.has(node)) return;
+      visited.add(node);
+      const resources = asDict(await this.get(node, 'Resources')) ?? inherited;
+      const kids = await this.get(node, 'Kids');
+      if (Array.isArray(kids)) {
+        for (const kid of kids) await walk(asDict(await this.resolve(kid)), resources);
+      } else if (asName(node.get('Type')) !== 'Pages') {
+        pages.push({ dict: node, resources });
+      }
+    };
+
+    await walk(asDict(await this.get(catalog, 'Pages')), null);
+    return pages;
+  }
+}
+
+// ---------- Fonts and encodings ----------
+
+const byteTable = (label: string) => {
+  const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+  try {
+    return Array.from(new TextDecoder(label).decode(bytes));
+  } catch {
+    return Array.from(latin1(bytes));
+  }
+};
+
+const WIN_ANSI = byteTable('windows-1252');
+const MAC_ROMAN = byteTable('macintosh');
+
+// StandardEncoding (the Type 1 default) differs from WinAnsi in the quotes
+// and in most of the upper half.
+const STANDARD: string[] = (() => {
+  const table = WIN_ANSI.map((ch, i) => (i < 0x80 ? ch : ''));
+  table[0x27] = '’';
+  table[0x60] = '‘';
+  const upper: Record<number, string> = {
+    0xa1: '¡', 0xa2: '¢', 0xa3: '£', 0xa4: '⁄', 0xa5: '¥', 0xa6: 'ƒ', 0xa7: '§', 0xa8: '¤',
+    0xa9: "'", 0xaa: '“', 0xab: '«', 0xac: '‹', 0xad: '›', 0xae: 'fi', 0xaf: 'fl', 0xb1: '–',
+    0xb2: '†', 0xb3: '‡', 0xb4: '·', 0xb6: '¶', 0xb7: '•', 0xb8: '‚', 0xb9: '„', 0xba: '”',
+    0xbb: '»', 0xbc: '…', 0xbd: '‰', 0xbf: '¿', 0xd0: '—', 0xe1: 'Æ', 0xe3: 'ª', 0xe8: 'Ł',
+    0xe9: 'Ø', 0xea: 'Œ', 0xeb: 'º', 0xf1: 'æ', 0xf5: 'ı', 0xf8: 'ł', 0xf9: 'ø', 0xfa: 'œ',
+    0xfb: 'ß',
+  };
+  for (const [code, ch] of Object.entries(upper)) table[Number(code)] = ch;
+  return table;
+})();
+
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%',
+  ampersand: '&', quotesingle: "'", quoteright: '’', quoteleft: '‘', parenleft: '(',
+  parenright: ')', asterisk: '*', plus: '+', comma: ',', hyphen: '-', period: '.',
+  slash: '/', zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6',
+  seven: '7', eight: '8', nine: '9', colon: ':', semicolon: ';', less: '<', equal: '=',
+  greater: '>', question: '?', at: '@', bracketleft: '[', backslash: '\\', bracketright: ']',
+  asciicircum: '^', underscore: '_', grave: '`', braceleft: '{', bar: '|', braceright: '}',
+  asciitilde: '~', bullet: '•', endash: '–', emdash: '—', quotedblleft: '“',
+  quotedblright: '”', quotesinglbase: '‚', quotedblbase: '„', ellipsis: '…', fi: 'fi',
+  fl: 'fl', ff: 'ff', ffi: 'ffi', ffl: 'ffl', dagger: '†', daggerdbl: '‡', trademark: '™',
+  copyright: '©', registered: '®', degree: '°', section: '§', paragraph: '¶', minus: '−',
+  multiply: '×', divide: '÷', plusminus: '±', periodcentered: '·', cent: '¢', sterling: '£',
+  yen: '¥', Euro: '€', florin: 'ƒ', guillemotleft: '«', guillemotright: '»',
+  guilsinglleft: '‹', guilsinglright: '›', exclamdown: '¡', questiondown: '¿',
+  germandbls: 'ß', ae: 'æ', AE: 'Æ', oslash: 'ø', Oslash: 'Ø', oe: 'œ', OE: 'Œ',
+  dotlessi: 'ı', eth: 'ð', Eth: 'Ð', thorn: 'þ', Thorn: 'Þ', lslash: 'ł', Lslash: 'Ł',
+  nbspace: '\u00a0', mu: 'µ', onehalf: '½', onequarter: '¼', threequarters: '¾',
+  arrowright: '→', arrowleft: '←', checkmark: '✓',
+};
+
+const ACCENTS: Record<string, string> = {
+  acute: '\u0301', grave: '\u0300', circumflex: '\u0302', tilde: '\u0303', dieresis: '\u0308',
+  ring: '\u030a', cedilla: '\u0327', caron: '\u030c', macron: '\u0304', breve: '\u0306',
+  ogonek: '\u0328', dotaccent: '\u0307', hungarumlaut: '\u030b',
+};
+
+function glyphToUnicode(name: string): string {
+  if (GLYPH_NAMES[name]) return GLYPH_NAMES[name];
+  if (/^[A-Za-z]$/.test(name)) return name;
+
+  let m = /^uni((?:[0-9A-F]{4})+)$/.exec(name);
+  if (m) return String.fromCharCode(...(m[1].match(/.{4}/g) ?? []).map(h => parseInt(h, 16)));
+  m = /^u([0-9A-F]{4,6})$/.exec(name);
+  if (m) return String.fromCodePoint(parseInt(m[1], 16));
+
+  m = /^([A-Za-z])([a-z]+)$/.exec(name);
+  if (m && ACCENTS[m[2]]) return (m[1] + ACCENTS[m[2]]).normalize('NFC');
+
+  // Suffixed (a.sc, one.oldstyle) and ligature (f_f_i) glyph names.
+  if (name.includes('.')) return glyphToUnicode(name.slice(0, name.indexOf('.')));
+  if (name.includes('_')) return name.split('_').map(glyphToUnicode).join('');
+  return '';
+}
+
+interface CodespaceRange {
+  bytes: number;
+  low: number;
+  high: number;
+}
+
+interface CMap {
+  ranges: CodespaceRange[];
+  map: Map<number, string>;
+}
+
+const bytesToInt = (bytes: Uint8Array) => bytes.reduce((n, b) => n * 256 + b, 0);
+
+const utf16be = (bytes: Uint8Array) => {
+  const units: number[] = [];
+  for (let i = 0; i + 1 < bytes.length; i += 2) units.push((bytes[i] << 8) | bytes[i + 1]);
+  if (bytes.length % 2) units.push(bytes[bytes.length - 1]);
+  return String.fromCharCode(...units);
+};
+
+/**
+ * Parses the parts of a CMap we need: codespace ranges (to split strings
+ * into codes) and bfchar/bfrange mappings (to turn codes into Unicode).
+ */
+function parseCMap(data: Uint8Array): CMap {
+  const cmap: CMap = { ranges: [], map: new Map() };
+  const lexer = new Lexer(data, 0, false);
+  const until = (end: string, size: number, handle: (items: PdfValue[]) => void) => {
+    for (;;) {
+      const items: PdfValue[] = [];
+      for (let i = 0; i < size; i++) {
+        const v = lexer.read();
+        if (v === undefined || isCmd(v, end)) return;
+        items.push(v);
+      }
+      handle(items);
+    }
+  };
+
+  for (;;) {
+    const token = lexer.read();
+    if (token === undefined) break;
+    if (isCmd(token, 'begincodespacerange')) {
+      until('endcodespacerange', 2, ([low, high]) => {
+        if (low instanceof Uint8Array && high instanceof Uint8Array) {
+          cmap.ranges.push({ bytes: low.length, low: bytesToInt(low), high: bytesToInt(high) });
+        }
+      });
+    } else if (isCmd(token, 'beginbfchar')) {
+      until('endbfchar', 2, ([src, dst]) => {
+        if (!(src instanceof Uint8Array)) return;
+        const text = dst instanceof Uint8Array ? utf16be(dst) : dst instanceof PdfName ? glyphToUnicode(dst.name) : '';
+        cmap.map.set(bytesToInt(src), text);
+      });
+    } else if (isCmd(token, 'beginbfrange')) {
+      until('endbfrange', 3, ([low, high, dst]) => {
+        if (!(low instanceof Uint8Array) || !(high instanceof Uint8Array)) return;
+        const start = bytesToInt(low);
+        const end = Math.min(bytesToInt(high), start + 0xffff);
+        for (let code = start; code <= end; code++) {
+          if (Array.isArray(dst)) {
+            const item = dst[code - start];
+            if (item instanceof Uint8Array) cmap.map.set(code, utf16be(item));
+          } else if (dst instanceof Uint8Array && dst.length > 0) {
+            const bytes = Uint8Array.from(dst);
+            let carry = code - start;
+            for (let i = bytes.length - 1; i >= 0 && carry > 0; i--) {
+              const sum = bytes[i] + carry;
+              bytes[i] = sum & 0xff;
+              carry = sum >> 8;
+            }
+            cmap.map.set(code, utf16be(bytes));
+          }
+        }
+      });
+    }
+  }
+  return cmap;
+}
+
+/**
+ * Everything the text interpreter needs to know about one font: how to
+ * split a string into character codes, what each code means in Unicode and
+ * how far each glyph advances.
+ */
+class PdfFont {
+  ranges: CodespaceRange[] = [];
+  toUnicodeMap: Map<number, string> | null = null;
+  encoding: string[] | null = null;
+  widths = new Map<number, number>();
+  defaultWidth = 0.5;
+  multiByte = false;
+  ucs2 = false;
+
+  codes(bytes: Uint8Array): number[] {
+    if (!this.multiByte) return Array.from(bytes);
+    const codes: number[] = [];
+    let i = 0;
+    while (i < bytes.length) {
+      let length = 0;
+      for (const range of this.ranges) {
+        if (i + range.bytes > bytes.length) continue;
+        const code = bytesToInt(bytes.subarray(i, i + range.bytes));
+        if (code >= range.low && code <= range.high) {
+          length = range.bytes;
+          break;
+        }
+      }
+      if (!length) length = Math.min(this.ranges.length ? this.ranges[0].bytes : 2, bytes.length - i);
+      codes.push(bytesToInt(bytes.subarray(i, i + length)));
+      i += length;
+    }
+    return codes;
+  }
+
+  toUnicode(code: number): string {
+    const mapped = this.toUnicodeMap?.get(code);
+    if (mapped !== undefined) return mapped;
+    if (this.encoding) return this.encoding[code] ?? '';
+    if (this.ucs2) return String.fromCharCode(code);
+    return '';
+  }
+
+  /** Glyph advance in text space units (i.e. already divided by 1000). */
+  width(code: number): number {
+    return this.widths.get(code) ?? this.defaultWidth;
+  }
+}
+
+async function loadFont(doc: PdfDocument, dict: PdfDict): Promise<PdfFont> {
+  const font = new PdfFont();
+  const subtype = asName(dict.get('Subtype'));
+
+  const toUnicode = await doc.get(dict, 'ToUnicode');
+  const cmap = toUnicode instanceof PdfStream ? await doc.decodeStream(toUnicode) : null;
+  if (cmap) {
+    const parsed = parseCMap(cmap);
+    font.toUnicodeMap = parsed.map;
+    font.ranges = parsed.ranges;
+  }
+
+  if (subtype === 'Type0') {
+    font.multiByte = true;
+    const encoding = await doc.get(dict, 'Encoding');
+    if (encoding instanceof PdfStream) {
+      const data = await doc.decodeStream(encoding);
+      const ranges = data ? parseCMap(data).ranges : [];
+      if (ranges.length) font.ranges = ranges;
+    } else {
+      const name = asName(encoding) ?? '';
+      font.ucs2 = /UCS2|UTF16/.test(name);
+      // Identity-H/V and the UCS2 CMaps always use two-byte codes.
+      if (/Identity|UCS2|UTF16/.test(name) || !font.ranges.length) {
+        font.ranges = [{ bytes: 2, low: 0, high: 0xffff }];
+      }
+    }
+
+    const descendants = await doc.get(dict, 'DescendantFonts');
+    const cidFont = asDict(await doc.resolve(Array.isArray(descendants) ? descendants[0] : null));
+    font.defaultWidth = asNumber(await doc.get(cidFont, 'DW'), 1000) / 1000;
+    const w = await doc.get(cidFont, 'W');
+    if (Array.isArray(w)) {
+      for (let i = 0; i < w.length;) {
+        const first = asNumber(await doc.resolve(w[i]));
+        const next = await doc.resolve(w[i + 1]);
+        if (Array.isArray(next)) {
+          for (let j = 0; j < next.length; j++) {
+            font.widths.set(first + j, asNumber(await doc.resolve(next[j])) / 1000);
+          }
+          i += 2;
+        } else {
+          const last = asNumber(next);
+          const width = asNumber(await doc.resolve(w[i + 2])) / 1000;
+          for (let code = first; code <= last && code - first < 0xffff; code++) font.widths.set(code, width);
+          i += 3;
+        }
+      }
+    }
+    return font;
+  }
+
+  // Simple fonts: one byte per code, with an optional base encoding plus
+  // a /Differences array that renames individual codes.
+  const baseFont = asName(dict.get('BaseFont')) ?? '';
+  const symbolic = /Symbol|Dingbats/i.test(baseFont);
+  const encodingValue = await doc.get(dict, 'Encoding');
+  const encodingDict = asDict(encodingValue);
+  const baseName = asName(encodingValue) ?? asName(encodingDict?.get('BaseEncoding'));
+  let table =
+    baseName === 'WinAnsiEncoding' ? WIN_ANSI
+    : baseName === 'MacRomanEncoding' ? MAC_ROMAN
+    : baseName === 'StandardEncoding' || subtype === 'Type1' ? STANDARD
+    : WIN_ANSI;
+  if (symbolic && !baseName) table = WIN_ANSI.map((ch, i) => (i >= 0x20 && i < 0x7f ? ch : ''));
+
+  const encoding = [...table];
+  const differences = await doc.get(encodingDict, 'Differences');
+  if (Array.isArray(differences)) {
+    let code = 0;
+    for (const item of differences) {
+      if (typeof item === 'number') code = item;
+      else if (item instanceof PdfName) encoding[code++] = glyphToUnicode(item.name);
+    }
+  }
+  font.encoding = encoding;
+
+  const fontMatrix = await doc.get(dict, 'FontMatrix');
+  const scale = Array.isArray(fontMatrix) && typeof fontMatrix[0] === 'number' ? fontMatrix[0] : 0.001;
+  const firstChar = asNumber(await doc.get(dict, 'FirstChar'));
+  const widths = await doc.get(dict, 'Widths');
+  if (Array.isArray(widths)) {
+    for (let i = 0; i < widths.length; i++) {
+      font.widths.set(firstChar + i, asNumber(await doc.resolve(widths[i])) * scale);
+    }
+  }
+  const descriptor = asDict(await doc.get(dict, 'FontDescriptor'));
+  const missing = asNumber(await doc.get(descriptor, 'MissingWidth'));
+  font.defaultWidth = missing ? missing * scale : /Courier/i.test(baseFont) ? 0.6 : 0.5;
+  return font;
+}
+
+// ---------- Layout ----------
+
+interface TextLine {
+  x: number;
+  y: number;
+  endX: number;
+  size: number;
+  text: string;
+}
+
+const BULLET_START = /^\s*([•◦▪▫■□●○‣⁃\-–—*]|\d{1,3}[.)]|[a-zA-Z][.)])\s/;
+
+/**
+ * Collects positioned text runs for one page and turns them into lines and
+ * paragraphs.  Runs on the same baseline are merged (with a space where the
+ * gap between them is wide enough), and paragraphs are split wherever the
+ * gap between lines is noticeably larger than the page's usual spacing.
+ */
+class PageTextBuilder {
+  private lines: TextLine[] = [];
+
+  add(text: string, x: number, y: number, endX: number, size: number) {
+    if (!text) return;
+    const last = this.lines[this.lines.length - 1];
+    const height = Math.max(size, last?.size ?? 0, 1);
+    if (last && Math.abs(y - last.y) < height * 0.5 && x > last.x - height) {
+      const gap = x - last.endX;
+      if (gap > size * 0.15 && !/\s$/.test(last.text) && !/^\s/.test(text)) last.text += ' ';
+      last.text += text;
+      last.endX = endX;
+      last.size = Math.max(last.size, size);
+    } else {
+      this.lines.push({ x, y, endX, size, text });
+    }
+  }
+
+  toText(): string {
+    const lines = this.lines
+      .map(line => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() }))
+      .filter(line => line.text);
+    if (!lines.length) return '';
+
+    const gaps = lines
+      .slice(1)
+      .map((line, i) => lines[i].y - line.y)
+      .filter((gap, i) => gap > 0 && gap < Math.max(lines[i].size, lines[i + 1].size) * 3)
+      .sort((a, b) => a - b);
+    const typicalGap = gaps.length ? gaps[Math.floor(gaps.length / 2)] : lines[0].size * 1.2;
+
+    let text = lines[0].text;
+    for (let i = 1; i < lines.length; i++) {
+      const prev = lines[i - 1];
+      const line = lines[i];
+      const gap = prev.y - line.y;
+      const sizeChange = Math.abs(line.size - prev.size) > Math.min(line.size, prev.size) * 0.2;
+
+      if (gap <= 0 || gap > typicalGap * 1.4 || sizeChange) {
+        text += '\n\n' + line.text;
+      } else if (BULLET_START.test(line.text)) {
+        text += '\n' + line.text;
+      } else if (/[a-z]-$/.test(text) && /^[a-z]/.test(line.text)) {
+        text = text.slice(0, -1) + line.text; // re-join a hyphenated word
+      } else {
+        text += ' ' + line.text;
+      }
+    }
+    return text;
+  }
+}
+
+// ---------- Content stream interpreter ----------
+
+interface GraphicsState {
+  ctm: Matrix;
+  font: PdfFont | null;
+  size: number;
+  charSpace: number;
+  wordSpace: number;
+  scale: number;
+  leading: number;
+  rise: number;
+}
+
+class TextExtractor {
+  private fonts = new WeakMap<PdfDict, Promise<PdfFont>>();
+
+  constructor(private readonly doc: PdfDocument) {}
+
+  async extractPage(page: { dict: PdfDict; resources: PdfDict | null }): Promise<string> {
+    const contents = await this.doc.get(page.dict, 'Contents');
+    const parts: Uint8Array[] = [];
+    for (const item of Array.isArray(contents) ? contents : [contents]) {
+      const stream = await this.doc.resolve(item);
+      const data = stream instanceof PdfStream ? await this.doc.decodeStream(stream) : null;
+      // Content may be split across streams at any token boundary, so join
+      // the pieces with whitespace before interpreting them as one.
+      if (data) parts.push(data, Uint8Array.of(0x0a));
+    }
+    const builder = new PageTextBuilder();
+    await this.run(concatBytes(parts), page.resources, IDENTITY, builder, 0);
+    return builder.toText();
+  }
+
+  private font(dict: PdfDict): Promise<PdfFont> {
+    let font = this.fonts.get(dict);
+    if (!font) {
+      font = loadFont(this.doc, dict);
+      this.fonts.set(dict, font);
+    }
+    return font;
+  }
+
+  private async resource(resources: PdfDict | null, category: string, name: string): Promise<PdfValue> {
+    const group = asDict(await this.doc.get(resources, category));
+    return this.doc.get(group, name);
+  }
+
+  private async run(data: Uint8Array, resources: PdfDict | null, ctm: Matrix, out: PageTextBuilder, depth: number) {
+    const doc = this.doc;
+    const lexer = new Lexer(data, 0, false);
+    const stack: GraphicsState[] = [];
+    let gs: GraphicsState = { ctm, font: null, size: 0, charSpace: 0, wordSpace: 0, scale: 1, leading: 0, rise: 0 };
+    let tm: Matrix = IDENTITY;
+    let tlm: Matrix = IDENTITY;
+    let operands: PdfValue[] = [];
+
+    const moveLine = (tx: number, ty: number) => {
+      tlm = multiply([1, 0, 0, 1, tx, ty], tlm);
+      tm = tlm;
+    };
+
+    const show = (bytes: PdfValue) => {
+      const font = gs.font;
+      if (!(bytes instanceof Uint8Array) || !font) return;
+      const start = multiply([1, 0, 0, 1, 0, gs.rise], multiply(tm, gs.ctm));
+      const size = gs.size * Math.hypot(start[2], start[3]);
+      let text = '';
+      for (const code of font.codes(bytes)) {
+        text += font.toUnicode(code);
+        const spacing = gs.charSpace + (code === 32 && !font.multiByte ? gs.wordSpace : 0);
+        const advance = (font.width(code) * gs.size + spacing) * gs.scale;
+        tm = multiply([1, 0, 0, 1, advance, 0], tm);
+      }
+      const end = multiply(tm, gs.ctm);
+      out.add(text.replace(/[\u0000-\u001f]/g, ' '), start[4], start[5], end[4], Math.abs(size));
+    };
+
+    for (;;) {
+      const token = lexer.read();
+      if (token === undefined) break;
+      if (!(token instanceof PdfCmd)) {
+        operands.push(token);
+        continue;
+      }
+
+      const num = (i: number) => asNumber(operands[i]);
+      switch (token.cmd) {
+        case 'q':
+          stack.push({ ...gs });
+          break;
+        case 'Q':
+          gs = stack.pop() ?? gs;
+          break;
+        case 'cm':
+          gs.ctm = multiply([num(0), num(1), num(2), num(3), num(4), num(5)], gs.ctm);
+          break;
+        case 'BT':
+          tm = tlm = IDENTITY;
+          break;
+        case 'Tf': {
+          const fontDict = asDict(await this.resource(resources, 'Font', asName(operands[0]) ?? ''));
+          gs.font = fontDict ? await this.font(fontDict) : null;
+          gs.size = num(1);
+          break;
+        }
+        case 'Tc': gs.charSpace = num(0); break;
+        case 'Tw': gs.wordSpace = num(0); break;
+        case 'Tz': gs.scale = num(0) / 100; break;
+        case 'TL': gs.leading = num(0); break;
+        case 'Ts': gs.rise = num(0); break;
+        case 'Td':
+          moveLine(num(0), num(1));
+          break;
+        case 'TD':
+          gs.leading = -num(1);
+          moveLine(num(0), num(1));
+          break;
+        case 'Tm':
+          tm = tlm = [num(0), num(1), num(2), num(3), num(4), num(5)];
+          break;
+        case 'T*':
+          moveLine(0, -gs.leading);
+          break;
+        case 'Tj':
+          show(operands[0]);
+          break;
+        case "'":
+          moveLine(0, -gs.leading);
+          show(operands[0]);
+          break;
+        case '"':
+          gs.wordSpace = num(0);
+          gs.charSpace = num(1);
+          moveLine(0, -gs.leading);
+          show(operands[2]);
+          break;
+        case 'TJ':
+          for (const item of Array.isArray(operands[0]) ? operands[0] : []) {
+            if (typeof item === 'number') {
+              tm = multiply([1, 0, 0, 1, (-item / 1000) * gs.size * gs.scale, 0], tm);
+            } else {
+              show(item);
+            }
+          }
+          break;
+        case 'Do': {
+          if (depth >= 8) break;
+          const xobject = await this.resource(resources, 'XObject', asName(operands[0]) ?? '');
+          if (!(xobject instanceof PdfStream) || asName(xobject.dict.get('Subtype')) !== 'Form') break;
+          const content = await doc.decodeStream(xobject);
+          if (!content) break;
+          const matrix = await doc.get(xobject.dict, 'Matrix');
+          const formMatrix = (Array.isArray(matrix) && matrix.length === 6 ? matrix.map(v => asNumber(v)) : IDENTITY) as Matrix;
+          const formResources = asDict(await doc.get(xobject.dict, 'Resources')) ?? resources;
+          await this.run(content, formResources, multiply(formMatrix, gs.ctm), out, depth + 1);
+          break;
+        }
+        case 'BI':
+          this.skipInlineImage(lexer);
+          break;
+      }
+      operands = [];
+    }
+  }
+
+  /** Skips the binary payload of an inline image (BI ... ID <data> EI). */
+  private skipInlineImage(lexer: Lexer) {
+    for (;;) {
+      const token = lexer.read();
+      if (token === undefined || isCmd(token, 'ID')) break;
+    }
+    const b = lexer.buf;
+    let pos = lexer.pos + 1;
+    while (pos < b.length) {
+      if (
+        b[pos] === 0x45 && b[pos + 1] === 0x49 && isWhite(b[pos - 1]) &&
+        (pos + 2 >= b.length || isWhite(b[pos + 2]))
+      ) {
+        pos += 2;
+        break;
+      }
+      pos++;
+    }
+    lexer.pos = pos;
+  }
+}
+
+/**
+ * Extracts the text of every page of a PDF file.  Pages that fail to parse
+ * come back as empty strings so one damaged page does not lose the rest of
+ * the document.
+ */
+export async function extractPdfText(data: Uint8Array): Promise<PdfTextResult> {
+  if (indexOfBytes(data.subarray(0, 1024), '%PDF') < 0) {
+    throw new PdfError('This file does not look like a PDF.');
+  }
+
+  const doc = new PdfDocument(data);
+  await doc.load();
+
+  const extractor = new TextExtractor(doc);
+  const pages: string[] = [];
+  for (const page of await doc.getPages()) {
+    try {
+      pages.push(normalizeText(await extractor.extractPage(page)));
+    } catch (error) {
+      console.warn('Failed to extract text from PDF page', error);
+      pages.push('');
+    }
+  }
+  return { pages };
+}
+
+/** Expands typographic ligatures and tidies whitespace for reading aloud. */
+function normalizeText(text: string): string {
+  return text
+    .replace(/ﬀ/g, 'ff')
+    .replace(/ﬁ/g, 'fi')
+    .replace(/ﬂ/g, 'fl')
+    .replace(/ﬃ/g, 'ffi')
+    .replace(/ﬄ/g, 'ffl')
+    .replace(/[ﬅﬆ]/g, 'st')
+    .replace(/\u00ad/g, '')
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .trim();
+}
@@ -0,0 +1,147 @@
+/**
+ * Accessibility presets
+ *
+ * A preset is a named set of settings.  The built-in presets set only what
+ * they are about; a preset a user saves keeps everything.  Presets can be
+ * shared as a small JSON file, or as a link carrying the same JSON in its
+ * hash, so a teacher can hand a student a tuned profile.
+ *
+ * Shared presets are checked against the default settings and the rules
+ * for each one: anything unknown, of the wrong type or not among the
+ * allowed values is dropped, and numbers are clamped to their range, so an
+ * old or hand-edited file can never put the app into a state it cannot
+ * show.
+ */
+
+export interface Preset<T> {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  settings: Partial<T>;
+}
+
+/** The range a number is clamped to. */
+export interface PresetRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * What a setting may be: one of a few values, a number in a range or a
+ * string matching a pattern; for a group of settings, a rule per field.
+ */
+export type PresetRule<V> = [V] extends [number]
+  ? readonly V[] | PresetRange
+  : [V] extends [string]
+    ? readonly V[] | RegExp
+    : [V] extends [object]
+      ? { [K in keyof V]?: PresetRule<V[K]> }
+      : readonly V[];
+
+/** Rules for the settings that cannot take any value of their type. */
+export type PresetChoices<T> = { [K in keyof T]?: PresetRule<T[K]> };
+
+export const createPresetId = () => `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+/** The name, numbered ("Name (2)") if one of the presets already has it. */
+export function uniquePresetName(name: string, presets: { name: string }[]): string {
+  const taken = new Set(presets.map(preset => preset.name));
+  let unique = name;
+  for (let n = 2; taken.has(unique); n++) unique = `${name} (${n})`;
+  return unique;
+}
+
+const LINK_KEY = 'preset';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (!isObject(a) || !isObject(b)) return a === b;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every(key => sameValue(a[key], b[key]));
+}
+
+/** Whether settings are all the preset sets them to. */
+export function matchesPreset<T>(settings: T, preset: Preset<T>): boolean {
+  return (Object.keys(preset.settings) as (keyof T)[]).every(key => sameValue(settings[key], preset.settings[key]));
+}
+
+// A value shaped like the default and allowed by the rule, filling gaps
+// (and bad values) in objects from the default
+function cleanValue(value: unknown, fallback: unknown, rule?: unknown): unknown {
+  if (isObject(fallback)) {
+    if (!isObject(value)) return undefined;
+    const rules = isObject(rule) ? rule : {};
+    return Object.fromEntries(
+      Object.entries(fallback).map(([key, inner]) => [key, cleanValue(value[key], inner, rules[key]) ?? inner])
+    );
+  }
+  if (typeof value !== typeof fallback) return undefined;
+  if (Array.isArray(rule)) return rule.includes(value) ? value : undefined;
+  if (rule instanceof RegExp) return rule.test(String(value)) ? value : undefined;
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return undefined;
+    const { min = -Infinity, max = Infinity } = (rule ?? {}) as Partial<PresetRange>;
+    return Math.min(Math.max(value, min), max);
+  }
+  return value;
+}
+
+export const presetToJson = <T>({ name, icon, description, settings }: Preset<T>) =>
+  JSON.stringify({ name, icon, description, settings }, null, 2);
+
+/** Reads a shared preset (throws if it is not one). */
+export function parsePreset<T extends object>(text: string, defaults: T, choices: PresetChoices<T> = {}): Preset<T> {
+  const data = JSON.parse(text);
+  if (!isObject(data) || typeof data.name !== 'string' || !data.name.trim() || !isObject(data.settings)) {
+    throw new Error('This is not an accessibility preset.');
+  }
+  const settings: Partial<T> = {};
+  for (const key of Object.keys(defaults) as (keyof T)[]) {
+    const value = cleanValue(data.settings[key as string], defaults[key], choices[key]) as T[keyof T] | undefined;
+    if (value !== undefined) settings[key] = value;
+  }
+  if (!Object.keys(settings).length) throw new Error('This preset has no settings this app knows.');
+  return {
+    id: createPresetId(),
+    name: data.name.trim().slice(0, 60),
+    icon: typeof data.icon === 'string' && data.icon ? Array.from(data.icon).slice(0, 4).join('') : '⭐',
+    description: typeof data.description === 'string' ? data.description.slice(0, 200) : '',
+    settings,
+  };
+}
+
+// URL-safe base64 of the UTF-8 JSON, so names in any script survive
+function encode(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function decode(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+/** A link to this app that loads the preset when opened. */
+export function presetLink<T>(preset: Preset<T>): string {
+  const { name, icon, description, settings } = preset;
+  const json = JSON.stringify({ name, icon, description, settings });
+  return `${window.location.origin}${window.location.pathname}#${LINK_KEY}=${encode(json)}`;
+}
+
+/** The preset in a link's hash, or null if there is none (or it is broken). */
+export function presetFromLink<T extends object>(
+  hash: string,
+  defaults: T,
+  choices: PresetChoices<T> = {}
+): Preset<T> | null {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(LINK_KEY);
+  if (!encoded) return null;
+  try {
+    return parsePreset(decode(encoded), defaults, choices);
+  } catch {
+    return null;
+  }
+}
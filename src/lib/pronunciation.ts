@@ -0,0 +1,167 @@
+import { parseCsv } from './glossary';
+
+/**
+ * Pronunciation lexicon
+ *
+ * System voices stumble over science vocabulary and abbreviations, so text
+ * is rewritten before it is spoken: "ATP" -> "A T P", "mitochondria" -> a
+ * phonetic spelling.  Rules match whole words or regular expressions; a
+ * document can carry its own rules, which take precedence over the user's.
+ *
+ * Rewriting moves words around, so the result keeps a map back to the
+ * original text: word boundaries reported while speaking still highlight
+ * the right words.
+ */
+
+export interface PronunciationRule {
+  id: string;
+  match: string; // a word or phrase, or a regular expression
+  say: string; // for regex rules, $1, $2... insert captured groups
+  regex?: boolean;
+  caseSensitive?: boolean;
+}
+
+/** Text ready to speak, with a way back to positions in the original. */
+export interface SpokenText {
+  text: string;
+  // Inside a replaced word: its start, or with end set, its end
+  toOriginal: (index: number, end?: boolean) => number;
+}
+
+// Replaced stretches: [start, end) in the original and in the spoken text
+interface Replacement {
+  from: number;
+  to: number;
+  spokenFrom: number;
+  spokenTo: number;
+}
+
+export const DEFAULT_LEXICON: PronunciationRule[] = [
+  { id: 'atp', match: 'ATP', say: 'A T P', caseSensitive: true },
+  { id: 'dna', match: 'DNA', say: 'D N A', caseSensitive: true },
+  { id: 'mitochondria', match: 'mitochondria', say: 'my toe kon dree uh' }
+];
+
+export const createRuleId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** The rule as a global regular expression (throws for an invalid regex). */
+function ruleRegExp(rule: PronunciationRule): RegExp {
+  const flags = `gu${rule.caseSensitive ? '' : 'i'}`;
+  if (rule.regex) return new RegExp(rule.match, flags);
+  // Whole words only: "ATP" but not "ATPase"
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(rule.match.trim())}(?![\\p{L}\\p{N}])`, flags);
+}
+
+/** Why a rule cannot be used, or null if it is fine. */
+export function ruleError(rule: PronunciationRule): string | null {
+  if (!rule.match.trim()) return 'Enter the text to match.';
+  try {
+    const pattern = ruleRegExp(rule);
+    if (pattern.test('')) return 'This pattern matches empty text.';
+  } catch (error) {
+    return `Not a valid regular expression: ${(error as Error).message}`;
+  }
+  return null;
+}
+
+// $1, $2 and $& in a replacement, as in String.prototype.replace
+const expand = (say: string, match: RegExpMatchArray) =>
+  say.replace(/\$(\d+|&)/g, (token, group) => (group === '&' ? match[0] : match[Number(group)] ?? token));
+
+/**
+ * Applies the rules to some text.  Rules are tried in order on the
+ * original text; where two matches overlap, the earlier rule wins.
+ */
+export function applyLexicon(text: string, rules: PronunciationRule[]): SpokenText {
+  const found: { from: number; to: number; say: string }[] = [];
+  for (const rule of rules) {
+    if (ruleError(rule)) continue;
+    for (const match of text.matchAll(ruleRegExp(rule))) {
+      const from = match.index!;
+      const to = from + match[0].length;
+      if (found.some(other => from < other.to && to > other.from)) continue;
+      found.push({ from, to, say: expand(rule.say, match) });
+    }
+  }
+  if (!found.length) return { text, toOriginal: index => index };
+
+  found.sort((a, b) => a.from - b.from);
+  const replacements: Replacement[] = [];
+  let spoken = '';
+  let position = 0;
+  for (const { from, to, say } of found) {
+    spoken += text.slice(position, from);
+    replacements.push({ from, to, spokenFrom: spoken.length, spokenTo: spoken.length + say.length });
+    spoken += say;
+    position = to;
+  }
+  spoken += text.slice(position);
+
+  const toOriginal = (index: number, end = false) => {
+    let shift = 0;
+    for (const r of replacements) {
+      if (index < r.spokenFrom) break;
+      // Anywhere inside a replacement is the replaced word
+      if (index < r.spokenTo) return end && index > r.spokenFrom ? r.to : r.from;
+      shift = r.to - r.spokenTo;
+    }
+    return index + shift;
+  };
+  return { text: spoken, toOriginal };
+}
+
+/**
+ * Maps a word reported while speaking (start and length in the spoken
+ * text) back to the original text.
+ */
+export function originalRange(spoken: SpokenText, start: number, length: number) {
+  const from = spoken.toOriginal(start);
+  const end = spoken.toOriginal(start + length, true);
+  return { start: from, end: Math.max(end, from) };
+}
+
+/** Rules as JSON, for sharing. */
+export const lexiconToJson = (rules: PronunciationRule[]) =>
+  JSON.stringify(
+    rules.map(({ match, say, regex, caseSensitive }) => ({ match, say, regex: !!regex, caseSensitive: !!caseSensitive })),
+    null,
+    2
+  );
+
+/**
+ * Reads rules from an exported JSON file, a JSON object of word -> spoken
+ * form, or CSV (match, say, and optionally "regex" in a third column).
+ * Throws if nothing usable is found.
+ */
+export function parseLexicon(text: string): PronunciationRule[] {
+  let rules: PronunciationRule[];
+  if (/^\s*[[{]/.test(text)) {
+    const data = JSON.parse(text);
+    const items = Array.isArray(data)
+      ? data
+      : Object.entries(data ?? {}).map(([match, say]) => ({ match, say }));
+    rules = items
+      .filter(item => item && typeof item.match === 'string' && typeof item.say === 'string')
+      .map(item => ({
+        id: createRuleId(),
+        match: item.match,
+        say: item.say,
+        regex: !!item.regex,
+        caseSensitive: !!item.caseSensitive
+      }));
+  } else {
+    rules = parseCsv(text)
+      .filter(([match, say]) => match?.trim() && say !== undefined && match.trim().toLowerCase() !== 'match')
+      .map(([match, say, kind]) => ({
+        id: createRuleId(),
+        match: match.trim(),
+        say: say.trim(),
+        regex: kind?.trim().toLowerCase() === 'regex'
+      }));
+  }
+  rules = rules.filter(rule => !ruleError(rule));
+  if (!rules.length) throw new Error('No pronunciation rules were found in this file.');
+  return rules;
+}
@@ -0,0 +1,160 @@
+import { SpeechBreak, TextRange } from './speech';
+
+/**
+ * In-page read-along
+ *
+ * Lets the header read-aloud button follow along in any part of the page,
+ * not just the document reader.  The text under a DOM range (a selection or
+ * a whole card) is mapped back to the text nodes it came from, so a
+ * character range in the spoken text can be turned into a DOM range and
+ * highlighted where it is.
+ *
+ * The page itself is never changed: React owns those nodes, so the
+ * highlight uses the CSS Custom Highlight API, or boxes drawn over the
+ * text where that is not available.
+ */
+
+export interface TextMap {
+  text: string;
+  // Where each text node's (clipped) content starts in text
+  nodes: { node: Text; start: number; from: number; to: number }[];
+}
+
+// Controls, hidden content and our own buttons are not read out
+// Page-wide Bionic Reading hides the original text visually and shows an
+// aria-hidden copy: follow the copy, which is what is on screen
+const SKIP_SELECTOR =
+  'script, style, noscript, button, input, textarea, select, [aria-hidden="true"]:not(.bionic-visible), .bionic-sr, .tts-skip';
+const BLOCK_SELECTOR = 'p, li, h1, h2, h3, h4, h5, h6, div, section, article, blockquote, td, th, dd, dt, label, pre';
+
+function isReadable(node: Text): boolean {
+  const parent = node.parentElement;
+  if (!parent || parent.closest(SKIP_SELECTOR)) return false;
+  // Not display: none (getClientRects is empty for display: contents too)
+  return typeof parent.checkVisibility === 'function' ? parent.checkVisibility() : parent.getClientRects().length > 0;
+}
+
+/** Maps the text under a range to the text nodes it comes from. */
+export function mapRange(range: Range): TextMap {
+  const map: TextMap = { text: '', nodes: [] };
+  const root = range.commonAncestorContainer;
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  let lastBlock: Element | null = null;
+  const visit = (node: Text) => {
+    if (!range.intersectsNode(node) || !isReadable(node)) return;
+    const from = node === range.startContainer ? range.startOffset : 0;
+    const to = node === range.endContainer ? range.endOffset : node.length;
+    const content = node.data.slice(from, to);
+    if (!content.trim()) return;
+    // Keep words in different paragraphs, cells or list items apart
+    const block = node.parentElement!.closest(BLOCK_SELECTOR);
+    if (map.text && block !== lastBlock && !/\s$/.test(map.text)) map.text += '\n';
+    lastBlock = block;
+    map.nodes.push({ node, start: map.text.length, from, to });
+    map.text += content;
+  };
+  if (root.nodeType === Node.TEXT_NODE) {
+    visit(root as Text);
+  } else {
+    while (walker.nextNode()) visit(walker.currentNode as Text);
+  }
+  return map;
+}
+
+function pointAt(map: TextMap, index: number, end: boolean): [Text, number] | null {
+  for (const entry of map.nodes) {
+    const length = entry.to - entry.from;
+    const inside = end ? index <= entry.start + length : index < entry.start + length;
+    if (index >= entry.start && inside) return [entry.node, entry.from + index - entry.start];
+  }
+  // In a gap between nodes: snap to the next node's start
+  const next = map.nodes.find(entry => entry.start >= index);
+  return next ? [next.node, next.from] : null;
+}
+
+/** The DOM range for part of the mapped text. */
+export function rangeFor(map: TextMap, { start, end }: TextRange): Range | null {
+  const from = pointAt(map, start, false);
+  const to = pointAt(map, end, true);
+  if (!from || !to) return null;
+  const range = document.createRange();
+  range.setStart(...from);
+  range.setEnd(...to);
+  return range;
+}
+
+const inHeading = (map: TextMap, range: TextRange) =>
+  !!rangeFor(map, range)?.startContainer.parentElement?.closest('h1, h2, h3, h4, h5, h6');
+
+/**
+ * The break after each sentence of mapped text, for paced reading: a new
+ * block (mapRange puts a line break between blocks) is a paragraph, and a
+ * heading on either side of one is a heading.
+ */
+export function textBreaks(map: TextMap, sentences: TextRange[]): SpeechBreak[] {
+  const headings = sentences.map(sentence => inHeading(map, sentence));
+  return sentences.map((sentence, index) => {
+    const next = sentences[index + 1];
+    if (!next) return 'paragraph';
+    if (headings[index] || headings[index + 1]) return 'heading';
+    return map.text.slice(sentence.end, next.start).includes('\n') ? 'paragraph' : 'sentence';
+  });
+}
+
+export type HighlightName = 'tts-sentence' | 'tts-word';
+
+const supportsHighlights = () => typeof CSS !== 'undefined' && 'highlights' in CSS && typeof Highlight !== 'undefined';
+
+// Ranges drawn as overlays, redrawn when the page scrolls
+const overlayRanges = new Map<HighlightName, Range>();
+const redrawOverlays = () => overlayRanges.forEach((range, name) => drawOverlay(name, range));
+
+/** Overlay boxes for browsers without CSS highlights. */
+function drawOverlay(name: HighlightName, range: Range | null) {
+  let layer = document.getElementById(name);
+  if (!range) {
+    layer?.remove();
+    overlayRanges.delete(name);
+    if (!overlayRanges.size) window.removeEventListener('scroll', redrawOverlays, true);
+    return;
+  }
+  if (!overlayRanges.size) window.addEventListener('scroll', redrawOverlays, true);
+  overlayRanges.set(name, range);
+  if (!layer) {
+    layer = document.createElement('div');
+    layer.id = name;
+    layer.className = `tts-overlay ${name}`;
+    layer.setAttribute('aria-hidden', 'true');
+    document.body.appendChild(layer);
+  }
+  layer.replaceChildren(
+    ...Array.from(range.getClientRects()).map(rect => {
+      const box = document.createElement('div');
+      Object.assign(box.style, {
+        left: `${rect.left}px`,
+        top: `${rect.top}px`,
+        width: `${rect.width}px`,
+        height: `${rect.height}px`
+      });
+      return box;
+    })
+  );
+}
+
+/** Shows (or with null, clears) one of the read-along highlights. */
+export function showHighlight(name: HighlightName, range: Range | null) {
+  if (supportsHighlights()) {
+    if (range) CSS.highlights.set(name, new Highlight(range));
+    else CSS.highlights.delete(name);
+  } else {
+    drawOverlay(name, range);
+  }
+}
+
+/** Scrolls a range into view if it is off screen. */
+export function revealRange(range: Range) {
+  const rect = range.getBoundingClientRect();
+  if (rect.top >= 0 && rect.bottom <= window.innerHeight) return;
+  const el = range.startContainer.parentElement;
+  el?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+}
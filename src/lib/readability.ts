@@ -0,0 +1,239 @@
+import { blockPieces, countWords, DocumentBlock } from './blocks';
+import { splitSentences, TextRange } from './speech';
+
+/**
+ * Readability analysis
+ *
+ * Scores how hard a document is to read, paragraph by paragraph, using the
+ * standard English readability formulas (Flesch Reading Ease,
+ * Flesch-Kincaid grade, Gunning Fog, Coleman-Liau and SMOG).  Syllables are
+ * counted with a spelling heuristic, so scores are estimates; they are most
+ * useful for comparing parts of a text with each other.
+ *
+ * Also flags very long sentences and paragraphs dense with long words, and
+ * suggests places to take a break, based on how long (and how hard) the
+ * text before them is to read.
+ */
+
+export type Difficulty = 'easy' | 'moderate' | 'hard' | 'very-hard';
+
+export interface TextStats {
+  words: number;
+  sentences: number;
+  syllables: number;
+  letters: number;
+  polysyllables: number; // words of three or more syllables
+  complexWords: number; // the same, leaving out names, compounds and simple endings (Gunning Fog)
+}
+
+export interface ReadabilityScores {
+  ease: number; // Flesch Reading Ease, 0 (hard) - 100 (easy)
+  grade: number; // Flesch-Kincaid grade level
+  fog: number; // Gunning Fog index
+  colemanLiau: number;
+  smog: number;
+}
+
+export interface BlockReadability {
+  block: number;
+  stats: TextStats;
+  scores: ReadabilityScores;
+  difficulty?: Difficulty; // left out for text too short to judge
+  longSentences: number;
+  dense: boolean; // many long, uncommon words
+}
+
+export interface ReadabilityFlag {
+  block: number;
+  piece: number;
+  range: TextRange;
+  kind: 'long-sentence' | 'jargon';
+}
+
+export interface ReadabilityReport {
+  blocks: BlockReadability[]; // paragraphs, quotes and lists only
+  overall: TextStats & { scores: ReadabilityScores };
+  flags: ReadabilityFlag[];
+}
+
+export interface BreakSuggestion {
+  after: number; // block index
+  minutes: number; // reading time since the previous break
+}
+
+/** Sentences longer than this are flagged. */
+export const LONG_SENTENCE_WORDS = 30;
+
+// A paragraph is dense when this share of its words are long and uncommon
+const DENSE_RATIO = 0.2;
+const MIN_WORDS_TO_JUDGE = 12;
+
+const WORD = /[\p{L}\p{N}][\p{L}\p{N}\p{M}'’-]*/gu;
+
+/** Estimated syllables in an English word. */
+export function countSyllables(word: string): number {
+  let letters = word.normalize('NFKD').toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) return word.length ? 1 : 0;
+  if (letters.length <= 3) return 1;
+  // Silent endings: "makes", "jumped", "make" (but not "able", "tree")
+  letters = letters.replace(/(?:[^laeiouy]es|[^aeiouydt]ed|[^laeiouy]e)$/, match => match[0]).replace(/^y/, '');
+  return Math.max(1, letters.match(/[aeiouy]{1,2}/g)?.length ?? 1);
+}
+
+const emptyStats = (): TextStats => ({
+  words: 0,
+  sentences: 0,
+  syllables: 0,
+  letters: 0,
+  polysyllables: 0,
+  complexWords: 0
+});
+
+function addStats(total: TextStats, stats: TextStats): TextStats {
+  for (const key of Object.keys(total) as (keyof TextStats)[]) total[key] += stats[key];
+  return total;
+}
+
+/** A word that makes text harder: three or more syllables, not a name or a compound, and not just long because of its ending. */
+function isComplex(word: string, syllables: number, firstInSentence: boolean): boolean {
+  if (syllables < 3 || word.includes('-')) return false;
+  if (!firstInSentence && /^\p{Lu}/u.test(word)) return false;
+  return countSyllables(word.replace(/(?:es|ed|ing)$/i, '')) >= 3;
+}
+
+/** Scores from counts; text with no words scores as easy. */
+export function readabilityScores(stats: TextStats): ReadabilityScores {
+  const words = Math.max(1, stats.words);
+  const sentences = Math.max(1, stats.sentences);
+  const wordsPerSentence = words / sentences;
+  const syllablesPerWord = stats.syllables / words;
+  return {
+    ease: 206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord,
+    grade: 0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59,
+    fog: 0.4 * (wordsPerSentence + (100 * stats.complexWords) / words),
+    colemanLiau: 0.0588 * ((100 * stats.letters) / words) - 0.296 * ((100 * sentences) / words) - 15.8,
+    smog: 1.043 * Math.sqrt((stats.polysyllables * 30) / sentences) + 3.1291
+  };
+}
+
+export function difficultyFor(grade: number): Difficulty {
+  if (grade <= 6) return 'easy';
+  if (grade <= 10) return 'moderate';
+  if (grade <= 14) return 'hard';
+  return 'very-hard';
+}
+
+/** Plain-language meaning of a Flesch Reading Ease score. */
+export function easeLabel(ease: number): string {
+  if (ease >= 90) return 'Very easy';
+  if (ease >= 80) return 'Easy';
+  if (ease >= 70) return 'Fairly easy';
+  if (ease >= 60) return 'Plain English';
+  if (ease >= 50) return 'Fairly difficult';
+  if (ease >= 30) return 'Difficult';
+  return 'Very difficult';
+}
+
+/** Who a US grade level suits, e.g. "Grade 8 (age 13-14)". */
+export function gradeLabel(grade: number): string {
+  const level = Math.max(1, Math.round(grade));
+  if (level <= 12) return `Grade ${level} (age ${level + 5}-${level + 6})`;
+  if (level <= 16) return 'College';
+  return 'Graduate / specialist';
+}
+
+/** Analyses the paragraphs, quotes and lists of a document. */
+export function analyseReadability(blocks: DocumentBlock[]): ReadabilityReport {
+  const results: BlockReadability[] = [];
+  const flags: ReadabilityFlag[] = [];
+  const overall = emptyStats();
+
+  blocks.forEach((block, blockIndex) => {
+    if (block.kind !== 'paragraph' && block.kind !== 'quote' && block.kind !== 'list') return;
+    const stats = emptyStats();
+    const jargon: ReadabilityFlag[] = [];
+    let longSentences = 0;
+
+    blockPieces(block).forEach((text, piece) => {
+      for (const sentence of splitSentences(text, Infinity)) {
+        const words = [...text.slice(sentence.start, sentence.end).matchAll(WORD)];
+        if (!words.length) continue;
+        stats.sentences++;
+        if (words.length > LONG_SENTENCE_WORDS) {
+          longSentences++;
+          flags.push({ block: blockIndex, piece, range: sentence, kind: 'long-sentence' });
+        }
+        words.forEach((match, index) => {
+          const word = match[0];
+          const syllables = countSyllables(word);
+          stats.words++;
+          stats.syllables += syllables;
+          stats.letters += word.replace(/[^\p{L}\p{N}]/gu, '').length;
+          if (syllables >= 3) stats.polysyllables++;
+          if (isComplex(word, syllables, index === 0)) {
+            stats.complexWords++;
+            const start = sentence.start + match.index!;
+            jargon.push({ block: blockIndex, piece, range: { start, end: start + word.length }, kind: 'jargon' });
+          }
+        });
+      }
+    });
+    if (!stats.words) return;
+
+    const scores = readabilityScores(stats);
+    const judged = stats.words >= MIN_WORDS_TO_JUDGE;
+    const dense = judged && stats.complexWords / stats.words >= DENSE_RATIO;
+    // Long words are only flagged where there are a lot of them
+    if (dense) flags.push(...jargon);
+    results.push({
+      block: blockIndex,
+      stats,
+      scores,
+      difficulty: judged ? difficultyFor(scores.grade) : undefined,
+      longSentences,
+      dense
+    });
+    addStats(overall, stats);
+  });
+
+  return { blocks: results, overall: { ...overall, scores: readabilityScores(overall) }, flags };
+}
+
+/**
+ * Suggests where to pause, roughly every `sessionMinutes` of reading at the
+ * reader's pace.  Harder paragraphs count for more time, and a break just
+ * before a heading is preferred when one comes close enough.
+ */
+export function suggestBreaks(
+  blocks: DocumentBlock[],
+  report: ReadabilityReport,
+  wpm: number,
+  sessionMinutes: number
+): BreakSuggestion[] {
+  const grades = new Map(report.blocks.map(result => [result.block, result.scores.grade]));
+  const breaks: BreakSuggestion[] = [];
+  let sinceBreak = 0;
+  let beforeHeading: BreakSuggestion | null = null;
+
+  blocks.forEach((block, index) => {
+    if (index === blocks.length - 1) return;
+    if (block.kind === 'heading' && index > 0 && sinceBreak > 0) {
+      beforeHeading = { after: index - 1, minutes: sinceBreak };
+    }
+    const grade = grades.get(index);
+    // Harder text takes longer than the reader's usual pace
+    const effort = grade === undefined ? 1 : Math.min(1.5, Math.max(0.8, 1 + (grade - 9) * 0.05));
+    sinceBreak += (blockPieces(block).reduce((total, piece) => total + countWords(piece), 0) / wpm) * effort;
+    if (sinceBreak < sessionMinutes) return;
+
+    if (beforeHeading && beforeHeading.minutes >= sessionMinutes * 0.6) {
+      breaks.push({ after: beforeHeading.after, minutes: Math.round(beforeHeading.minutes) });
+      sinceBreak -= beforeHeading.minutes;
+    } else {
+      breaks.push({ after: index, minutes: Math.round(sinceBreak) });
+      sinceBreak = 0;
+    }
+    beforeHeading = null;
+  });
+  return breaks;
+}
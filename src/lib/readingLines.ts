@@ -0,0 +1,199 @@
+/**
+ * Text lines on screen
+ *
+ * Finds the lines of text the reading guide sits on, from the boxes the
+ * browser laid the text out in (range client rects), so the guide can
+ * snap to a real line and step exactly one line at a time.
+ *
+ * Lines are followed within a column: the block the text is in.  On the
+ * dashboard, cards sit side by side, and stepping down should stay in the
+ * card being read rather than jump to the one next to it.
+ */
+
+export interface TextLine {
+  top: number; // viewport coordinates
+  bottom: number;
+  left: number;
+  right: number;
+  block: Element; // the block the line's text is in
+}
+
+interface TextRect {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+  block: Element;
+}
+
+// Controls, hidden text and the guide itself are not lines to read
+const SKIP_SELECTOR = [
+  'script',
+  'style',
+  'noscript',
+  'button',
+  'input',
+  'textarea',
+  'select',
+  'option',
+  '[aria-hidden="true"]:not(.bionic-visible)',
+  '.bionic-sr',
+  '.reading-guide-container',
+  '.tts-player'
+].join(', ');
+const BLOCK_SELECTOR = 'p, li, h1, h2, h3, h4, h5, h6, blockquote, pre, td, th, dd, dt, figcaption, div, section, article';
+
+/** The text node and offset under a point, where the browser can tell. */
+export function caretFromPoint(x: number, y: number): { node: Node; offset: number } | null {
+  const doc = document as Document & {
+    caretPositionFromPoint?: (x: number, y: number) => { offsetNode: Node; offset: number } | null;
+  };
+  if (doc.caretPositionFromPoint) {
+    const position = doc.caretPositionFromPoint(x, y);
+    return position ? { node: position.offsetNode, offset: position.offset } : null;
+  }
+  if (doc.caretRangeFromPoint) {
+    const caret = doc.caretRangeFromPoint(x, y);
+    return caret ? { node: caret.startContainer, offset: caret.startOffset } : null;
+  }
+  return null;
+}
+
+const blockOf = (node: Node) => node.parentElement!.closest(BLOCK_SELECTOR) ?? document.body;
+
+/** The boxes of all readable text (under root) between two heights on screen. */
+function textRects(top: number, bottom: number, root: Element = document.body): TextRect[] {
+  const rects: TextRect[] = [];
+  const range = document.createRange();
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    const parent = node.parentElement;
+    if (!parent || !node.data.trim() || parent.closest(SKIP_SELECTOR)) continue;
+    const bounds = parent.getBoundingClientRect();
+    if (bounds.bottom < top || bounds.top > bottom) continue;
+    range.selectNodeContents(node);
+    const block = blockOf(node);
+    for (const rect of Array.from(range.getClientRects())) {
+      if (rect.width < 2 || rect.height < 2 || rect.bottom < top || rect.top > bottom) continue;
+      rects.push({ top: rect.top, bottom: rect.bottom, left: rect.left, right: rect.right, block });
+    }
+  }
+  return rects;
+}
+
+/** Groups boxes that share a line (overlap by at least half their height). */
+function groupLines(rects: TextRect[]): TextLine[] {
+  const lines: TextLine[] = [];
+  for (const rect of [...rects].sort((a, b) => a.top - b.top)) {
+    const line = lines.find(other => {
+      const overlap = Math.min(other.bottom, rect.bottom) - Math.max(other.top, rect.top);
+      return overlap >= Math.min(other.bottom - other.top, rect.bottom - rect.top) / 2;
+    });
+    if (line) {
+      line.top = Math.min(line.top, rect.top);
+      line.bottom = Math.max(line.bottom, rect.bottom);
+      line.left = Math.min(line.left, rect.left);
+      line.right = Math.max(line.right, rect.right);
+    } else {
+      lines.push({ ...rect });
+    }
+  }
+  return lines.sort((a, b) => a.top - b.top);
+}
+
+// Boxes in the same column as a line: centred within its block
+function inColumn(rects: TextRect[], line: TextLine): TextRect[] {
+  const column = line.block.getBoundingClientRect();
+  const inside = rects.filter(rect => {
+    const centre = (rect.left + rect.right) / 2;
+    return centre >= column.left && centre <= column.right;
+  });
+  if (inside.length) return inside;
+  // A narrow block: fall back to anything under the line itself
+  return rects.filter(rect => rect.right > line.left && rect.left < line.right);
+}
+
+/**
+ * The line of text under a point, or null if there is no text near it.
+ * Caret lookups snap to the nearest text, so a point between lines (or in
+ * a paragraph gap) still finds the closest line.
+ */
+export function lineAtPoint(x: number, y: number): TextLine | null {
+  const caret = caretFromPoint(x, y);
+  if (!caret || caret.node.nodeType !== Node.TEXT_NODE) return null;
+  const node = caret.node as Text;
+  if (!node.parentElement || node.parentElement.closest(SKIP_SELECTOR)) return null;
+
+  // The box of the character at the caret (or just before it, at a line end)
+  const range = document.createRange();
+  const offset = Math.min(caret.offset, Math.max(node.length - 1, 0));
+  range.setStart(node, offset);
+  range.setEnd(node, Math.min(offset + 1, node.length));
+  const rect = Array.from(range.getClientRects()).find(r => r.height > 0);
+  if (!rect) return null;
+  // Too far away: the caret snapped from empty space
+  if (y < rect.top - rect.height || y > rect.bottom + rect.height) return null;
+
+  const block = blockOf(node);
+  const seed: TextLine = { top: rect.top, bottom: rect.bottom, left: rect.left, right: rect.right, block };
+  // The rest of the line is in the same block, so only that needs measuring
+  const line = groupLines(textRects(rect.top, rect.bottom, block)).find(
+    other => other.top <= (rect.top + rect.bottom) / 2 && other.bottom >= (rect.top + rect.bottom) / 2
+  );
+  return line ? { ...line, block } : seed;
+}
+
+/**
+ * The line after (direction 1) or before (-1) a line in the same column,
+ * looking up to a screen away; null at the end of the text.
+ */
+export function adjacentLine(line: TextLine, direction: 1 | -1): TextLine | null {
+  const height = line.bottom - line.top;
+  const middle = (line.top + line.bottom) / 2;
+  const reach = window.innerHeight;
+  const rects =
+    direction > 0 ? textRects(middle, line.bottom + reach) : textRects(line.top - reach, middle);
+  const lines = groupLines(inColumn(rects, line));
+  return (
+    (direction > 0
+      ? lines.find(other => other.top >= middle - 1 && other.top > line.top + height / 2)
+      : [...lines].reverse().find(other => other.bottom <= middle + 1 && other.bottom < line.bottom - height / 2)) ?? null
+  );
+}
+
+function scrollParent(element: Element): Element | null {
+  for (let el = element.parentElement; el && el !== document.body; el = el.parentElement) {
+    const { overflowY } = getComputedStyle(el);
+    if ((overflowY === 'auto' || overflowY === 'scroll') && el.scrollHeight > el.clientHeight) return el;
+  }
+  return null;
+}
+
+/**
+ * Scrolls a line into comfortable view (a third of the way down) if it is
+ * near or past the edge of its scroll area.  Returns the distance moved.
+ */
+export function scrollLineIntoView(line: TextLine, margin = 48): number {
+  const scroller = scrollParent(line.block);
+  const view = scroller?.getBoundingClientRect() ?? { top: 0, bottom: window.innerHeight };
+  const top = Math.max(view.top, 0);
+  const bottom = Math.min(view.bottom, window.innerHeight);
+  if (line.top >= top + margin && line.bottom <= bottom - margin) return 0;
+  const before = scroller ? scroller.scrollTop : window.scrollY;
+  const target = line.top - (top + (bottom - top) / 3);
+  if (scroller) scroller.scrollBy(0, target);
+  else window.scrollBy(0, target);
+  return (scroller ? scroller.scrollTop : window.scrollY) - before;
+}
+
+/**
+ * How long to give a line at a reading speed.  Words are estimated from
+ * the line's width and font size (about six characters a word, each about
+ * half an em wide).
+ */
+export function lineDuration(line: TextLine, wordsPerMinute: number): number {
+  const fontSize = parseFloat(getComputedStyle(line.block).fontSize) || 16;
+  const words = Math.max(1, (line.right - line.left) / (fontSize * 0.5 * 6));
+  return Math.max(400, (words / wordsPerMinute) * 60000);
+}
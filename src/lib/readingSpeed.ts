@@ -0,0 +1,187 @@
+import { countWords } from './blocks';
+import { ExtractedDocument } from './library';
+
+/**
+ * Reading speed profile
+ *
+ * Estimates how fast this reader actually reads, instead of assuming 200
+ * words per minute.  The reader measures time spent on each chunk (or on
+ * each stretch of text scrolled past) and records it here as a sample; the
+ * reader's pace is the rate over their most recent samples.  The profile is
+ * kept in localStorage, so it follows the reader across documents.
+ *
+ * Samples far outside a plausible reading pace are dropped: very slow ones
+ * usually mean the reader stepped away, very fast ones that they skimmed or
+ * jumped ahead.
+ */
+
+export interface SpeedSample {
+  time: number; // when the sample was taken
+  words: number;
+  seconds: number;
+}
+
+export interface SpeedProfile {
+  samples: SpeedSample[]; // oldest first
+}
+
+export interface SpeedTrendPoint {
+  day: number; // local midnight, as a timestamp
+  wpm: number;
+  minutes: number; // time measured that day
+}
+
+/** Used until enough of the reader's own samples are in. */
+export const DEFAULT_WPM = 200;
+
+const STORAGE_KEY = 'reader.speedProfile';
+
+// Plausible reading pace; anything outside is not counted
+const MIN_WPM = 50;
+const MAX_WPM = 1000;
+
+// Too little text or time to say much about pace
+const MIN_SAMPLE_WORDS = 25;
+const MIN_SAMPLE_SECONDS = 8;
+
+const MAX_SAMPLES = 500; // kept for the trend
+const RECENT_SAMPLES = 30; // used for the current pace
+
+/** Samples needed before the default pace no longer counts. */
+export const CALIBRATION_SAMPLES = 5;
+const PRIOR_WORDS = 500;
+
+export function loadSpeedProfile(): SpeedProfile {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (saved && Array.isArray(saved.samples)) return { samples: saved.samples };
+  } catch (error) {
+    console.warn('Failed to load reading speed profile', error);
+  }
+  return { samples: [] };
+}
+
+export function saveSpeedProfile(profile: SpeedProfile): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  } catch (error) {
+    console.warn('Failed to save reading speed profile', error);
+  }
+}
+
+/**
+ * Adds a measurement to the profile.  Returns the profile unchanged if the
+ * measurement is too short or not a believable reading pace.
+ */
+export function addSpeedSample(profile: SpeedProfile, words: number, seconds: number, time = Date.now()): SpeedProfile {
+  if (words < MIN_SAMPLE_WORDS || seconds < MIN_SAMPLE_SECONDS) return profile;
+  const wpm = words / (seconds / 60);
+  if (wpm < MIN_WPM || wpm > MAX_WPM) return profile;
+  const sample = { time, words: Math.round(words), seconds: Math.round(seconds) };
+  return { samples: [...profile.samples, sample].slice(-MAX_SAMPLES) };
+}
+
+/**
+ * The reader's current pace in words per minute.  Uses the most recent
+ * samples, ignoring any that are less than half or more than twice their
+ * median, and leans towards the default while there are only a few.
+ */
+export function personalWpm(profile: SpeedProfile): number {
+  const recent = profile.samples.slice(-RECENT_SAMPLES);
+  if (!recent.length) return DEFAULT_WPM;
+
+  const rates = recent.map(sample => sample.words / (sample.seconds / 60)).sort((a, b) => a - b);
+  const median = rates[Math.floor(rates.length / 2)];
+  let words = 0;
+  let minutes = 0;
+  for (const sample of recent) {
+    const wpm = sample.words / (sample.seconds / 60);
+    if (wpm < median / 2 || wpm > median * 2) continue;
+    words += sample.words;
+    minutes += sample.seconds / 60;
+  }
+
+  const prior = PRIOR_WORDS * Math.max(0, 1 - recent.length / CALIBRATION_SAMPLES);
+  return Math.round((words + prior) / (minutes + prior / DEFAULT_WPM));
+}
+
+/** Pace per day over the most recent days with any reading measured. */
+export function speedTrend(profile: SpeedProfile, days = 14): SpeedTrendPoint[] {
+  const byDay = new Map<number, { words: number; seconds: number }>();
+  for (const sample of profile.samples) {
+    const date = new Date(sample.time);
+    const day = new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+    const total = byDay.get(day) ?? { words: 0, seconds: 0 };
+    total.words += sample.words;
+    total.seconds += sample.seconds;
+    byDay.set(day, total);
+  }
+  return [...byDay.entries()]
+    .sort(([a], [b]) => a - b)
+    .slice(-days)
+    .map(([day, { words, seconds }]) => ({
+      day,
+      wpm: Math.round(words / (seconds / 60)),
+      minutes: Math.round(seconds / 60)
+    }));
+}
+
+/** Whole minutes to read a number of words at a given pace. */
+export const minutesToRead = (words: number, wpm: number) => Math.ceil(words / wpm);
+
+/**
+ * Words still to read in a document, from the saved progress of each
+ * chapter.  Documents without chapters count as a single chapter, with the
+ * document's own progress.  A chapter can be left out, for the caller to
+ * count from the live view instead.
+ */
+export function documentWordsLeft(doc: ExtractedDocument, exceptSection?: number): number {
+  if (!doc.sections) {
+    return exceptSection === undefined ? Math.round(countWords(doc.content) * (1 - (doc.progress ?? 0) / 100)) : 0;
+  }
+  return Math.round(
+    doc.sections.reduce(
+      (total, section, index) =>
+        index === exceptSection ? total : total + countWords(section.content) * (1 - (section.progress ?? 0) / 100),
+      0
+    )
+  );
+}
+
+/**
+ * Time spent actually reading: runs only while started and while the page
+ * is visible, so switching tabs does not count as slow reading.
+ */
+export class ReadingTimer {
+  private startedAt: number | null = null;
+  private elapsed = 0;
+  private running = false;
+
+  start(now = Date.now()): void {
+    this.elapsed = 0;
+    this.running = true;
+    this.startedAt = typeof document !== 'undefined' && document.hidden ? null : now;
+  }
+
+  stop(): void {
+    this.running = false;
+    this.startedAt = null;
+    this.elapsed = 0;
+  }
+
+  /** Call when the page is hidden or shown again. */
+  setVisible(visible: boolean, now = Date.now()): void {
+    if (!this.running) return;
+    if (!visible && this.startedAt !== null) {
+      this.elapsed += now - this.startedAt;
+      this.startedAt = null;
+    } else if (visible && this.startedAt === null) {
+      this.startedAt = now;
+    }
+  }
+
+  seconds(now = Date.now()): number {
+    if (!this.running) return 0;
+    return (this.elapsed + (this.startedAt !== null ? now - this.startedAt : 0)) / 1000;
+  }
+}
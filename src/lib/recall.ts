@@ -0,0 +1,311 @@
+import { blockPieces, DocumentBlock } from './blocks';
+import { splitSentences, TextRange } from './speech';
+
+/**
+ * Recall questions
+ *
+ * Generates fill-in-the-blank (cloze) and multiple-choice questions from a
+ * document, entirely offline:
+ * 1. Key terms are picked by how often they occur, how widely they are
+ *    spread through the document, whether they appear in headings and how
+ *    specific they look (long words, repeated two-word phrases, names).
+ * 2. Each term is blanked out of the sentence that best introduces it,
+ *    preferring definitions ("X is ...", "... called X").
+ * 3. Multiple-choice options are other key terms from the same document
+ *    that look like the answer (same number of words, similar length and
+ *    ending), so they are plausible rather than obviously wrong.
+ *
+ * Generation is deterministic, so the same document always gives the same
+ * questions in the same order and saved practice progress stays valid.
+ */
+
+export interface RecallItem {
+  id: string;
+  kind: 'cloze' | 'choice';
+  prompt: string; // the sentence with the term blanked out
+  answer: string;
+  options?: string[]; // multiple choice only, answer included
+  correct?: number; // index of the answer in options
+  sentence: string; // the full sentence, shown as feedback
+  source: { block: number; piece: number } & TextRange;
+}
+
+/** Where a reader is in a document's practice questions, saved with the document. */
+export interface RecallProgress {
+  currentQuestion: number;
+  score: number;
+  completedQuestions: number[];
+}
+
+export const BLANK = '_____';
+
+const STOPWORDS = new Set(
+  `a about above after again against all also although am an and any are as at be because been before being below
+  between both but by can could did do does doing down during each either else even ever every few for from further
+  had has have having he her here hers herself him himself his how however i if in into is it its itself just least
+  less like made make makes many may me might more most much must my myself near need neither no nor not now of off
+  often on once one only or other others our ours ourselves out over own per perhaps rather same see seen several
+  shall she should since so some such than that the their theirs them themselves then there therefore these they
+  this those though through thus to too toward towards under until up upon us use used uses using very via was we
+  well were what whatever when where whether which while who whom whose why will with within without would yet you
+  your yours yourself also example examples include includes including called known another first second third
+  new many way ways part parts kind kinds type types thing things something number numbers time times often usually
+  different important following given general main called become becomes because whereas able based`.split(/\s+/)
+);
+
+// Words that usually come before a noun; terms that follow them look more like key concepts
+const BEFORE_NOUN = new Set('a an the of by in on to for with from into across through as and or its their this these'.split(' '));
+
+const DEFINITION_CUE = /\b(is|are|was|were|means|refers? to|called|known as|defined as|consists? of)\b/i;
+
+interface Term {
+  key: string; // normalised form
+  words: number;
+  surface: string; // most common spelling in the text
+  count: number;
+  blocks: Set<number>;
+  inHeading: boolean;
+  capitalised: number; // occurrences capitalised mid-sentence
+  afterArticle: number; // occurrences following "the", "of" etc.
+  score: number;
+}
+
+interface Sentence extends TextRange {
+  block: number;
+  piece: number;
+  text: string;
+  words: string[];
+}
+
+const normaliseWord = (word: string) => word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+
+const wordsOf = (text: string) => Array.from(text.matchAll(/\p{L}[\p{L}\p{M}'’-]*\p{L}|\p{L}/gu));
+
+/** A small deterministic hash, used to shuffle options the same way every time. */
+function hash(text: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 16777619);
+  return h >>> 0;
+}
+
+function shuffled<T>(items: T[], seed: string): T[] {
+  const result = [...items];
+  let state = hash(seed) || 1;
+  for (let i = result.length - 1; i > 0; i--) {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    const j = Math.floor((state / 2 ** 32) * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/** Finds whole-word occurrences of a term (case-insensitive) in a sentence. */
+function findTerm(text: string, term: Term): TextRange[] {
+  const parts = term.key.split(' ').map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(?<![\\p{L}\\p{M}])${parts.join('\\s+')}(?![\\p{L}\\p{M}])`, 'giu');
+  // Fold case and accents character by character, so offsets still line up
+  const plain = Array.from(text, ch => {
+    const folded = normaliseWord(ch);
+    return folded.length === ch.length ? folded : ch;
+  }).join('');
+  return Array.from(plain.matchAll(pattern)).map(m => ({ start: m.index!, end: m.index! + m[0].length }));
+}
+
+function collectSentences(blocks: DocumentBlock[]): Sentence[] {
+  const sentences: Sentence[] = [];
+  blocks.forEach((block, index) => {
+    if (block.kind === 'code' || block.kind === 'heading' || block.kind === 'table') return;
+    blockPieces(block).forEach((text, piece) => {
+      for (const range of splitSentences(text, 400)) {
+        const sentence = text.slice(range.start, range.end);
+        sentences.push({ block: index, piece, ...range, text: sentence, words: wordsOf(sentence).map(m => m[0]) });
+      }
+    });
+  });
+  return sentences;
+}
+
+/** Scores candidate key terms: single words and repeated two-word phrases. */
+function findTerms(blocks: DocumentBlock[], sentences: Sentence[]): Term[] {
+  const terms = new Map<string, Term & { surfaces: Map<string, number> }>();
+  const note = (surface: string, words: number, block: number, position: number, previous?: string) => {
+    const key = normaliseWord(surface);
+    let term = terms.get(key);
+    if (!term) {
+      term = { key, words, surface, count: 0, blocks: new Set(), inHeading: false, capitalised: 0, afterArticle: 0, score: 0, surfaces: new Map() };
+      terms.set(key, term);
+    }
+    term.count++;
+    term.blocks.add(block);
+    // Capitals at the start of a sentence say nothing about the word
+    if (position > 0 && /^\p{Lu}/u.test(surface)) term.capitalised++;
+    if (previous && BEFORE_NOUN.has(previous.toLowerCase())) term.afterArticle++;
+    term.surfaces.set(surface, (term.surfaces.get(surface) ?? 0) + (position > 0 ? 1 : 0.1));
+  };
+  const isContent = (word: string) => word.length >= 3 && !STOPWORDS.has(normaliseWord(word));
+
+  for (const sentence of sentences) {
+    sentence.words.forEach((word, i) => {
+      if (!isContent(word)) return;
+      const previous = sentence.words[i - 1];
+      if (word.length >= 4) note(word, 1, sentence.block, i, previous);
+      const next = sentence.words[i + 1];
+      if (next && isContent(next)) note(`${word} ${next}`, 2, sentence.block, i, previous);
+    });
+  }
+
+  const headingText = blocks
+    .filter(block => block.kind === 'heading')
+    .map(block => normaliseWord(block.kind === 'heading' ? block.text : ''))
+    .join('\n');
+
+  // A word that mostly appears as part of a phrase ("active" in "active
+  // transport") is left to the phrase
+  const inPhrases = new Set<string>();
+  for (const term of terms.values()) {
+    if (term.words < 2 || term.count < 2) continue;
+    for (const word of term.key.split(' ')) {
+      const single = terms.get(word);
+      if (single && term.count >= single.count * 0.6) inPhrases.add(word);
+    }
+  }
+
+  const scored: Term[] = [];
+  for (const term of terms.values()) {
+    // A phrase has to repeat to count as a term
+    if ((term.words > 1 && term.count < 2) || inPhrases.has(term.key)) continue;
+    term.surface = [...term.surfaces.entries()].sort((a, b) => b[1] - a[1])[0][0];
+    term.inHeading = new RegExp(`(?<![\\p{L}])${term.key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'u').test(headingText);
+    const specificity = Math.min(term.key.length, 12) / 6;
+    term.score =
+      term.count *
+      Math.sqrt(term.blocks.size) *
+      specificity *
+      (term.inHeading ? 2 : 1) *
+      (term.words > 1 ? 1.5 : 1) *
+      (term.capitalised > term.count / 2 ? 1.3 : 1) *
+      (0.5 + term.afterArticle / term.count);
+    scored.push(term);
+  }
+  return scored.sort((a, b) => b.score - a.score || a.key.localeCompare(b.key));
+}
+
+/** Picks the sentence that best introduces a term, if there is a usable one. */
+function bestSentence(term: Term, sentences: Sentence[], used: Set<Sentence>): { sentence: Sentence; ranges: TextRange[] } | null {
+  let best: { sentence: Sentence; ranges: TextRange[]; score: number } | null = null;
+  sentences.forEach((sentence, index) => {
+    if (used.has(sentence) || sentence.words.length < 6 || sentence.words.length > 45) return;
+    const ranges = findTerm(sentence.text, term);
+    if (!ranges.length) return;
+    // The rest of the sentence has to give something to go on
+    if (sentence.words.length - ranges.length * term.words < 5) return;
+    let score = 10 - ranges.length * 2 - index / sentences.length;
+    if (DEFINITION_CUE.test(sentence.text)) score += 3;
+    if (ranges[0].start === 0) score -= 1;
+    if (!best || score > best.score) best = { sentence, ranges, score };
+  });
+  return best;
+}
+
+/** Other terms that could pass for the answer (and do not appear in the question). */
+function pickDistractors(answer: Term, answerText: string, sentence: string, candidates: Term[], seed: string): string[] {
+  const answerWords = new Set(answer.key.split(' '));
+  const ending = answer.key.slice(-3);
+  const ranked = candidates
+    .filter(term =>
+      term !== answer &&
+      term.words === answer.words &&
+      !findTerm(sentence, term).length &&
+      !term.key.split(' ').some(word => answerWords.has(word)) &&
+      Math.abs(term.key.length - answer.key.length) <= Math.max(3, answer.key.length / 2)
+    )
+    .map(term => ({
+      term,
+      likeness: (term.key.slice(-3) === ending ? 2 : 0) + (term.capitalised > 0 === answer.capitalised > 0 ? 1 : 0) + term.score / 100
+    }))
+    .sort((a, b) => b.likeness - a.likeness)
+    .slice(0, 6);
+  // Keep the first letter's case consistent with the answer
+  const matchCase = (text: string) =>
+    /^\p{Lu}/u.test(answerText) ? text.charAt(0).toUpperCase() + text.slice(1) : text;
+  return shuffled(ranked, seed)
+    .slice(0, 3)
+    .map(({ term }) => matchCase(term.surface));
+}
+
+/** Builds up to `count` recall questions from a document's blocks. */
+export function generateRecallItems(blocks: DocumentBlock[], count = 10): RecallItem[] {
+  const sentences = collectSentences(blocks);
+  const terms = findTerms(blocks, sentences);
+  const keyTerms = terms.slice(0, 60);
+
+  const items: RecallItem[] = [];
+  const usedSentences = new Set<Sentence>();
+  const chosen: Term[] = [];
+
+  for (const term of keyTerms) {
+    if (items.length >= count) break;
+    // Skip a term that overlaps one already asked about ("cell" vs "cell membrane")
+    const words = term.key.split(' ');
+    if (chosen.some(other => other.key.split(' ').some(word => words.includes(word)))) continue;
+
+    const found = bestSentence(term, sentences, usedSentences);
+    if (!found) continue;
+    const { sentence, ranges } = found;
+    usedSentences.add(sentence);
+    chosen.push(term);
+
+    let prompt = '';
+    let last = 0;
+    for (const range of ranges) {
+      prompt += sentence.text.slice(last, range.start) + BLANK;
+      last = range.end;
+    }
+    prompt += sentence.text.slice(last);
+
+    const answer = sentence.text.slice(ranges[0].start, ranges[0].end);
+    const id = `${sentence.block}.${sentence.piece}.${sentence.start}:${term.key}`;
+    const distractors = items.length % 2 === 0 ? pickDistractors(term, answer, sentence.text, keyTerms, id) : [];
+    const source = { block: sentence.block, piece: sentence.piece, start: sentence.start, end: sentence.end };
+
+    if (distractors.length === 3) {
+      const options = shuffled([answer, ...distractors], id);
+      items.push({ id, kind: 'choice', prompt, answer, options, correct: options.indexOf(answer), sentence: sentence.text, source });
+    } else {
+      items.push({ id, kind: 'cloze', prompt, answer, sentence: sentence.text, source });
+    }
+  }
+
+  // Ask in reading order
+  return items.sort((a, b) => a.source.block - b.source.block || a.source.piece - b.source.piece || a.source.start - b.source.start);
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Checks a typed cloze answer, ignoring case, accents, punctuation and
+ * plural endings, and allowing a small typo in longer words.
+ */
+export function checkClozeAnswer(item: RecallItem, typed: string): boolean {
+  const clean = (text: string) =>
+    normaliseWord(text)
+      .replace(/[^\p{L}\p{N}\s]/gu, '')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .replace(/(es|s)$/, '');
+  const expected = clean(item.answer);
+  const given = clean(typed);
+  if (!given) return false;
+  const allowed = expected.length >= 10 ? 2 : expected.length >= 5 ? 1 : 0;
+  return editDistance(expected, given) <= allowed;
+}
@@ -0,0 +1,103 @@
+import { blockPieces, BlockPoint, comparePoints, DocumentBlock } from './blocks';
+import { splitSentences } from './speech';
+
+/**
+ * RSVP (rapid serial visual presentation)
+ *
+ * Turns a document into the word-by-word sequence shown by the RSVP reader.
+ * Each word carries its optimal recognition point (the letter the eye should
+ * land on, shown at the fixed focal point) and how long to hold it relative
+ * to the base pace: longer after commas, sentence ends and paragraph ends,
+ * and a little longer for long words.
+ */
+
+export interface RsvpWord {
+  text: string;
+  orp: number; // index of the focal letter in text
+  hold: number; // display time as a multiple of one word at the set pace
+  point: BlockPoint; // where the word starts in the document
+  sentenceStart: boolean;
+}
+
+export const MIN_RSVP_WPM = 100;
+export const MAX_RSVP_WPM = 1000;
+
+// Hold multipliers
+const CLAUSE_PAUSE = 1.8; // , ; : and dashes
+const SENTENCE_PAUSE = 2.5;
+const PARAGRAPH_PAUSE = 3.5;
+const LONG_WORD = 1.3;
+
+/**
+ * The letter to fix on: a little left of the middle, as in Spritz-style
+ * readers.  Leading punctuation such as quotes is skipped.
+ */
+export function orpIndex(word: string): number {
+  const lead = word.search(/[\p{L}\p{N}]/u);
+  const letters = word.slice(Math.max(0, lead)).replace(/[^\p{L}\p{N}]+$/u, '').length;
+  const offset = letters <= 1 ? 0 : letters <= 5 ? 1 : letters <= 9 ? 2 : letters <= 13 ? 3 : 4;
+  return Math.max(0, lead) + offset;
+}
+
+function holdFor(word: string, endOfPiece: boolean, endOfSentence: boolean): number {
+  let hold = 1;
+  const letters = word.replace(/[^\p{L}\p{N}]/gu, '').length;
+  if (letters > 8) hold = LONG_WORD;
+  if (endOfPiece) return Math.max(hold, PARAGRAPH_PAUSE);
+  if (endOfSentence || /[.!?…]["'”’)\]]*$/.test(word)) return Math.max(hold, SENTENCE_PAUSE);
+  if (/[,;:–—]["'”’)\]]*$/.test(word) || word === '-') return Math.max(hold, CLAUSE_PAUSE);
+  return hold;
+}
+
+/** The words of a document, in reading order.  Code blocks are skipped. */
+export function buildRsvpWords(blocks: DocumentBlock[]): RsvpWord[] {
+  const words: RsvpWord[] = [];
+  blocks.forEach((block, blockIndex) => {
+    if (block.kind === 'code') return;
+    blockPieces(block).forEach((text, piece) => {
+      const sentences = splitSentences(text);
+      sentences.forEach((sentence, sentenceIndex) => {
+        const matches = [...text.slice(sentence.start, sentence.end).matchAll(/\S+/g)];
+        matches.forEach((match, index) => {
+          const lastInSentence = index === matches.length - 1;
+          words.push({
+            text: match[0],
+            orp: orpIndex(match[0]),
+            hold: holdFor(match[0], lastInSentence && sentenceIndex === sentences.length - 1, lastInSentence),
+            point: { block: blockIndex, piece, offset: sentence.start + match.index! },
+            sentenceStart: index === 0
+          });
+        });
+      });
+    });
+  });
+  return words;
+}
+
+/** Milliseconds to show a word for at a given pace. */
+export const wordDuration = (word: RsvpWord, wpm: number) => (60000 / wpm) * word.hold;
+
+/**
+ * Where "back a sentence" goes: the start of the current sentence, or of
+ * the one before if already at (or just past) the start.
+ */
+export function previousSentence(words: RsvpWord[], index: number): number {
+  let start = Math.min(index, words.length - 1);
+  while (start > 0 && !words[start].sentenceStart) start--;
+  if (index - start > 1) return start;
+  start = Math.max(0, start - 1);
+  while (start > 0 && !words[start].sentenceStart) start--;
+  return start;
+}
+
+export function nextSentence(words: RsvpWord[], index: number): number {
+  let next = index + 1;
+  while (next < words.length && !words[next].sentenceStart) next++;
+  return Math.min(next, words.length - 1);
+}
+
+/** The first word at or after a position in the document. */
+export function findRsvpWord(words: RsvpWord[], point: BlockPoint): number {
+  const index = words.findIndex(word => comparePoints(word.point, point) >= 0);
+  return index === -1 ? Math.max(0, words.length - 1) : index;
+}
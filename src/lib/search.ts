@@ -0,0 +1,202 @@
+import { blockPieces } from './blocks';
+import { ExtractedDocument, readingBlocks } from './library';
+import { TextRange } from './speech';
+
+/**
+ * Library search
+ *
+ * An inverted index over every document in the library.  Each piece of
+ * text (a paragraph, list item, table cell ...) is indexed as a passage, so
+ * a hit can take the reader straight to the matching paragraph.  Documents
+ * are added and removed one at a time as the library changes, rather than
+ * re-indexing everything.
+ *
+ * Passages are ranked with BM25; passages containing every search word,
+ * and the words as a phrase, rank higher.  The last word typed also
+ * matches as a prefix, so results appear while typing.
+ */
+
+export interface SearchHit {
+  documentId: string;
+  section?: number;
+  block: number;
+  piece: number;
+  match: TextRange; // first match, as offsets into the piece
+  snippet: string;
+  snippetMatches: TextRange[]; // matched words, as offsets into the snippet
+  score: number;
+}
+
+interface Passage {
+  documentId: string;
+  section?: number;
+  block: number;
+  piece: number;
+  text: string;
+  length: number; // in words
+}
+
+interface Token extends TextRange {
+  term: string;
+}
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const SNIPPET_LENGTH = 160;
+
+/** Lower-cases, strips accents and reduces simple plurals, so "Café" finds "cafes". */
+function normalise(word: string): string {
+  const term = word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase().replace(/['’]s$/, '');
+  return term.length > 3 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term;
+}
+
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}][\p{L}\p{N}\p{M}'’]*/gu)) {
+    tokens.push({ term: normalise(match[0]), start: match.index!, end: match.index! + match[0].length });
+  }
+  return tokens;
+}
+
+/** A short extract around the first match, with the matched words marked. */
+function makeSnippet(text: string, matches: TextRange[]): { snippet: string; snippetMatches: TextRange[] } {
+  let start = 0;
+  let end = text.length;
+  if (text.length > SNIPPET_LENGTH) {
+    start = Math.max(0, matches[0].start - SNIPPET_LENGTH / 3);
+    end = Math.min(text.length, start + SNIPPET_LENGTH);
+    start = Math.max(0, end - SNIPPET_LENGTH);
+    // Cut at word boundaries
+    if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+    if (end < text.length) end = text.lastIndexOf(' ', end) > matches[0].end ? text.lastIndexOf(' ', end) : end;
+  }
+  const prefix = start > 0 ? '…' : '';
+  const snippet = prefix + text.slice(start, end).replace(/\s+/g, ' ') + (end < text.length ? '…' : '');
+  // Whitespace runs were collapsed, so re-find the matched words in the snippet
+  const words = matches.filter(m => m.start >= start && m.end <= end).map(m => text.slice(m.start, m.end));
+  const snippetMatches: TextRange[] = [];
+  let from = 0;
+  for (const word of words) {
+    const index = snippet.indexOf(word, from);
+    if (index === -1) continue;
+    snippetMatches.push({ start: index, end: index + word.length });
+    from = index + word.length;
+  }
+  return { snippet, snippetMatches };
+}
+
+export class SearchIndex {
+  private passages = new Map<number, Passage>();
+  private postings = new Map<string, Map<number, number>>(); // term -> passage -> count
+  private documents = new Map<string, number[]>(); // document -> passages
+  private nextPassage = 0;
+  private totalLength = 0;
+
+  has(documentId: string): boolean {
+    return this.documents.has(documentId);
+  }
+
+  documentIds(): string[] {
+    return [...this.documents.keys()];
+  }
+
+  /** Indexes a document (replacing any earlier copy of it). */
+  add(doc: ExtractedDocument): void {
+    this.remove(doc.id);
+    const ids: number[] = [];
+    const parts = doc.sections
+      ? doc.sections.map((section, index) => ({ section: index, ...readingBlocks(section) }))
+      : [{ section: undefined, ...readingBlocks(doc) }];
+
+    for (const { section, blocks } of parts) {
+      blocks.forEach((block, blockIndex) => {
+        blockPieces(block).forEach((text, piece) => {
+          const tokens = tokenize(text);
+          if (!tokens.length) return;
+          const id = this.nextPassage++;
+          this.passages.set(id, { documentId: doc.id, section, block: blockIndex, piece, text, length: tokens.length });
+          this.totalLength += tokens.length;
+          ids.push(id);
+          for (const { term } of tokens) {
+            let posting = this.postings.get(term);
+            if (!posting) this.postings.set(term, (posting = new Map()));
+            posting.set(id, (posting.get(id) ?? 0) + 1);
+          }
+        });
+      });
+    }
+    this.documents.set(doc.id, ids);
+  }
+
+  remove(documentId: string): void {
+    const ids = this.documents.get(documentId);
+    if (!ids) return;
+    for (const id of ids) {
+      const passage = this.passages.get(id)!;
+      this.totalLength -= passage.length;
+      for (const { term } of tokenize(passage.text)) {
+        const posting = this.postings.get(term);
+        posting?.delete(id);
+        if (posting?.size === 0) this.postings.delete(term);
+      }
+      this.passages.delete(id);
+    }
+    this.documents.delete(documentId);
+  }
+
+  search(query: string, limit = 20): SearchHit[] {
+    const words = tokenize(query).map(token => token.term);
+    if (!words.length || !this.passages.size) return [];
+
+    // Each search word, with the indexed terms it matches
+    const wordTerms = words.map((word, index) =>
+      index === words.length - 1 && word.length >= 2
+        ? [...this.postings.keys()].filter(term => term.startsWith(word))
+        : this.postings.has(word) ? [word] : []
+    );
+
+    const averageLength = this.totalLength / this.passages.size;
+    const scores = new Map<number, { score: number; words: Set<number> }>();
+    wordTerms.forEach((terms, wordIndex) => {
+      for (const term of terms) {
+        const posting = this.postings.get(term)!;
+        const idf = Math.log(1 + (this.passages.size - posting.size + 0.5) / (posting.size + 0.5));
+        for (const [id, count] of posting) {
+          const { length } = this.passages.get(id)!;
+          const weight = idf * ((count * (K1 + 1)) / (count + K1 * (1 - B + (B * length) / averageLength)));
+          const entry = scores.get(id) ?? { score: 0, words: new Set<number>() };
+          // A prefix match counts for a little less than the whole word
+          entry.score += term === words[wordIndex] ? weight : weight * 0.8;
+          entry.words.add(wordIndex);
+          scores.set(id, entry);
+        }
+      }
+    });
+
+    const ranked = [...scores.entries()]
+      .map(([id, { score, words: found }]) => ({ id, score: score * (found.size / words.length) ** 2 }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit * 3);
+
+    const hits: SearchHit[] = ranked.map(({ id, score }) => {
+      const passage = this.passages.get(id)!;
+      const tokens = tokenize(passage.text);
+      const isMatch = (term: string, wordIndex: number) => wordTerms[wordIndex].includes(term);
+      const matches = tokens.filter(token => wordTerms.some(terms => terms.includes(token.term)));
+      // Bonus when the words appear together, in order
+      const phrase = words.length > 1 && tokens.some((_, i) => words.every((_, w) => tokens[i + w] && isMatch(tokens[i + w].term, w)));
+      return {
+        documentId: passage.documentId,
+        section: passage.section,
+        block: passage.block,
+        piece: passage.piece,
+        match: { start: matches[0].start, end: matches[0].end },
+        ...makeSnippet(passage.text, matches),
+        score: phrase ? score * 1.5 : score
+      };
+    });
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
@@ -0,0 +1,159 @@
+import { blockPieces, DocumentBlock } from './blocks';
+
+/**
+ * Speech queue
+ *
+ * Browsers cut off or stall long utterances, so the reader speaks one
+ * sentence at a time.  Each queued segment records where its text lives in
+ * the document (block, piece within the block, character range) so the
+ * reader can highlight it and remember where to resume.
+ */
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface SpeechSegment extends TextRange {
+  block: number;
+  piece: number;
+  text: string;
+}
+
+/** Where an item ends, which sets how long to pause before the next. */
+export type SpeechBreak = 'sentence' | 'paragraph' | 'heading';
+
+/** A saved read-aloud position, stable across reloads. */
+export interface SpeechPosition {
+  section?: number; // chapter, for documents with sections
+  block: number;
+  piece: number;
+  offset: number;
+}
+
+// Longer sentences are split at a clause or word boundary; some voices stop
+// speaking after roughly 15 seconds of a single utterance.
+const MAX_SEGMENT_LENGTH = 200;
+
+const ABBREVIATION = /(?:^|[\s(])(?:mr|mrs|ms|dr|prof|sr|jr|st|vs|etc|e\.g|i\.e|cf|fig|vol|approx|\p{Lu})\.$/iu;
+
+const sentenceSegmenter =
+  typeof Intl !== 'undefined' && 'Segmenter' in Intl ? new Intl.Segmenter(undefined, { granularity: 'sentence' }) : null;
+
+/** Shrinks a range so it does not start or end with whitespace. */
+function trimRange(text: string, { start, end }: TextRange): TextRange {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return { start, end };
+}
+
+function splitLong(text: string, range: TextRange, maxLength: number): TextRange[] {
+  const parts: TextRange[] = [];
+  let { start } = range;
+  while (range.end - start > maxLength) {
+    const window = text.slice(start, start + maxLength);
+    // Prefer a clause break, then any space, in the second half of the window
+    const clause = Math.max(...[', ', '; ', ': ', ' – ', ' — '].map(mark => window.lastIndexOf(mark)));
+    const space = window.lastIndexOf(' ');
+    const cut = clause > maxLength / 2 ? clause + 1 : space > maxLength / 2 ? space : maxLength;
+    parts.push(trimRange(text, { start, end: start + cut }));
+    start += cut;
+  }
+  parts.push(trimRange(text, { start, end: range.end }));
+  return parts.filter(part => part.end > part.start);
+}
+
+/** Splits text into sentence ranges, breaking up any that are too long to speak in one go. */
+export function splitSentences(text: string, maxLength = MAX_SEGMENT_LENGTH): TextRange[] {
+  const sentences: TextRange[] = [];
+  if (sentenceSegmenter) {
+    for (const { index, segment } of sentenceSegmenter.segment(text)) {
+      sentences.push({ start: index, end: index + segment.length });
+    }
+  } else {
+    let start = 0;
+    for (const match of text.matchAll(/[.!?…]+["'”’)\]]*(?=\s|$)|\n+/g)) {
+      const end = match.index! + match[0].length;
+      sentences.push({ start, end });
+      start = end;
+    }
+    sentences.push({ start, end: text.length });
+  }
+
+  // Rejoin breaks after abbreviations and initials ("Dr. Smith"), or where
+  // the next part carries on in lower case ("Really?" she asked)
+  const merged: TextRange[] = [];
+  for (const range of sentences) {
+    const previous = merged[merged.length - 1];
+    const before = previous ? text.slice(previous.start, previous.end).trimEnd() : '';
+    const after = text.slice(range.start, range.end).trimStart();
+    if (previous && !/\n/.test(text.slice(previous.start, range.end)) && (ABBREVIATION.test(before) || /^\p{Ll}/u.test(after))) {
+      previous.end = range.end;
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  // Line breaks inside a sentence (list-like text, poetry) also end it
+  return merged
+    .flatMap(range => {
+      const parts: TextRange[] = [];
+      let start = range.start;
+      for (let i = text.indexOf('\n', start); i !== -1 && i < range.end; i = text.indexOf('\n', i + 1)) {
+        parts.push({ start, end: i });
+        start = i + 1;
+      }
+      parts.push({ start, end: range.end });
+      return parts;
+    })
+    .map(range => trimRange(text, range))
+    .filter(range => range.end > range.start)
+    .flatMap(range => splitLong(text, range, maxLength));
+}
+
+/** Builds the sentence-by-sentence speech queue for a list of blocks. */
+export function buildSpeechQueue(blocks: DocumentBlock[]): SpeechSegment[] {
+  const queue: SpeechSegment[] = [];
+  blocks.forEach((block, blockIndex) => {
+    blockPieces(block).forEach((text, piece) => {
+      for (const range of splitSentences(text)) {
+        queue.push({ block: blockIndex, piece, ...range, text: text.slice(range.start, range.end) });
+      }
+    });
+  });
+  return queue;
+}
+
+/**
+ * The break after each segment of a queue: list items count as
+ * paragraphs, table cells as sentences, and a heading is set apart from
+ * the text either side of it.
+ */
+export function queueBreaks(queue: SpeechSegment[], blocks: DocumentBlock[]): SpeechBreak[] {
+  return queue.map((segment, index) => {
+    const next = queue[index + 1];
+    if (!next) return 'paragraph';
+    if (next.block === segment.block) {
+      return next.piece !== segment.piece && blocks[segment.block]?.kind === 'list' ? 'paragraph' : 'sentence';
+    }
+    return blocks[segment.block]?.kind === 'heading' || blocks[next.block]?.kind === 'heading' ? 'heading' : 'paragraph';
+  });
+}
+
+/** Finds the queue index to resume from for a saved position (0 if it no longer exists). */
+export function findSegment(queue: SpeechSegment[], position: Omit<SpeechPosition, 'section'>): number {
+  const index = queue.findIndex(
+    segment => segment.block === position.block && segment.piece === position.piece && segment.end > position.offset
+  );
+  return Math.max(0, index);
+}
+
+/**
+ * The word being spoken, from a boundary event's character index within a
+ * segment.  Uses the event's charLength where the browser provides it.
+ */
+export function wordAt(text: string, charIndex: number, charLength?: number): TextRange {
+  if (charLength) return { start: charIndex, end: charIndex + charLength };
+  const match = /^[^\s]+/.exec(text.slice(charIndex));
+  return { start: charIndex, end: charIndex + (match ? match[0].length : 0) };
+}
@@ -0,0 +1,148 @@
+/**
+ * Speech engines
+ *
+ * The speech service talks to a synthesizer through this small interface,
+ * so the browser's Web Speech API can be swapped for another engine: a
+ * local synthesizer, or the timed engine below for tests and for browsers
+ * without speech synthesis.
+ */
+
+export interface EngineVoice {
+  name: string; // unique within an engine; saved in voice profiles
+  lang: string;
+  default?: boolean;
+}
+
+export interface UtteranceOptions {
+  voice?: string; // EngineVoice name; the engine's default if missing
+  rate: number;
+  pitch: number;
+  volume: number;
+}
+
+export interface UtteranceEvents {
+  onStart?: () => void;
+  onBoundary?: (charIndex: number, charLength?: number) => void; // word boundaries
+  onEnd?: () => void;
+  onError?: (error: string) => void;
+}
+
+export interface SpeechEngine {
+  readonly name: string;
+  readonly audible: boolean; // false for engines that only keep time
+  getVoices: () => EngineVoice[];
+  onVoicesChanged: (listener: () => void) => () => void;
+  /** Speaks one utterance; queueing is up to the caller.  Events stop after cancel(). */
+  speak: (text: string, options: UtteranceOptions, events: UtteranceEvents) => void;
+  cancel: () => void;
+  pause: () => void;
+  resume: () => void;
+}
+
+/** The browser's speech synthesis, or null where it is not available. */
+export function createWebSpeechEngine(): SpeechEngine | null {
+  if (typeof window === 'undefined' || !('speechSynthesis' in window)) return null;
+  const synth = window.speechSynthesis;
+  let current: SpeechSynthesisUtterance | null = null;
+
+  return {
+    name: 'Web Speech',
+    audible: true,
+    getVoices: () =>
+      synth.getVoices().map(voice => ({ name: voice.name, lang: voice.lang, default: voice.default })),
+    onVoicesChanged: listener => {
+      synth.addEventListener('voiceschanged', listener);
+      return () => synth.removeEventListener('voiceschanged', listener);
+    },
+    speak: (text, options, events) => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      current = utterance;
+      const voice = synth.getVoices().find(v => v.name === options.voice);
+      if (voice) utterance.voice = voice;
+      utterance.rate = options.rate;
+      utterance.pitch = options.pitch;
+      utterance.volume = options.volume;
+      // Cancelled utterances still fire end or error events; ignore those
+      utterance.onstart = () => current === utterance && events.onStart?.();
+      utterance.onboundary = (event) => {
+        if (current !== utterance || (event.name && event.name !== 'word')) return;
+        events.onBoundary?.(event.charIndex, event.charLength);
+      };
+      utterance.onend = () => {
+        if (current !== utterance) return;
+        current = null;
+        events.onEnd?.();
+      };
+      utterance.onerror = (event) => {
+        if (current !== utterance) return;
+        current = null;
+        events.onError?.(event.error);
+      };
+      synth.speak(utterance);
+    },
+    cancel: () => {
+      current = null;
+      synth.cancel();
+      // Chrome stays paused across cancel, so the next utterance would never start
+      synth.resume();
+    },
+    pause: () => synth.pause(),
+    resume: () => synth.resume()
+  };
+}
+
+/**
+ * A silent engine that keeps time: it "speaks" at about the pace a voice
+ * would (180 words a minute at rate 1) and reports each word, so read-along
+ * highlighting and the queue work without a synthesizer.  Useful for tests
+ * and for browsers without speech synthesis.
+ */
+export function createTimedEngine(wordsPerMinute = 180): SpeechEngine {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let step: (() => void) | null = null; // what the next tick does
+  let paused = false;
+  let delay = 0;
+
+  const schedule = () => {
+    clearTimeout(timer);
+    if (!paused && step) timer = setTimeout(() => step?.(), delay);
+  };
+
+  return {
+    name: 'Silent (timed)',
+    audible: false,
+    getVoices: () => [{ name: 'Silent', lang: 'und', default: true }],
+    onVoicesChanged: () => () => {},
+    speak: (text, options, events) => {
+      const words = [...text.matchAll(/\S+/g)];
+      delay = 60000 / (wordsPerMinute * options.rate);
+      let index = 0;
+      events.onStart?.();
+      step = () => {
+        if (index < words.length) {
+          const word = words[index++];
+          events.onBoundary?.(word.index!, word[0].length);
+        } else {
+          step = null;
+          events.onEnd?.();
+          return;
+        }
+        schedule();
+      };
+      step();
+    },
+    cancel: () => {
+      clearTimeout(timer);
+      step = null;
+      paused = false;
+    },
+    pause: () => {
+      paused = true;
+      clearTimeout(timer);
+    },
+    resume: () => {
+      paused = false;
+      schedule();
+    }
+  };
+}
@@ -0,0 +1,261 @@
+import { SpeechBreak, TextRange, wordAt } from './speech';
+import { SpeechEngine } from './speechEngine';
+import { applyLexicon, originalRange, PronunciationRule } from './pronunciation';
+
+/**
+ * Speech service
+ *
+ * The one place in the app that speaks.  Anything that reads aloud (the
+ * document reader, the header read-aloud button) hands it a list of
+ * sentences; starting a new reading stops the old one and tells its owner,
+ * so two parts of the app can never talk over each other.  Items are spoken
+ * one at a time because browsers cut off or stall long utterances.
+ *
+ * Voice changes apply from the next sentence; restart() applies them at once.
+ * Pacing adds pauses between items (longer at paragraphs and headings) and
+ * can stop every few sentences until the listener is ready to go on.
+ * Each sentence is passed through the pronunciation lexicon on its way to
+ * the engine; word positions reported back are in the original text.
+ */
+
+export interface VoiceProfile {
+  id: string;
+  name: string;
+  voice: string; // engine voice name; '' for a voice in the user's language
+  rate: number;
+  pitch: number;
+  volume: number;
+}
+
+export interface SpeechRequest {
+  owner: string; // who is reading, e.g. "document" or "page"
+  label: string; // what is being read, shown in the player
+  items: string[]; // spoken one after another
+  start?: number;
+  lexicon?: PronunciationRule[]; // e.g. a document's own rules, before the user's
+  breaks?: SpeechBreak[]; // after each item; 'sentence' where missing
+  onItem?: (index: number) => void; // an item started
+  onWord?: (index: number, word: TextRange) => void; // range within the item
+  onDone?: (finished: boolean) => void; // false if stopped or replaced
+}
+
+// 'waiting': stopped after a stretch of sentences until the listener goes on
+export type SpeechStatus = 'idle' | 'speaking' | 'paused' | 'waiting';
+
+export interface SpeechState {
+  status: SpeechStatus;
+  owner: string | null;
+  label: string;
+  index: number;
+  total: number;
+  recapFrom: number; // while waiting, the first item of the stretch just heard
+}
+
+export interface SpeechPacing {
+  sentencePause: number; // milliseconds
+  paragraphPause: number;
+  headingPause: number;
+  holdEvery: number; // sentences to read before waiting; 0 reads straight on
+  recap: boolean; // ask the listener to recap while waiting
+}
+
+export const MIN_RATE = 0.5;
+export const MAX_RATE = 2;
+
+export const DEFAULT_PROFILE: VoiceProfile = {
+  id: 'default',
+  name: 'Default',
+  voice: '',
+  rate: 1,
+  pitch: 1,
+  volume: 1
+};
+
+export const DEFAULT_PACING: SpeechPacing = {
+  sentencePause: 0,
+  paragraphPause: 400,
+  headingPause: 800,
+  holdEvery: 0,
+  recap: false
+};
+
+const IDLE: SpeechState = { status: 'idle', owner: null, label: '', index: 0, total: 0, recapFrom: 0 };
+
+export class SpeechService {
+  private engine: SpeechEngine;
+  private voice: Omit<VoiceProfile, 'id' | 'name'> = DEFAULT_PROFILE;
+  private lexicon: PronunciationRule[] = [];
+  private pacing: SpeechPacing = DEFAULT_PACING;
+  private request: SpeechRequest | null = null;
+  private pending: number | null = null; // the next item, during a pause between items
+  private gap: ReturnType<typeof setTimeout> | undefined;
+  private stretchStart = 0; // first item heard since the last wait
+  private state: SpeechState = IDLE;
+  private listeners = new Set<() => void>();
+
+  constructor(engine: SpeechEngine) {
+    this.engine = engine;
+  }
+
+  getEngine = () => this.engine;
+
+  /** Swaps the synthesizer, e.g. for a mock in tests.  Stops any reading. */
+  setEngine(engine: SpeechEngine) {
+    this.stop();
+    this.engine = engine;
+  }
+
+  setVoice(voice: Omit<VoiceProfile, 'id' | 'name'>) {
+    this.voice = voice;
+  }
+
+  setLexicon(rules: PronunciationRule[]) {
+    this.lexicon = rules;
+  }
+
+  setPacing(pacing: SpeechPacing) {
+    this.pacing = pacing;
+  }
+
+  // For useSyncExternalStore: a new object only when something changed
+  getState = () => this.state;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private setState(changes: Partial<SpeechState>) {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach(listener => listener());
+  }
+
+  /** Starts reading, stopping whatever was being read before. */
+  speak(request: SpeechRequest) {
+    this.finish(false);
+    if (!request.items.length) return;
+    this.request = request;
+    this.setState({ owner: request.owner, label: request.label, total: request.items.length });
+    this.seek(request.start ?? 0);
+  }
+
+  private speakItem(index: number) {
+    const request = this.request;
+    if (!request) return;
+    this.clearGap();
+    const spoken = applyLexicon(request.items[index], [...(request.lexicon ?? []), ...this.lexicon]);
+    this.setState({ status: 'speaking', index });
+    request.onItem?.(index);
+    this.engine.speak(spoken.text, this.voice, {
+      onBoundary: (charIndex, charLength) => {
+        if (this.request !== request) return;
+        const word = wordAt(spoken.text, charIndex, charLength);
+        request.onWord?.(index, originalRange(spoken, word.start, word.end - word.start));
+      },
+      onEnd: () => {
+        if (this.request === request && this.state.index === index) this.next(index);
+      },
+      onError: (error) => {
+        if (this.request !== request) return;
+        console.warn('Speech synthesis error:', error);
+        this.finish(false);
+      }
+    });
+  }
+
+  // After an item: pause as long as the break calls for, or wait for the listener
+  private next(index: number) {
+    const request = this.request!;
+    const following = index + 1;
+    if (following >= request.items.length) {
+      this.finish(true);
+      return;
+    }
+    const { holdEvery } = this.pacing;
+    if (holdEvery > 0 && following - this.stretchStart >= holdEvery) {
+      this.pending = following;
+      this.setState({ status: 'waiting', recapFrom: this.stretchStart });
+      return;
+    }
+    const pauses = {
+      sentence: this.pacing.sentencePause,
+      paragraph: this.pacing.paragraphPause,
+      heading: this.pacing.headingPause
+    };
+    const delay = pauses[request.breaks?.[index] ?? 'sentence'];
+    if (delay <= 0) {
+      this.speakItem(following);
+      return;
+    }
+    this.pending = following;
+    this.gap = setTimeout(() => this.speakItem(following), delay);
+  }
+
+  private clearGap() {
+    clearTimeout(this.gap);
+    this.gap = undefined;
+    this.pending = null;
+  }
+
+  private finish(finished: boolean) {
+    const request = this.request;
+    if (!request) return;
+    this.request = null;
+    this.clearGap();
+    this.engine.cancel();
+    this.setState(IDLE);
+    request.onDone?.(finished);
+  }
+
+  pause() {
+    if (this.state.status !== 'speaking') return;
+    // Between items there is nothing to pause, just the next item to hold back
+    if (this.gap) clearTimeout(this.gap);
+    else this.engine.pause();
+    this.setState({ status: 'paused' });
+  }
+
+  /** Carries on after a pause, or after waiting at the end of a stretch. */
+  resume() {
+    const { status } = this.state;
+    if (status !== 'paused' && status !== 'waiting') return;
+    if (this.pending !== null) {
+      if (status === 'waiting') this.stretchStart = this.pending;
+      this.speakItem(this.pending);
+    } else {
+      this.engine.resume();
+      this.setState({ status: 'speaking' });
+    }
+  }
+
+  togglePause() {
+    if (this.state.status === 'speaking') this.pause();
+    else this.resume();
+  }
+
+  /** Stops reading; with an owner, only if that owner is the one reading. */
+  stop(owner?: string) {
+    if (owner && this.request?.owner !== owner) return;
+    this.finish(false);
+  }
+
+  /** Jumps to an item of the current reading and carries on from there. */
+  seek(index: number) {
+    const request = this.request;
+    if (!request) return;
+    this.engine.cancel();
+    this.stretchStart = Math.max(0, Math.min(index, request.items.length - 1));
+    this.speakItem(this.stretchStart);
+  }
+
+  skip(delta: number) {
+    this.seek(this.state.index + delta);
+  }
+
+  /** Says the current item again, e.g. so a new speed is heard at once. */
+  restart() {
+    if (this.state.status === 'speaking') this.seek(this.state.index);
+  }
+}
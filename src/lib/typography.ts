@@ -0,0 +1,55 @@
+/**
+ * Reading typography
+ *
+ * Settings that make text easier to read with dyslexia: a more readable
+ * font, more space between letters, words and paragraphs, shorter lines
+ * and a coloured tint over the page.  App writes them to data attributes
+ * on the body, alongside font size and line height, and its stylesheet
+ * does the rest.
+ *
+ * Spacing is stored as a level (0 for normal, up to SPACING_LEVELS - 1),
+ * so the stylesheet can pair each level with spacing that suits it.
+ */
+
+export type ReadingFont = 'default' | 'dyslexic' | 'verdana';
+export type Tint = 'none' | 'cream' | 'yellow' | 'peach' | 'pink' | 'lilac' | 'blue' | 'green';
+
+export interface Typography {
+  font: ReadingFont;
+  letterSpacing: number;
+  wordSpacing: number;
+  paragraphSpacing: number;
+  lineLength: number; // most characters on a line; 0 for no limit
+  tint: Tint;
+}
+
+export const DEFAULT_TYPOGRAPHY: Typography = {
+  font: 'default',
+  letterSpacing: 0,
+  wordSpacing: 0,
+  paragraphSpacing: 0,
+  lineLength: 0,
+  tint: 'none',
+};
+
+export const READING_FONTS: { id: ReadingFont; name: string; family?: string }[] = [
+  { id: 'default', name: 'Default' },
+  { id: 'dyslexic', name: 'OpenDyslexic', family: "'OpenDyslexic', sans-serif" },
+  { id: 'verdana', name: 'Verdana', family: 'Verdana, Tahoma, sans-serif' },
+];
+
+export const SPACING_LEVELS = ['Normal', 'Slightly wider', 'Wider', 'Much wider', 'Widest'];
+
+// Longest first, so the slider reads from no limit to the shortest lines
+export const LINE_LENGTHS = [0, 80, 70, 60, 50];
+
+export const TINTS: { id: Tint; name: string; color: string }[] = [
+  { id: 'none', name: 'None', color: 'transparent' },
+  { id: 'cream', name: 'Cream', color: '#FFF3D6' },
+  { id: 'yellow', name: 'Yellow', color: '#FFF6A8' },
+  { id: 'peach', name: 'Peach', color: '#FFDFC8' },
+  { id: 'pink', name: 'Pink', color: '#FCD9E8' },
+  { id: 'lilac', name: 'Lilac', color: '#E4DAFA' },
+  { id: 'blue', name: 'Blue', color: '#D4EAFF' },
+  { id: 'green', name: 'Green', color: '#D6F2CE' },
+];
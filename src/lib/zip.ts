@@ -0,0 +1,122 @@
+import { inflate } from './inflate';
+
+/**
+ * ZIP archive reader
+ *
+ * Office documents (DOCX) and e-books (EPUB) are ZIP packages of XML files.
+ * This reader parses the central directory and inflates individual entries
+ * on demand using the browser's DecompressionStream, which is all the
+ * document importers need.  Only "stored" and "deflate" entries are
+ * supported; those are the only methods the formats allow.
+ */
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+export interface ZipArchive {
+  /** Paths of every file in the archive, as stored in the directory. */
+  paths: string[];
+  /** Reads an entry's bytes, or returns null if it does not exist. */
+  readBytes: (path: string) => Promise<Uint8Array | null>;
+  /** Reads an entry as UTF-8 text, or returns null if it does not exist. */
+  readText: (path: string) => Promise<string | null>;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+/**
+ * Opens a ZIP archive.  Throws if the data has no readable central
+ * directory (i.e. it is not a ZIP file at all).
+ */
+export function openZip(data: Uint8Array): ZipArchive {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // The end-of-central-directory record sits at the very end, possibly
+  // followed by a comment of up to 64KB.
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < count && offset + 46 <= data.length; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) break;
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const path = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(path, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const find = (path: string) => {
+    const normalized = path.replace(/^\/+/, '');
+    if (entries.has(normalized)) return entries.get(normalized)!;
+    // Some writers disagree about case; fall back to a case-insensitive match.
+    const lower = normalized.toLowerCase();
+    for (const [name, entry] of entries) {
+      if (name.toLowerCase() === lower) return entry;
+    }
+    return null;
+  };
+
+  const readBytes = async (path: string): Promise<Uint8Array | null> => {
+    const entry = find(path);
+    if (!entry) return null;
+    const local = entry.localHeaderOffset;
+    if (local + 30 > data.length || view.getUint32(local, true) !== LOCAL_SIGNATURE) return null;
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    const raw = data.subarray(start, start + entry.compressedSize);
+    if (entry.method === 0) return raw;
+    if (entry.method === 8) return inflate(raw, 'deflate-raw');
+    return null;
+  };
+
+  return {
+    paths: [...entries.keys()],
+    readBytes,
+    readText: async (path: string) => {
+      const bytes = await readBytes(path);
+      return bytes ? decoder.decode(bytes) : null;
+    },
+  };
+}
+
+/**
+ * Resolves a path referenced from inside a package part (e.g. a relationship
+ * target or an EPUB href) against the directory of the referring part.
+ */
+export function resolvePackagePath(base: string, target: string): string {
+  let clean = target.split('#')[0];
+  try {
+    clean = decodeURIComponent(clean);
+  } catch {
+    // Keep malformed escapes as they are.
+  }
+  if (clean.startsWith('/')) return clean.slice(1);
+  const parts = base.split('/').slice(0, -1);
+  for (const segment of clean.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment && segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+}
@@ -1,13 +1,19 @@
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import { GlossaryProvider } from './components/GlossaryContext';
+import { LearningProvider } from './components/LearningContext';
+import { SpeechProvider } from './components/SpeechContext';
+import '@fontsource/opendyslexic/400.css';
+import '@fontsource/opendyslexic/700.css';
 import './index.css';
 
 /**
  * Entry point for the Vite + React application.  This file is
  * responsible for hydrating the root HTML element with the App
  * component.  It imports the global CSS to ensure Tailwind and other
- * styles are applied before rendering.  The React.StrictMode wrapper
+ * styles are applied before rendering, and the bundled OpenDyslexic font
+ * offered in the accessibility settings.  The React.StrictMode wrapper
  * helps surface potential problems in development.
  */
 const container = document.getElementById('root');
@@ -18,6 +24,12 @@ if (!container) {
 const root = createRoot(container);
 root.render(
   <React.StrictMode>
-    <App />
+    <LearningProvider>
+      <GlossaryProvider>
+        <SpeechProvider>
+          <App />
+        </SpeechProvider>
+      </GlossaryProvider>
+    </LearningProvider>
   </React.StrictMode>
 );